@@ -1,12 +1,15 @@
 import { assertEquals, assertMatch } from "@std/assert";
 import { isAbsolute } from "@std/path/is-absolute";
+import { join } from "@std/path/join";
 import { describe, it } from "@std/testing/bdd";
 import {
   _internal,
   getCachePath,
+  getCachePathForHash,
   getDefaultDenoCacheDir,
   getDenoCacheFilePath,
   getDenoCacheMetadataPath,
+  getSourceFingerprint,
 } from "./cache.ts";
 import type { ImportMap } from "./import_map.ts";
 
@@ -218,6 +221,50 @@ describe("cache", () => {
     });
   });
 
+  describe("getCachePathForHash", () => {
+    it("should use the given hash for the directory structure and filename", () => {
+      const hash = "a3f5b8c2d1e4f6a7";
+      const cachePath = getCachePathForHash("file:///src/utils/helper.ts", hash);
+
+      assertEquals(cachePath, join("a3", "f5", `${hash}-helper.ts`));
+    });
+
+    it("should match getCachePath for the same hash", () => {
+      const specifier = "https://example.com/module.ts";
+      const sourceCode = "console.log('hello');";
+      const hash = _internal.getCacheHashHex(specifier, sourceCode, testImportMap);
+
+      assertEquals(getCachePathForHash(specifier, hash), getCachePath(specifier, sourceCode, testImportMap));
+    });
+  });
+
+  describe("getSourceFingerprint", () => {
+    const specifier = "file:///src/module.ts";
+    const sourceCode = "export const x: number = 1;";
+
+    it("should generate consistent fingerprints for same input", () => {
+      const fingerprint1 = getSourceFingerprint(specifier, sourceCode, { mode: "strip" });
+      const fingerprint2 = getSourceFingerprint(specifier, sourceCode, { mode: "strip" });
+
+      assertMatch(fingerprint1, /^[a-f0-9]{64}$/);
+      assertEquals(fingerprint1, fingerprint2);
+    });
+
+    it("should generate different fingerprints for different source code", () => {
+      const fingerprint1 = getSourceFingerprint(specifier, sourceCode, { mode: "strip" });
+      const fingerprint2 = getSourceFingerprint(specifier, "export const x: number = 2;", { mode: "strip" });
+
+      assertEquals(fingerprint1 === fingerprint2, false);
+    });
+
+    it("should generate different fingerprints for different settings", () => {
+      const fingerprint1 = getSourceFingerprint(specifier, sourceCode, { mode: "strip" });
+      const fingerprint2 = getSourceFingerprint(specifier, sourceCode, { mode: "transpile" });
+
+      assertEquals(fingerprint1 === fingerprint2, false);
+    });
+  });
+
   describe("getDefaultDenoCacheDir", () => {
     it("should return a non-empty string", () => {
       const cacheDir = getDefaultDenoCacheDir();
@@ -1,6 +1,7 @@
 import { crypto } from "@std/crypto/crypto";
 import { join } from "@std/path/join";
 import { fromFileUrl } from "@std/path/from-file-url";
+import { isAbsolute } from "@std/path/is-absolute";
 import { DenoDir } from "@deno/cache-dir";
 import type { ImportMap } from "./import_map.ts";
 
@@ -39,6 +40,41 @@ function getCacheHashHex(
   return bytesToHex(hash);
 }
 
+/**
+ * Generates a SHA-256 fingerprint of a module's original source code.
+ *
+ * Unlike {@linkcode getCachePath}, which hashes the transformed code, the fingerprint
+ * is computed from the untouched source along with any settings that influence the
+ * transformation (import map, transpile mode, compiler options, etc). This allows a
+ * previously transformed module to be recognised before doing any of the work.
+ *
+ * @param specifier - The module specifier (URL or path)
+ * @param sourceCode - The original source code of the module
+ * @param settings - Any JSON serializable settings that affect how the module is transformed
+ * @returns A 64 character hexadecimal fingerprint
+ *
+ * @example
+ * ```typescript
+ * const fingerprint = getSourceFingerprint(
+ *   "file:///src/utils/helper.ts",
+ *   "export const helper = (): void => {};",
+ *   { importMap: { imports: {} }, mode: "strip" },
+ * );
+ * ```
+ */
+export function getSourceFingerprint(
+  specifier: string,
+  sourceCode: string,
+  settings: unknown,
+): string {
+  const data = JSON.stringify({ specifier, code: sourceCode, settings });
+  const hash = crypto.subtle.digestSync(
+    HASH_ALGORITHM,
+    textEncoder.encode(data),
+  );
+  return bytesToHex(hash);
+}
+
 /**
  * Generates a SHA-256 hash of a URL string.
  * Matches Deno's internal hashing mechanism for cache file names.
@@ -81,7 +117,27 @@ export function getCachePath(
   sourceCode: string,
   importMap: ImportMap,
 ): string {
-  const hashHex = getCacheHashHex(specifier, sourceCode, importMap);
+  return getCachePathForHash(specifier, getCacheHashHex(specifier, sourceCode, importMap));
+}
+
+/**
+ * Generates a hierarchical cache file path from a precomputed hash.
+ *
+ * Uses the same `{first-2-hash-chars}/{next-2-hash-chars}/{full-hash}-{filename}`
+ * layout as {@linkcode getCachePath} but lets the caller decide what the hash covers,
+ * for example a transitive hash over a module and all of its dependencies.
+ *
+ * @param specifier - The module specifier (URL or path), used for the filename
+ * @param hashHex - A hexadecimal hash identifying the cached content
+ * @returns A relative cache path for storing the transformed module
+ *
+ * @example
+ * ```typescript
+ * const cachePath = getCachePathForHash("file:///src/utils/helper.ts", "a3f5b8c2d1e4f6");
+ * // Returns: "a3/f5/a3f5b8c2d1e4f6-helper.ts"
+ * ```
+ */
+export function getCachePathForHash(specifier: string, hashHex: string): string {
   const filename = extractFilename(specifier);
 
   // Create hierarchical structure: ab/cd/abcd...-filename
@@ -114,6 +170,37 @@ export function getDefaultDenoCacheDir(): string {
   return denoDirCache;
 }
 
+/**
+ * The name of the directory, under Deno's cache directory, that transformed modules are stored in by default.
+ */
+export const DEFAULT_CACHE_DIR_NAME = "brad_jones_ts_importer";
+
+/**
+ * Resolves the directory transformed modules are stored in.
+ *
+ * @param cacheDir - A custom cache directory, relative paths are resolved against the current working directory.
+ *   When omitted, defaults to {@linkcode DEFAULT_CACHE_DIR_NAME} under Deno's cache directory.
+ * @returns The absolute path to the cache directory
+ *
+ * @example
+ * ```typescript
+ * const defaultDir = resolveCacheDir();
+ * // Returns: "/Users/.../deno/brad_jones_ts_importer"
+ *
+ * const customDir = resolveCacheDir(".cache/imports");
+ * // Returns: "{cwd}/.cache/imports"
+ * ```
+ */
+export function resolveCacheDir(cacheDir?: string): string {
+  if (cacheDir) {
+    // Use isAbsolute from std/path to properly detect absolute paths
+    return isAbsolute(cacheDir) ? cacheDir : join(Deno.cwd(), cacheDir);
+  }
+
+  // Default to Deno's cache directory for easier cache management
+  return join(getDefaultDenoCacheDir(), DEFAULT_CACHE_DIR_NAME);
+}
+
 /**
  * Computes the Deno cache file path for a given URL.
  *
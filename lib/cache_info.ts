@@ -10,7 +10,7 @@ import { getDefaultDenoCacheDir } from "./cache.ts";
  * but adapted to work with the current Deno APIs and to be
  * self-contained within this project.
  *
- * We really only need it for JSR imports as @deno/loader returns local file:// URLs for npm specifiers.
+ * We really only need it for JSR imports, npm specifiers are resolved to local files by npm_resolver.ts.
  */
 export async function cacheInfo(specifier: string) {
   return toFileUrl(join(getDefaultDenoCacheDir(), "remote", await urlToFilename(new URL(specifier))));
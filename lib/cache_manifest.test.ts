@@ -0,0 +1,81 @@
+import { assertEquals } from "@std/assert";
+import { join } from "@std/path/join";
+import { afterEach, beforeEach, describe, it } from "@std/testing/bdd";
+import { CACHE_MANIFEST_FILENAME, CacheManifest, type CacheManifestEntry } from "./cache_manifest.ts";
+
+describe("CacheManifest", () => {
+  let cacheDir: string;
+
+  const entry: CacheManifestEntry = {
+    fingerprint: "abc123",
+    cacheUrl: "file:///tmp/cache/ab/c1/abc123-mod.ts",
+    dependencies: ["file:///src/dep.ts"],
+  };
+
+  beforeEach(async () => {
+    cacheDir = await Deno.makeTempDir();
+  });
+
+  afterEach(async () => {
+    await Deno.remove(cacheDir, { recursive: true });
+  });
+
+  it("should start empty when no manifest exists", async () => {
+    const manifest = await CacheManifest.load(cacheDir);
+    assertEquals([...manifest.entries()], []);
+    assertEquals(manifest.dirty, false);
+  });
+
+  it("should persist entries across loads", async () => {
+    const manifest = await CacheManifest.load(cacheDir);
+    manifest.set("file:///src/mod.ts", entry);
+    assertEquals(manifest.dirty, true);
+    await manifest.save();
+    assertEquals(manifest.dirty, false);
+
+    const reloaded = await CacheManifest.load(cacheDir);
+    assertEquals(reloaded.get("file:///src/mod.ts"), entry);
+  });
+
+  it("should persist deletions", async () => {
+    const manifest = await CacheManifest.load(cacheDir);
+    manifest.set("file:///src/mod.ts", entry);
+    await manifest.save();
+
+    manifest.delete("file:///src/mod.ts");
+    await manifest.save();
+
+    const reloaded = await CacheManifest.load(cacheDir);
+    assertEquals(reloaded.get("file:///src/mod.ts"), undefined);
+  });
+
+  it("should not discard entries saved by another instance", async () => {
+    const first = await CacheManifest.load(cacheDir);
+    const second = await CacheManifest.load(cacheDir);
+
+    first.set("file:///src/a.ts", entry);
+    second.set("file:///src/b.ts", entry);
+    await first.save();
+    await second.save();
+
+    const reloaded = await CacheManifest.load(cacheDir);
+    assertEquals(reloaded.get("file:///src/a.ts"), entry);
+    assertEquals(reloaded.get("file:///src/b.ts"), entry);
+    assertEquals(second.get("file:///src/a.ts"), entry);
+  });
+
+  it("should ignore a corrupt manifest", async () => {
+    await Deno.writeTextFile(join(cacheDir, CACHE_MANIFEST_FILENAME), "{ not json");
+    const manifest = await CacheManifest.load(cacheDir);
+    assertEquals([...manifest.entries()], []);
+  });
+
+  it("should ignore a manifest with an unknown version", async () => {
+    await Deno.writeTextFile(
+      join(cacheDir, CACHE_MANIFEST_FILENAME),
+      JSON.stringify({ version: 0, entries: { "file:///src/mod.ts": entry } }),
+    );
+    const manifest = await CacheManifest.load(cacheDir);
+    assertEquals(manifest.get("file:///src/mod.ts"), undefined);
+  });
+});
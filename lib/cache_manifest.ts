@@ -0,0 +1,190 @@
+import { is, type Predicate } from "@core/unknownutil";
+import { ensureDir } from "@std/fs";
+import { join } from "@std/path/join";
+
+/**
+ * The file name of the manifest, stored at the root of the cache directory.
+ */
+export const CACHE_MANIFEST_FILENAME = "manifest.json";
+
+/**
+ * Bumped whenever the shape of the manifest, or the code modules are transformed to, changes so stale manifests
+ * & the cached modules they describe are discarded.
+ */
+const CACHE_MANIFEST_VERSION = 9;
+
+/**
+ * Describes a single transformed module recorded in the {@linkcode CacheManifest}.
+ */
+export type CacheManifestEntry = {
+  /** Fingerprint of the original source and the settings it was transformed with */
+  readonly fingerprint: string;
+  /** The file:// URL of the final transformed module in the cache directory */
+  readonly cacheUrl: string;
+  /** The resolved URLs of the module's dependencies */
+  readonly dependencies: readonly string[];
+};
+
+/**
+ * Type predicate for validating CacheManifestEntry objects.
+ */
+const isCacheManifestEntry: Predicate<CacheManifestEntry> = is.ObjectOf({
+  fingerprint: is.String,
+  cacheUrl: is.String,
+  dependencies: is.ArrayOf(is.String),
+});
+
+const isCacheManifestData = is.ObjectOf({
+  version: is.Number,
+  entries: is.RecordOf(isCacheManifestEntry, is.String),
+});
+
+/**
+ * A persistent index of transformed modules, keyed by their original URL.
+ *
+ * The manifest lets a fresh process map a module's original URL and source
+ * fingerprint straight to the final file in the cache directory, without
+ * transpiling the module or rewriting its imports again.
+ *
+ * Only the entries changed by this instance are written back on {@linkcode save},
+ * after re-reading the manifest from disk, so several processes sharing the same
+ * cache directory do not discard each other's entries.
+ *
+ * @example
+ * ```typescript ignore
+ * const manifest = await CacheManifest.load("/tmp/my-cache");
+ * manifest.set("file:///src/mod.ts", {
+ *   fingerprint: "…",
+ *   cacheUrl: "file:///tmp/my-cache/ab/cd/abcd…-mod.ts",
+ *   dependencies: [],
+ * });
+ * await manifest.save();
+ * ```
+ */
+export class CacheManifest {
+  #cacheDir: string;
+  #entries: Map<string, CacheManifestEntry>;
+  #changes: Map<string, CacheManifestEntry | undefined> = new Map();
+
+  private constructor(cacheDir: string, entries: Map<string, CacheManifestEntry>) {
+    this.#cacheDir = cacheDir;
+    this.#entries = entries;
+  }
+
+  /**
+   * Loads the manifest from the given cache directory.
+   *
+   * A missing, unreadable or outdated manifest results in an empty manifest
+   * rather than an error, the cache is only ever an optimization.
+   *
+   * @param cacheDir - The absolute path to the cache directory
+   * @returns The loaded manifest
+   */
+  static async load(cacheDir: string): Promise<CacheManifest> {
+    return new CacheManifest(cacheDir, await readEntries(join(cacheDir, CACHE_MANIFEST_FILENAME)));
+  }
+
+  /**
+   * The absolute path to the manifest file.
+   */
+  get path(): string {
+    return join(this.#cacheDir, CACHE_MANIFEST_FILENAME);
+  }
+
+  /**
+   * Whether there are changes that have not been saved yet.
+   */
+  get dirty(): boolean {
+    return this.#changes.size > 0;
+  }
+
+  /**
+   * Gets the entry for a module.
+   *
+   * @param url - The original URL of the module
+   */
+  get(url: string): CacheManifestEntry | undefined {
+    return this.#entries.get(url);
+  }
+
+  /**
+   * Records (or replaces) the entry for a module.
+   *
+   * @param url - The original URL of the module
+   * @param entry - The entry to record
+   */
+  set(url: string, entry: CacheManifestEntry): void {
+    this.#entries.set(url, entry);
+    this.#changes.set(url, entry);
+  }
+
+  /**
+   * Removes the entry for a module.
+   *
+   * @param url - The original URL of the module
+   */
+  delete(url: string): void {
+    this.#entries.delete(url);
+    this.#changes.set(url, undefined);
+  }
+
+  /**
+   * Returns all recorded entries.
+   */
+  entries(): IterableIterator<[string, CacheManifestEntry]> {
+    return this.#entries.entries();
+  }
+
+  /**
+   * Writes any pending changes to disk.
+   *
+   * The manifest on disk is re-read and the pending changes applied on top of it,
+   * then it is written to a temporary file and renamed into place so readers never
+   * observe a partially written manifest.
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) {
+      return;
+    }
+
+    const changes = this.#changes;
+    this.#changes = new Map();
+
+    const entries = await readEntries(this.path);
+    for (const [url, entry] of changes) {
+      if (entry) {
+        entries.set(url, entry);
+      } else {
+        entries.delete(url);
+      }
+    }
+
+    const data = { version: CACHE_MANIFEST_VERSION, entries: Object.fromEntries(entries) };
+    const tmpPath = `${this.path}.${crypto.randomUUID()}.tmp`;
+    await ensureDir(this.#cacheDir);
+    await Deno.writeTextFile(tmpPath, JSON.stringify(data));
+    await Deno.rename(tmpPath, this.path);
+
+    // Pick up anything other processes have written in the meantime
+    for (const [url, entry] of entries) {
+      if (!this.#changes.has(url)) {
+        this.#entries.set(url, entry);
+      }
+    }
+  }
+}
+
+/**
+ * Reads the manifest entries from disk, returning an empty map when unavailable.
+ */
+async function readEntries(path: string): Promise<Map<string, CacheManifestEntry>> {
+  try {
+    const data = JSON.parse(await Deno.readTextFile(path));
+    if (isCacheManifestData(data) && data.version === CACHE_MANIFEST_VERSION) {
+      return new Map(Object.entries(data.entries));
+    }
+  } catch {
+    // Missing or corrupt manifest, start again from scratch
+  }
+  return new Map();
+}
@@ -0,0 +1,181 @@
+#!/usr/bin/env -S deno run -A
+/**
+ * The deno-ts-importer command line interface.
+ *
+ * @example
+ * ```bash
+ * # Report the size of the default cache directory
+ * deno run -A jsr:@brad-jones/deno-ts-importer/cli cache size
+ *
+ * # Remove anything not used for a week and keep the cache under 500MB
+ * deno run -A jsr:@brad-jones/deno-ts-importer/cli cache prune --max-age 7d --max-bytes 500MB
+ *
+ * # Transform & vendor everything the plugins import, ready to be shipped with the binary
+ * deno run -A jsr:@brad-jones/deno-ts-importer/cli prepare --cache-dir ./.ts-importer ./plugins/a.ts ./plugins/b.ts
+ * ```
+ *
+ * @module
+ */
+import { Command, EnumType } from "@cliffy/command";
+import { resolve } from "@std/path";
+import { toFileUrl } from "@std/path/to-file-url";
+import { loadImportMap } from "./load_import_map.ts";
+import { TsImporter } from "./ts_importer.ts";
+import { TsImporterCache } from "./ts_importer_cache.ts";
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+};
+
+/**
+ * Parses a human friendly duration such as "7d", "12h" or "30m" into milliseconds.
+ */
+function parseDuration(value: string): number {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d|w)?$/);
+  if (!match) {
+    throw new TypeError(`Invalid duration "${value}", expected something like 30m, 12h or 7d`);
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2] ?? "ms"];
+}
+
+/**
+ * Parses a human friendly size such as "500MB" or "2gb" into bytes.
+ */
+function parseSize(value: string): number {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/);
+  if (!match) {
+    throw new TypeError(`Invalid size "${value}", expected something like 512KB, 500MB or 2GB`);
+  }
+  return Math.floor(Number(match[1]) * SIZE_UNITS[match[2] ?? "b"]);
+}
+
+/**
+ * Formats a number of bytes for display.
+ */
+function formatSize(bytes: number): string {
+  for (const unit of ["GB", "MB", "KB"]) {
+    const size = SIZE_UNITS[unit.toLowerCase()];
+    if (bytes >= size) {
+      return `${(bytes / size).toFixed(1)}${unit}`;
+    }
+  }
+  return `${bytes}B`;
+}
+
+/**
+ * Commands for inspecting and cleaning up the importer cache directory.
+ */
+const cacheCommand = new Command()
+  .description("Inspect and clean up the directory that transformed modules are cached in.")
+  .globalOption(
+    "--cache-dir <path:string>",
+    "The cache directory, defaults to brad_jones_ts_importer under Deno's cache directory.",
+  )
+  .action(function () {
+    this.showHelp();
+  })
+  .command("list", "List the cached modules, least recently used first.")
+  .option("--json", "Output the entries as JSON.")
+  .action(async ({ cacheDir, json }) => {
+    const entries = await new TsImporterCache({ cacheDir }).list();
+    if (json) {
+      console.log(JSON.stringify(entries, null, 2));
+      return;
+    }
+    for (const entry of entries) {
+      console.log(
+        [formatSize(entry.size), entry.accessed.toISOString(), entry.originalUrl ?? "(unknown)", entry.path].join("\t"),
+      );
+    }
+  })
+  .command("size", "Report the total size of the cached modules.")
+  .option("--bytes", "Output the size as a plain number of bytes.")
+  .action(async ({ cacheDir, bytes }) => {
+    const size = await new TsImporterCache({ cacheDir }).size();
+    console.log(bytes ? `${size}` : formatSize(size));
+  })
+  .command("prune", "Remove cached modules that exceed the given limits.")
+  .option("--max-age <duration:string>", "Remove modules not used for longer than this, e.g. 30m, 12h or 7d.")
+  .option("--max-entries <count:integer>", "Keep at most this many modules, removing the least recently used first.")
+  .option("--max-bytes <size:string>", "Remove the least recently used modules until the cache fits, e.g. 500MB.")
+  .action(async ({ cacheDir, maxAge, maxEntries, maxBytes }) => {
+    const removed = await new TsImporterCache({ cacheDir }).prune({
+      maxAge: maxAge === undefined ? undefined : parseDuration(maxAge),
+      maxEntries,
+      maxBytes: maxBytes === undefined ? undefined : parseSize(maxBytes),
+    });
+    const freed = removed.reduce((total, entry) => total + entry.size, 0);
+    console.log(`Removed ${removed.length} cached modules, freeing ${formatSize(freed)}`);
+  })
+  .command("clear", "Remove every cached module.")
+  .action(async ({ cacheDir }) => {
+    const cache = new TsImporterCache({ cacheDir });
+    await cache.clear();
+    console.log(`Cleared ${cache.cacheDir}`);
+  });
+
+/**
+ * Turns a module path into a file URL, URLs & other specifiers are passed through.
+ */
+function toSpecifier(value: string): string {
+  return URL.canParse(value) ? value : toFileUrl(resolve(value)).href;
+}
+
+/**
+ * Transforms the module graphs of the given modules into the cache directory without evaluating them.
+ */
+const prepareCommand = new Command()
+  .description(
+    "Transform & cache modules along with all of their dependencies, without evaluating them. " +
+      "Remote & jsr: modules are vendored into the cache directory, so importing the modules " +
+      "from it later needs no network access nor transpilation.",
+  )
+  .type("mode", new EnumType(["transpile", "strip", "passthrough"]))
+  .arguments("<specifiers...:string>")
+  .option(
+    "--cache-dir <path:string>",
+    "The cache directory, defaults to brad_jones_ts_importer under Deno's cache directory.",
+  )
+  .option(
+    "--vendor-dir <path:string>",
+    "Where to vendor remote & jsr: modules, defaults to vendor in the cache directory.",
+  )
+  .option("--import-map <path:string>", "An import map, or deno.json, to use instead of discovering deno.json files.")
+  .option("--transpile-mode <mode:mode>", "How TypeScript is transpiled, must match the importer that uses the cache.")
+  .action(async ({ cacheDir, vendorDir, importMap, transpileMode }, ...specifiers: string[]) => {
+    const importer = new TsImporter({
+      cacheDir,
+      vendorDir,
+      importMap: importMap === undefined ? undefined : await loadImportMap(importMap),
+      autoDiscoverImportMap: importMap === undefined,
+      tsTranspileMode: transpileMode,
+      failureMode: "strict",
+    });
+    const prepared = await importer.prepare(specifiers.map(toSpecifier));
+    console.log(`Prepared ${prepared.length} modules`);
+  });
+
+const cli = new Command()
+  .name("deno-ts-importer")
+  .description("Companion tooling for @brad-jones/deno-ts-importer.")
+  .action(function () {
+    this.showHelp();
+  })
+  .command("cache", cacheCommand)
+  .command("prepare", prepareCommand);
+
+if (import.meta.main) {
+  await cli.parse(Deno.args);
+}
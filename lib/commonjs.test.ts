@@ -0,0 +1,73 @@
+import { assertEquals } from "@std/assert";
+import { join } from "@std/path";
+import { toFileUrl } from "@std/path/to-file-url";
+import { describe, it } from "@std/testing/bdd";
+import { createCommonJsModule, getCommonJsExports } from "./commonjs.ts";
+
+describe("getCommonJsExports", () => {
+  it("should detect properties assigned to exports", () => {
+    const code = `exports.a = 1;\nmodule.exports.b = 2;\nexports["c-d"] = 3;\nif (exports.a == 1) {}\n`;
+    assertEquals(getCommonJsExports("file:///mod.cjs", code), ["a", "b", "c-d"]);
+  });
+
+  it("should detect properties defined on exports", () => {
+    const code = `Object.defineProperty(exports, "__esModule", { value: true });\n` +
+      `Object.defineProperty(exports, "a", { enumerable: true, get: () => a });\n`;
+    assertEquals(getCommonJsExports("file:///mod.cjs", code), ["__esModule", "a"]);
+  });
+
+  it("should detect the properties of an object assigned to module.exports", () => {
+    const code = `module.exports = { a, b: 2, "c": 3, ...rest };\n`;
+    assertEquals(getCommonJsExports("file:///mod.cjs", code), ["a", "b", "c"]);
+  });
+
+  it("should detect shorthand properties spread over several lines", () => {
+    const code = `module.exports = {\n  a,\n  b,\n  c: function () { return { d: 1 }; },\n  [computed]: 4,\n};\n`;
+    assertEquals(getCommonJsExports("file:///mod.cjs", code), ["a", "b", "c"]);
+  });
+
+  it("should not detect exports in comments & strings", () => {
+    const code = `// exports.a = 1;\n/* Object.defineProperty(exports, "b", {}) */\n` +
+      `const help = "module.exports = { c }";\nexports.d = 4;\n`;
+    assertEquals(getCommonJsExports("file:///mod.cjs", code), ["d"]);
+  });
+
+  it("should never include default", () => {
+    assertEquals(getCommonJsExports("file:///mod.cjs", `exports.default = 1;\nexports.a = 2;\n`), ["a"]);
+  });
+
+  it("should follow re-exported modules", async () => {
+    const tempDir = await Deno.makeTempDir();
+
+    try {
+      await Deno.writeTextFile(join(tempDir, "impl.js"), `exports.a = 1;\nexports.b = 2;\n`);
+      await Deno.writeTextFile(join(tempDir, "index.js"), `module.exports = require("./impl.js");\n`);
+
+      const url = toFileUrl(join(tempDir, "index.js")).href;
+      assertEquals(getCommonJsExports(url, await Deno.readTextFile(join(tempDir, "index.js"))), ["a", "b"]);
+    } finally {
+      await Deno.remove(tempDir, { recursive: true });
+    }
+  });
+});
+
+describe("createCommonJsModule", () => {
+  it("should create an ES module exporting module.exports & its properties", async () => {
+    const tempDir = await Deno.makeTempDir();
+
+    try {
+      const cjsPath = join(tempDir, "math.cjs");
+      const code = `exports.add = (a, b) => a + b;\nexports["kebab-case"] = true;\n`;
+      await Deno.writeTextFile(cjsPath, code);
+      const esmPath = join(tempDir, "math.mjs");
+      await Deno.writeTextFile(esmPath, createCommonJsModule(toFileUrl(cjsPath).href, code));
+
+      const module = await import(toFileUrl(esmPath).href);
+      assertEquals(module.add(1, 2), 3);
+      assertEquals(module["kebab-case"], true);
+      assertEquals(module.default.add, module.add);
+    } finally {
+      await Deno.remove(tempDir, { recursive: true });
+    }
+  });
+});
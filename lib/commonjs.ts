@@ -0,0 +1,195 @@
+import { createRequire } from "node:module";
+import { fromFileUrl } from "@std/path/from-file-url";
+import { toFileUrl } from "@std/path/to-file-url";
+import ts from "typescript";
+import { parseModule } from "./parse_module.ts";
+
+/** Helpers of TypeScript & Babel re-exporting every export of a module, eg: `__exportStar(require("./foo"), exports)` */
+const REEXPORT_HELPERS = new Set(["__exportStar", "__export"]);
+
+/**
+ * Creates an ES module that loads a CommonJS module through `require()`.
+ *
+ * The `module.exports` of the CommonJS module becomes the default export. Its named exports are
+ * detected by statically analysing the code (following re-exports of other modules), the same way
+ * Node.js & Deno do, so `import { foo } from "./mod.cjs"` works too. The CommonJS module, and
+ * everything it requires, is loaded from its original location by Deno's own `require()`.
+ *
+ * @param url - The URL of the CommonJS module, must be a `file:` URL
+ * @param code - The code of the CommonJS module
+ * @returns The code of the ES module
+ *
+ * @example
+ * ```typescript
+ * createCommonJsModule("file:///project/node_modules/add/index.js", `exports.add = (a, b) => a + b;`);
+ * // import { createRequire } from "node:module";
+ * // const require = createRequire("file:///project/node_modules/add/index.js");
+ * // const mod = require("/project/node_modules/add/index.js");
+ * // export default mod;
+ * // const _0 = mod["add"];
+ * // export { _0 as "add" };
+ * ```
+ */
+export function createCommonJsModule(url: string, code: string): string {
+  const lines = [
+    `import { createRequire } from "node:module";`,
+    `const require = createRequire(${JSON.stringify(url)});`,
+    `const mod = require(${JSON.stringify(fromFileUrl(url))});`,
+    `export default mod;`,
+  ];
+  getCommonJsExports(url, code).forEach((name, index) => {
+    lines.push(`const _${index} = mod[${JSON.stringify(name)}];`, `export { _${index} as ${JSON.stringify(name)} };`);
+  });
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Detects the names a CommonJS module exports, excluding "default".
+ *
+ * @param url - The URL of the CommonJS module, re-exported modules are resolved relative to it
+ * @param code - The code of the CommonJS module
+ * @returns The exported names, in the order they are first found
+ */
+export function getCommonJsExports(url: string, code: string): string[] {
+  const names = new Set<string>();
+  collectExports(url, code, names, new Set([url]));
+  names.delete("default");
+  return [...names];
+}
+
+/**
+ * Adds the names a module exports to `names`, following re-exports of modules not yet `visited`.
+ */
+function collectExports(url: string, code: string, names: Set<string>, visited: Set<string>): void {
+  const reexports: string[] = [];
+  const addObjectLiteral = (object: ts.ObjectLiteralExpression) => {
+    for (const property of object.properties) {
+      if (ts.isShorthandPropertyAssignment(property)) {
+        names.add(property.name.text);
+      } else if (ts.isPropertyAssignment(property)) {
+        // Computed keys are only known when the module runs
+        const name = getStaticName(property.name);
+        if (name !== undefined) {
+          names.add(name);
+        }
+      } else if (ts.isSpreadAssignment(property)) {
+        addReexport(property.expression);
+      }
+    }
+  };
+  const addReexport = (node: ts.Expression | undefined) => {
+    const specifier = node && getRequiredSpecifier(node);
+    if (specifier !== undefined) {
+      reexports.push(specifier);
+    }
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+      const { left, right } = node;
+      if (isModuleExports(left)) {
+        // `module.exports = { foo, bar: baz }` or `module.exports = require("./foo")`
+        if (ts.isObjectLiteralExpression(right)) {
+          addObjectLiteral(right);
+        } else {
+          addReexport(right);
+        }
+      } else if (
+        (ts.isPropertyAccessExpression(left) || ts.isElementAccessExpression(left)) && isExports(left.expression)
+      ) {
+        // `exports.foo =` or `module.exports["foo"] =`
+        const name = getStaticName(ts.isPropertyAccessExpression(left) ? left.name : left.argumentExpression);
+        if (name !== undefined) {
+          names.add(name);
+        }
+      }
+    } else if (ts.isCallExpression(node)) {
+      const callee = getCalleeName(node.expression);
+      const [target, key] = node.arguments;
+      if (callee === "Object.defineProperty" && target && isExports(target)) {
+        // `Object.defineProperty(exports, "foo", ...)`
+        const name = key && getStaticName(key);
+        if (name !== undefined) {
+          names.add(name);
+        }
+      } else if (callee === "Object.assign" && target && isExports(target)) {
+        // `Object.assign(module.exports, require("./foo"), { bar })`
+        for (const source of node.arguments.slice(1)) {
+          if (ts.isObjectLiteralExpression(source)) {
+            addObjectLiteral(source);
+          } else {
+            addReexport(source);
+          }
+        }
+      } else if (callee !== undefined && REEXPORT_HELPERS.has(callee.split(".").at(-1)!)) {
+        // `__exportStar(require("./foo"), exports)` or `tslib.__exportStar(...)`
+        addReexport(target);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(parseModule(code, url));
+
+  const require = createRequire(url);
+  for (const specifier of reexports) {
+    let path: string;
+    try {
+      path = require.resolve(specifier);
+    } catch {
+      // Unresolvable re-exports only fail once the module is actually required
+      continue;
+    }
+    const reexportUrl = toFileUrl(path).href;
+    if (visited.has(reexportUrl) || !/\.c?js$/.test(path)) {
+      continue;
+    }
+    visited.add(reexportUrl);
+    collectExports(reexportUrl, Deno.readTextFileSync(path), names, visited);
+  }
+}
+
+/**
+ * Checks whether an expression is `module.exports`.
+ */
+function isModuleExports(node: ts.Expression): boolean {
+  return getCalleeName(node) === "module.exports";
+}
+
+/**
+ * Checks whether an expression is the exports object, either `exports` or `module.exports`.
+ */
+function isExports(node: ts.Expression): boolean {
+  return (ts.isIdentifier(node) && node.text === "exports") || isModuleExports(node);
+}
+
+/**
+ * Gets the dotted name of an identifier or a chain of property accesses, eg: `Object.defineProperty`.
+ */
+function getCalleeName(node: ts.Expression): string | undefined {
+  if (ts.isIdentifier(node)) {
+    return node.text;
+  }
+  if (ts.isPropertyAccessExpression(node) && ts.isIdentifier(node.name)) {
+    const object = getCalleeName(node.expression);
+    return object === undefined ? undefined : `${object}.${node.name.text}`;
+  }
+  return undefined;
+}
+
+/**
+ * Gets the name of a property known without running the module: an identifier or a string literal.
+ */
+function getStaticName(node: ts.Node): string | undefined {
+  return ts.isIdentifier(node) || ts.isStringLiteralLike(node) ? node.text : undefined;
+}
+
+/**
+ * Gets the specifier of a `require()` of a string literal.
+ */
+function getRequiredSpecifier(node: ts.Expression): string | undefined {
+  if (!ts.isCallExpression(node) || getCalleeName(node.expression) !== "require") {
+    return undefined;
+  }
+  const [specifier] = node.arguments;
+  return specifier && ts.isStringLiteralLike(specifier) ? specifier.text : undefined;
+}
@@ -0,0 +1,41 @@
+import { assertEquals, assertStrictEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { TsImporterError } from "./errors.ts";
+
+describe("TsImporterError", () => {
+  it("should describe every failure along with its importers", () => {
+    const cause = new Error("No such file or directory (os error 2)");
+    const error = new TsImporterError("file:///src/main.ts", [
+      { url: "file:///src/missing.ts", importers: ["file:///src/lib.ts", "file:///src/main.ts"], cause },
+      { url: "https://example.com/mod.ts", importers: ["file:///src/main.ts"], cause: "Not Found" },
+    ]);
+
+    assertEquals(
+      error.message,
+      [
+        "Failed to import file:///src/main.ts, 2 modules could not be transformed:",
+        "  file:///src/missing.ts: No such file or directory (os error 2)",
+        "    imported by file:///src/lib.ts",
+        "    imported by file:///src/main.ts",
+        "  https://example.com/mod.ts: Not Found",
+        "    imported by file:///src/main.ts",
+      ].join("\n"),
+    );
+    assertEquals(error.name, "TsImporterError");
+    assertEquals(error.url, "file:///src/main.ts");
+    assertEquals(error.failures.length, 2);
+    assertStrictEquals(error.cause, cause);
+  });
+
+  it("should use the singular for a single failure", () => {
+    const error = new TsImporterError("file:///src/main.ts", [
+      { url: "file:///src/main.ts", importers: [], cause: new SyntaxError("Unexpected token") },
+    ]);
+
+    assertEquals(
+      error.message,
+      "Failed to import file:///src/main.ts, 1 module could not be transformed:\n" +
+        "  file:///src/main.ts: Unexpected token",
+    );
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * A module that could not be transformed, along with how it was reached.
+ */
+export type TsImporterFailure = {
+  /** The URL of the module that failed to transform */
+  url: string;
+  /** The modules that led to the failing one, from its direct importer up to the imported module */
+  importers: readonly string[];
+  /** The underlying error */
+  cause: unknown;
+};
+
+/**
+ * Thrown by TsImporter when modules fail to transform and `failureMode` is "strict".
+ *
+ * Every module that failed while importing the same module is reported together, each
+ * with the chain of importers that led to it & the underlying cause.
+ *
+ * @example
+ * ```typescript ignore
+ * try {
+ *   await new TsImporter({ failureMode: "strict" }).import("./main.ts");
+ * } catch (error) {
+ *   if (error instanceof TsImporterError) {
+ *     for (const failure of error.failures) {
+ *       console.error(failure.url, failure.importers, failure.cause);
+ *     }
+ *   }
+ * }
+ * ```
+ */
+export class TsImporterError extends Error {
+  override name = "TsImporterError";
+
+  /** The URL of the module being imported */
+  readonly url: string;
+
+  /** Every module that failed to transform, the first one is also the `cause` of this error */
+  readonly failures: readonly TsImporterFailure[];
+
+  /**
+   * Creates a new TsImporterError.
+   *
+   * @param url - The URL of the module being imported
+   * @param failures - Every module that failed to transform
+   */
+  constructor(url: string, failures: readonly TsImporterFailure[]) {
+    super(formatMessage(url, failures), { cause: failures[0]?.cause });
+    this.url = url;
+    this.failures = failures;
+  }
+}
+
+/**
+ * Describes every failure along with its chain of importers, for example:
+ *
+ * ```text
+ * Failed to import file:///src/main.ts, 1 module could not be transformed:
+ *   file:///src/missing.ts: No such file or directory (os error 2)
+ *     imported by file:///src/lib.ts
+ *     imported by file:///src/main.ts
+ * ```
+ */
+function formatMessage(url: string, failures: readonly TsImporterFailure[]): string {
+  const lines = [
+    `Failed to import ${url}, ${failures.length} ${
+      failures.length === 1 ? "module" : "modules"
+    } could not be transformed:`,
+  ];
+  for (const failure of failures) {
+    const reason = failure.cause instanceof Error ? failure.cause.message : String(failure.cause);
+    lines.push(`  ${failure.url}: ${reason}`);
+    for (const importer of failure.importers) {
+      lines.push(`    imported by ${importer}`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -1,7 +1,8 @@
 import outdent from "@cspotcode/outdent";
-import { assertEquals } from "@std/assert";
+import { assertEquals, assertThrows } from "@std/assert";
 import { describe, it } from "@std/testing/bdd";
-import { findMissingImports, type Replacement } from "./find_missing_imports.ts";
+import { findMissingImports, type Replacement, toTextEdits } from "./find_missing_imports.ts";
+import { applyEdits } from "./source_map.ts";
 
 describe("findMissingImports", () => {
   it("should find missing type import when deno graph only found one", () => {
@@ -190,10 +191,12 @@ describe("findMissingImports", () => {
     assertEquals(missing.length, 0);
   });
 
-  it("should not handle dynamic imports (they use different regex)", () => {
+  it("should find dynamic imports of string literals only", () => {
     const sourceCode = outdent`
       const mod = await import("module");
       import("module").then(m => console.log(m));
+      await import(\`module\`);
+      await import(specifier);
     `;
 
     const specifierReplacements = new Map([
@@ -208,9 +211,8 @@ describe("findMissingImports", () => {
       existingReplacements,
     );
 
-    // Dynamic imports are not handled by this function
-    // They use a different pattern and are handled by deno graph
-    assertEquals(missing.length, 0);
+    // Dynamic imports of anything else are routed to the import hook of the importer
+    assertEquals(missing.map((r) => [r.startLine, r.startChar, r.endChar]), [[0, 25, 33], [1, 7, 15]]);
   });
 
   it("should not match non-import occurrences", () => {
@@ -283,4 +285,167 @@ describe("findMissingImports", () => {
     assertEquals(missing[1].startChar, 7);
     assertEquals(missing[1].endChar, 15);
   });
+
+  describe("edge cases", () => {
+    // Each case expects the [line, startChar, endChar] of every occurrence of "./polyfill.ts"
+    const testCases: { name: string; code: string; expected: number[][] }[] = [
+      {
+        name: "side-effect imports",
+        code: `import "./polyfill.ts";\nimport './polyfill.ts'`,
+        expected: [[0, 7, 22], [1, 7, 22]],
+      },
+      {
+        name: "namespace re-exports",
+        code: `export * as ns from "./polyfill.ts";\nexport type * as types from "./polyfill.ts";`,
+        expected: [[0, 20, 35], [1, 28, 43]],
+      },
+      {
+        name: "imports with attributes",
+        code: outdent`
+          import data from "./polyfill.ts" with { type: "json" };
+          import "./polyfill.ts" with { type: "json" };
+          export { default } from "./polyfill.ts" with { type: "json" };
+        `,
+        expected: [[0, 17, 32], [1, 7, 22], [2, 24, 39]],
+      },
+      {
+        name: "default & namespace imports",
+        code: `import def, * as ns from "./polyfill.ts";\nimport def2, { a as b } from "./polyfill.ts";`,
+        expected: [[0, 25, 40], [1, 29, 44]],
+      },
+      {
+        name: "import types & require",
+        code: outdent`
+          type Mod = typeof import("./polyfill.ts");
+          import mod = require("./polyfill.ts");
+        `,
+        expected: [[0, 25, 40], [1, 21, 36]],
+      },
+      {
+        name: "several statements on one line",
+        code: `import "./polyfill.ts"; export * from "./polyfill.ts"; await import("./polyfill.ts");`,
+        expected: [[0, 7, 22], [0, 38, 53], [0, 68, 83]],
+      },
+      {
+        name: "comments & whitespace around the specifier",
+        code: outdent`
+          import /* "./other.ts" */ "./polyfill.ts" /* "./polyfill.ts" */;
+          import { a } from
+            // "./polyfill.ts"
+            "./polyfill.ts";
+        `,
+        expected: [[0, 26, 41], [3, 2, 17]],
+      },
+      {
+        name: "specifiers outside of imports",
+        code: outdent`
+          // import "./polyfill.ts";
+          /* export * from "./polyfill.ts"; */
+          const code = 'import "./polyfill.ts"';
+          const template = \`export * from "./polyfill.ts"\`;
+          declare module "./polyfill.ts" {}
+          loader.import("./polyfill.ts");
+        `,
+        expected: [],
+      },
+      {
+        name: "escaped specifiers",
+        code: `import "./poly\\u0066ill.ts";`,
+        expected: [[0, 7, 27]],
+      },
+      {
+        name: "surrogate pairs before the specifier",
+        code: `/* 🦕 */ import "./polyfill.ts";`,
+        // Characters are code points like in the spans of deno graph
+        expected: [[0, 15, 30]],
+      },
+      {
+        name: "CRLF line endings",
+        code: `import { a } from "./other.ts";\r\nimport "./polyfill.ts";\r\n`,
+        expected: [[1, 7, 22]],
+      },
+    ];
+
+    for (const { name, code, expected } of testCases) {
+      it(`should handle ${name}`, () => {
+        const missing = findMissingImports(code, new Map([["./polyfill.ts", "./polyfill.js"]]), []);
+
+        assertEquals(missing.map((r) => [r.startLine, r.startChar, r.endChar]), expected);
+        assertEquals(missing.every((r) => r.newSpecifier === "./polyfill.js"), true);
+      });
+    }
+  });
+
+  it("should parse JSX in .tsx modules", () => {
+    const sourceCode = outdent`
+      import "./polyfill.ts";
+      export const App = () => <div>{"./polyfill.ts"}</div>;
+    `;
+
+    const missing = findMissingImports(
+      sourceCode,
+      new Map([["./polyfill.ts", "./polyfill.js"]]),
+      [],
+      "file:///app/app.tsx",
+    );
+
+    assertEquals(missing.map((r) => [r.startLine, r.startChar, r.endChar]), [[0, 7, 22]]);
+  });
+});
+
+describe("toTextEdits", () => {
+  const replacement = (startLine: number, startChar: number, endLine: number, endChar: number): Replacement => ({
+    startLine,
+    startChar,
+    endLine,
+    endChar,
+    specifier: "./polyfill.ts",
+    newSpecifier: "./polyfill.js",
+  });
+
+  it("should keep the quotes of each specifier", () => {
+    const sourceCode = `import "./polyfill.ts";\nimport './polyfill.ts';`;
+
+    const edits = toTextEdits(sourceCode, [replacement(0, 7, 0, 22), replacement(1, 7, 1, 22)]);
+
+    assertEquals(applyEdits(sourceCode, edits), `import "./polyfill.js";\nimport './polyfill.js';`);
+  });
+
+  it("should escape the quotes of the new specifier", () => {
+    const sourceCode = `import './polyfill.ts';`;
+
+    const edits = toTextEdits(sourceCode, [{ ...replacement(0, 7, 0, 22), newSpecifier: `./it's "quoted".js` }]);
+
+    assertEquals(applyEdits(sourceCode, edits), `import './it\\'s "quoted".js';`);
+  });
+
+  it("should convert positions of lines ending with CRLF & characters in code points", () => {
+    const sourceCode = `// 🦕\r\n/* 🦕🦕 */ import "./polyfill.ts";\r\n`;
+
+    const edits = toTextEdits(sourceCode, [replacement(1, 16, 1, 31)]);
+
+    assertEquals(edits, [{ start: 25, end: 40, text: `"./polyfill.js"` }]);
+    assertEquals(applyEdits(sourceCode, edits), `// 🦕\r\n/* 🦕🦕 */ import "./polyfill.js";\r\n`);
+  });
+
+  it("should replace spans ending on another line", () => {
+    const sourceCode = `import "./poly\\\nfill.ts";`;
+
+    const edits = toTextEdits(sourceCode, [replacement(0, 7, 1, 8)]);
+
+    assertEquals(applyEdits(sourceCode, edits), `import "./polyfill.js";`);
+  });
+
+  it("should apply identical replacements once", () => {
+    const sourceCode = `import "./polyfill.ts";`;
+
+    const edits = toTextEdits(sourceCode, [replacement(0, 7, 0, 22), replacement(0, 7, 0, 22)]);
+
+    assertEquals(applyEdits(sourceCode, edits), `import "./polyfill.js";`);
+  });
+
+  it("should reject positions out of the bounds of the source code", () => {
+    assertThrows(() => toTextEdits(`import "./polyfill.ts";`, [replacement(1, 0, 1, 15)]), RangeError);
+    assertThrows(() => toTextEdits(`import "./polyfill.ts";`, [replacement(0, 7, 0, 40)]), RangeError);
+  });
 });
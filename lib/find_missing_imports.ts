@@ -1,3 +1,10 @@
+import ts from "typescript";
+import { parseModule } from "./parse_module.ts";
+import type { TextEdit } from "./source_map.ts";
+
+/** The string literal specifier of an import along with where it starts, leading trivia excluded */
+type ScannedSpecifier = { node: ts.StringLiteral; start: number };
+
 /**
  * Finds import/export occurrences that were missed by deno graph.
  *
@@ -5,38 +12,40 @@
  * one "code" import and one "type" import. This function finds additional occurrences
  * that need to be replaced, particularly:
  * - Multiple type imports of the same module
- * - Export statements (export {...} from, export * from)
- * - Duplicate imports that deno graph consolidated
+ * - Export statements (export {...} from, export * from, export * as ns from)
+ * - Side-effect imports & imports with attributes
+ * - Duplicate imports that deno graph consolidated, static or dynamic
+ *
+ * The module is parsed rather than searched, so specifiers in comments, strings & template
+ * literals are never matched & every location is exact however the statement is formatted.
  *
  * @param sourceCode - The source code to search
  * @param specifierReplacements - Map of original specifiers to their replacements
  * @param existingReplacements - Replacements already found by deno graph
+ * @param url - The URL of the module, its extension tells whether the code may contain JSX
  * @returns Additional replacements that need to be made
  */
 export function findMissingImports(
   sourceCode: string,
   specifierReplacements: Map<string, string>,
   existingReplacements: Replacement[],
+  url = "file:///module.ts",
 ): Replacement[] {
   if (specifierReplacements.size === 0) {
     return [];
   }
 
   // Pre-process existing replacements into a Set for O(1) lookup
-  const existingReplacementKeys = new Set(
-    existingReplacements.map((r) => `${r.startLine}:${r.startChar}:${r.endChar}`),
-  );
+  const existingReplacementKeys = new Set(existingReplacements.map(getReplacementKey));
 
   // Pre-calculate line offsets for efficient position conversion
   const lineOffsets = getLineOffsets(sourceCode);
 
   const additionalReplacements: Replacement[] = [];
-  const importExportRegex = createImportExportRegex();
-
-  let match;
-  while ((match = importExportRegex.exec(sourceCode)) !== null) {
-    const replacement = processMatch(
-      match,
+  for (const scanned of scanImportSpecifiers(sourceCode, url)) {
+    const replacement = processSpecifier(
+      scanned,
+      sourceCode,
       specifierReplacements,
       lineOffsets,
       existingReplacementKeys,
@@ -51,75 +60,113 @@ export function findMissingImports(
 }
 
 /**
- * Creates the regex for matching import/export statements.
+ * Scans a module for the string literal specifier of every import & re-export, in source order.
+ *
+ * Covers import & export declarations, `import x = require("...")`, `import("...")` types and
+ * dynamic imports of a string literal. Dynamic imports of anything else are left to the import hook.
  */
-function createImportExportRegex(): RegExp {
-  return /(?:import|export)\s+(?:type\s+)?(?:\{[^}]*\}|\*|[\w$]+)(?:\s*,\s*(?:\{[^}]*\}|\*|[\w$]+))*\s+from\s+(['"])([^'"]+)\1/gs;
+function scanImportSpecifiers(sourceCode: string, url: string): ScannedSpecifier[] {
+  const sourceFile = parseModule(sourceCode, url);
+  const specifiers: ScannedSpecifier[] = [];
+  const add = (node: ts.Node | undefined) => {
+    if (node && ts.isStringLiteral(node)) {
+      specifiers.push({ node, start: node.getStart(sourceFile) });
+    }
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) {
+      add(node.moduleSpecifier);
+    } else if (ts.isExternalModuleReference(node)) {
+      add(node.expression);
+    } else if (ts.isImportTypeNode(node) && ts.isLiteralTypeNode(node.argument)) {
+      add(node.argument.literal);
+    } else if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+      add(node.arguments[0]);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return specifiers;
 }
 
 /**
- * Pre-calculates line offsets for efficient absolute-to-line/char conversion.
+ * Converts replacements to edits of the source code, keeping the quotes each specifier was written with.
+ *
+ * Replacements are positioned by line & character like the spans of deno graph, characters being
+ * code points so lines with emoji or other astral characters before a specifier aren't shifted.
+ * Lines end at `\n`, a `\r` before it belonging to the line it ends.
+ *
+ * @param sourceCode - The source code the replacements were found in
+ * @param replacements - The replacements, in any order, identical ones being applied once
+ * @returns The edits of the source code, by offset
+ * @throws {RangeError} When a replacement is out of the bounds of the source code
  */
-function getLineOffsets(sourceCode: string): number[] {
-  const offsets = [0];
-  let currentOffset = 0;
+export function toTextEdits(sourceCode: string, replacements: readonly Replacement[]): TextEdit[] {
+  const lineOffsets = getLineOffsets(sourceCode);
+  const edits = new Map<string, TextEdit>();
 
-  for (let i = 0; i < sourceCode.length; i++) {
-    if (sourceCode[i] === "\n") {
-      currentOffset = i + 1;
-      offsets.push(currentOffset);
-    }
+  for (const replacement of replacements) {
+    const start = positionToOffset(sourceCode, lineOffsets, replacement.startLine, replacement.startChar);
+    const end = positionToOffset(sourceCode, lineOffsets, replacement.endLine, replacement.endChar);
+    const quote = sourceCode[start] === "'" ? "'" : '"';
+    edits.set(`${start}:${end}`, { start, end, text: quoteSpecifier(replacement.newSpecifier, quote) });
+  }
+
+  return [...edits.values()];
+}
+
+/**
+ * Writes a specifier as a string literal between the given quotes.
+ */
+function quoteSpecifier(specifier: string, quote: "'" | '"'): string {
+  const doubleQuoted = JSON.stringify(specifier);
+  if (quote === '"') {
+    return doubleQuoted;
   }
+  return `'${doubleQuoted.slice(1, -1).replaceAll('\\"', '"').replaceAll("'", "\\'")}'`;
+}
 
+/**
+ * Pre-calculates line offsets for efficient offset to line/char conversion.
+ */
+function getLineOffsets(sourceCode: string): number[] {
+  const offsets = [0];
+  for (let index = sourceCode.indexOf("\n"); index !== -1; index = sourceCode.indexOf("\n", index + 1)) {
+    offsets.push(index + 1);
+  }
   return offsets;
 }
 
 /**
- * Processes a regex match and returns a replacement if needed.
+ * Processes a scanned specifier and returns a replacement if needed.
  */
-function processMatch(
-  match: RegExpExecArray,
+function processSpecifier(
+  { node, start }: ScannedSpecifier,
+  sourceCode: string,
   specifierReplacements: Map<string, string>,
   lineOffsets: number[],
   existingReplacementKeys: Set<string>,
 ): Replacement | null {
-  const fullMatch = match[0];
-  const quote = match[1];
-  const specifier = match[2];
+  const specifier = node.text;
 
   const newSpec = specifierReplacements.get(specifier);
   if (!newSpec) {
     return null;
   }
 
-  // Find the position of the quoted specifier
-  const quotedSpecifier = quote + specifier + quote;
-  const specifierIndex = fullMatch.lastIndexOf(quotedSpecifier);
-  if (specifierIndex === -1) {
-    return null;
-  }
-
-  const absoluteStart = match.index + specifierIndex;
-  const absoluteEnd = absoluteStart + quotedSpecifier.length;
-
-  // Convert to line/char using pre-calculated offsets
-  const position = absoluteToLineChar(absoluteStart, absoluteEnd, lineOffsets);
-
-  if (!position) {
-    return null;
-  }
-
-  const { startLine, startChar, endChar } = position;
-  const key = `${startLine}:${startChar}:${endChar}`;
-
-  if (existingReplacementKeys.has(key)) {
+  // The span covers the quotes like the spans of deno graph
+  const [startLine, startChar] = offsetToPosition(sourceCode, lineOffsets, start);
+  const [endLine, endChar] = offsetToPosition(sourceCode, lineOffsets, node.getEnd());
+  if (existingReplacementKeys.has(getReplacementKey({ startLine, startChar, endLine, endChar }))) {
     return null;
   }
 
   return {
     startLine,
     startChar,
-    endLine: startLine,
+    endLine,
     endChar,
     specifier,
     newSpecifier: newSpec,
@@ -127,31 +174,50 @@ function processMatch(
 }
 
 /**
- * Converts absolute positions to line/char positions using pre-calculated offsets.
+ * Identifies the span of a replacement.
  */
-function absoluteToLineChar(
-  absoluteStart: number,
-  absoluteEnd: number,
-  lineOffsets: number[],
-): { startLine: number; startChar: number; endChar: number } | null {
-  // Binary search for the line containing absoluteStart
+function getReplacementKey(
+  { startLine, startChar, endLine, endChar }: Pick<Replacement, "startLine" | "startChar" | "endLine" | "endChar">,
+): string {
+  return `${startLine}:${startChar}:${endLine}:${endChar}`;
+}
+
+/**
+ * Converts an offset to its zero based line & character, in code points, using pre-calculated line offsets.
+ */
+function offsetToPosition(sourceCode: string, lineOffsets: number[], offset: number): [number, number] {
+  // Binary search for the line containing the offset
   let left = 0;
   let right = lineOffsets.length - 1;
 
   while (left < right) {
     const mid = Math.floor((left + right + 1) / 2);
-    if (lineOffsets[mid] <= absoluteStart) {
+    if (lineOffsets[mid] <= offset) {
       left = mid;
     } else {
       right = mid - 1;
     }
   }
 
-  const startLine = left;
-  const startChar = absoluteStart - lineOffsets[startLine];
-  const endChar = absoluteEnd - lineOffsets[startLine];
+  let character = 0;
+  for (let index = lineOffsets[left]; index < offset; index += sourceCode.codePointAt(index)! > 0xffff ? 2 : 1) {
+    character++;
+  }
+  return [left, character];
+}
 
-  return { startLine, startChar, endChar };
+/**
+ * Converts a zero based line & character, in code points, to an offset using pre-calculated line offsets.
+ */
+function positionToOffset(sourceCode: string, lineOffsets: number[], line: number, character: number): number {
+  let offset: number | undefined = lineOffsets[line];
+  for (let count = 0; offset !== undefined && count < character; count++) {
+    offset = offset < sourceCode.length ? offset + (sourceCode.codePointAt(offset)! > 0xffff ? 2 : 1) : undefined;
+  }
+  if (offset === undefined || character < 0) {
+    throw new RangeError(`Position ${line}:${character} is out of the bounds of the source code`);
+  }
+  return offset;
 }
 
 /**
@@ -160,11 +226,11 @@ function absoluteToLineChar(
 export type Replacement = {
   /** Zero-based line number where the import specifier starts */
   startLine: number;
-  /** Zero-based character position where the import specifier starts */
+  /** Zero-based character position where the import specifier starts, in code points */
   startChar: number;
   /** Zero-based line number where the import specifier ends */
   endLine: number;
-  /** Zero-based character position where the import specifier ends */
+  /** Zero-based character position where the import specifier ends, in code points */
   endChar: number;
   /** The original import specifier to be replaced */
   specifier: string;
@@ -0,0 +1,105 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import type { ImportMap } from "./import_map.ts";
+import { normalizeImportMap, resolveImportMapSpecifier, resolveModuleSpecifier } from "./import_map_resolver.ts";
+
+/**
+ * A test case in the format of the data driven import map tests of the web-platform-tests,
+ * see https://github.com/web-platform-tests/wpt/tree/master/import-maps/data-driven
+ *
+ * Nested tests inherit every property they don't override from their parents.
+ */
+type WptTest = {
+  name?: string;
+  importMap?: Partial<ImportMap>;
+  importMapBaseURL?: string;
+  baseURL?: string;
+  expectedResults?: Record<string, string | null>;
+  tests?: Record<string, WptTest>;
+};
+
+/**
+ * Registers the expected results of a test, and of its nested tests.
+ */
+function describeWptTest(name: string, test: WptTest, inherited: WptTest = {}) {
+  const merged = { ...inherited, ...test };
+  describe(name, () => {
+    const { importMap, importMapBaseURL, baseURL, expectedResults } = merged;
+    if (expectedResults && importMap && importMapBaseURL && baseURL) {
+      it("should resolve every specifier to the expected result", () => {
+        const normalized = normalizeImportMap({ imports: {}, ...importMap }, importMapBaseURL);
+        for (const [specifier, expected] of Object.entries(expectedResults)) {
+          let actual: string | null;
+          try {
+            actual = resolveModuleSpecifier(normalized, specifier, baseURL).href;
+          } catch {
+            actual = null;
+          }
+          assertEquals(actual, expected, `Resolving "${specifier}"`);
+        }
+      });
+    }
+    for (const [nestedName, nested] of Object.entries(test.tests ?? {})) {
+      describeWptTest(nestedName, nested, { ...merged, tests: undefined });
+    }
+  });
+}
+
+describe("web-platform-tests import map conformance", () => {
+  const dir = new URL("./testdata/wpt_import_maps/", import.meta.url);
+  for (const entry of [...Deno.readDirSync(dir)].sort((a, b) => a.name.localeCompare(b.name))) {
+    describeWptTest(entry.name, JSON.parse(Deno.readTextFileSync(new URL(entry.name, dir))));
+  }
+});
+
+describe("resolveImportMapSpecifier", () => {
+  const importMap = normalizeImportMap({
+    imports: {
+      "@std/path": "jsr:@std/path@^1.0.0",
+      "preact": "npm:preact@^10.26.0",
+      "@utils/": "./src/utils/",
+    },
+    scopes: {
+      "./vendor/": { "@utils/": "./vendor/utils/" },
+    },
+  }, "file:///project/deno.json");
+
+  it("should map the subpaths of jsr: & npm: packages like Deno", () => {
+    assertEquals(
+      resolveImportMapSpecifier(importMap, "@std/path", "file:///project/main.ts")?.href,
+      "jsr:@std/path@^1.0.0",
+    );
+    assertEquals(
+      resolveImportMapSpecifier(importMap, "@std/path/join", "file:///project/main.ts")?.href,
+      "jsr:/@std/path@^1.0.0/join",
+    );
+    assertEquals(
+      resolveImportMapSpecifier(importMap, "preact/hooks", "file:///project/main.ts")?.href,
+      "npm:/preact@^10.26.0/hooks",
+    );
+  });
+
+  it("should apply keys ending with a slash", () => {
+    assertEquals(
+      resolveImportMapSpecifier(importMap, "@utils/strings.ts", "file:///project/main.ts")?.href,
+      "file:///project/src/utils/strings.ts",
+    );
+    assertEquals(
+      resolveImportMapSpecifier(importMap, "@utils/strings.ts", "file:///project/vendor/mod.ts")?.href,
+      "file:///project/vendor/utils/strings.ts",
+    );
+  });
+
+  it("should be undefined for specifiers the import map doesn't map", () => {
+    assertEquals(resolveImportMapSpecifier(importMap, "./mod.ts", "file:///project/main.ts"), undefined);
+    assertEquals(resolveImportMapSpecifier(importMap, "lodash", "file:///project/main.ts"), undefined);
+  });
+
+  it("should throw for specifiers backtracking above their key", () => {
+    assertThrows(
+      () => resolveImportMapSpecifier(importMap, "@utils/../secrets.ts", "file:///project/main.ts"),
+      TypeError,
+      "backtracks",
+    );
+  });
+});
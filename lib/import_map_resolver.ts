@@ -0,0 +1,219 @@
+import type { ImportMap } from "./import_map.ts";
+
+/**
+ * The entries of an import map's `imports`, or of one of its scopes, once normalized.
+ *
+ * Keys are sorted so that longer keys come before the keys they start with, a `null`
+ * address marks an entry that was invalid and blocks the specifiers it matches.
+ */
+export type NormalizedSpecifierMap = ReadonlyArray<readonly [key: string, address: URL | null]>;
+
+/**
+ * An import map with every key & address resolved against its base URL, ready for resolution.
+ */
+export type NormalizedImportMap = {
+  /** The normalized top level imports */
+  readonly imports: NormalizedSpecifierMap;
+  /** The normalized scopes, most specific scope prefix first */
+  readonly scopes: ReadonlyArray<readonly [prefix: string, imports: NormalizedSpecifierMap]>;
+};
+
+/** The schemes of URLs that can be remapped by prefix, see https://url.spec.whatwg.org/#special-scheme */
+const SPECIAL_SCHEMES = new Set(["ftp:", "file:", "http:", "https:", "ws:", "wss:"]);
+
+/**
+ * Normalizes an import map the way browsers do when they parse one.
+ *
+ * URL-like keys & every address are resolved against the base URL, keys are sorted by
+ * specificity & scopes too. An entry whose address isn't a valid URL, or whose key ends
+ * with a slash while its address doesn't, is kept with a `null` address so it blocks
+ * the specifiers it would have mapped.
+ *
+ * Like Deno, a key that maps to a `jsr:` or `npm:` package without a trailing slash
+ * also maps the subpaths of the package, eg: `"@std/path": "jsr:@std/path@^1"` maps
+ * `@std/path/join` to `jsr:/@std/path@^1/join`.
+ *
+ * @param importMap - The import map
+ * @param baseUrl - The URL relative keys & addresses are resolved against, usually the URL of the import map
+ * @returns The normalized import map
+ *
+ * @see https://html.spec.whatwg.org/multipage/webappapis.html#parse-an-import-map-string
+ */
+export function normalizeImportMap(importMap: ImportMap, baseUrl: string | URL): NormalizedImportMap {
+  const scopes: Array<[string, NormalizedSpecifierMap]> = [];
+  for (const [prefix, imports] of Object.entries(importMap.scopes ?? {})) {
+    const prefixUrl = URL.parse(prefix, baseUrl);
+    if (prefixUrl) {
+      scopes.push([prefixUrl.href, normalizeSpecifierMap(imports, baseUrl)]);
+    }
+  }
+
+  return {
+    imports: normalizeSpecifierMap(importMap.imports, baseUrl),
+    scopes: scopes.sort(([a], [b]) => compareDescending(a, b)),
+  };
+}
+
+/**
+ * Resolves a specifier through an import map.
+ *
+ * The scopes matching the referrer are tried from the most to the least specific, then
+ * the top level imports. Within each, an exact match wins over the longest matching key
+ * ending with a slash, whose address the rest of the specifier is resolved against.
+ *
+ * @param importMap - The normalized import map
+ * @param specifier - The specifier, as written in the importing module
+ * @param referrer - The URL of the importing module
+ * @returns The URL the specifier is mapped to, or undefined when the import map doesn't map it
+ * @throws {TypeError} When the specifier is blocked by an invalid entry, or backtracks above the address of its key
+ *
+ * @see https://html.spec.whatwg.org/multipage/webappapis.html#resolve-a-module-specifier
+ *
+ * @example
+ * ```typescript
+ * const importMap = normalizeImportMap({ imports: { "@utils/": "./src/utils/" } }, "file:///project/");
+ * resolveImportMapSpecifier(importMap, "@utils/strings.ts", "file:///project/main.ts");
+ * // file:///project/src/utils/strings.ts
+ * ```
+ */
+export function resolveImportMapSpecifier(
+  importMap: NormalizedImportMap,
+  specifier: string,
+  referrer: string | URL,
+): URL | undefined {
+  const referrerHref = typeof referrer === "string" ? referrer : referrer.href;
+  const asUrl = parseUrlLikeSpecifier(specifier, referrerHref);
+  const normalizedSpecifier = asUrl?.href ?? specifier;
+
+  for (const [prefix, imports] of importMap.scopes) {
+    if (prefix === referrerHref || (prefix.endsWith("/") && referrerHref.startsWith(prefix))) {
+      const resolved = resolveImportsMatch(normalizedSpecifier, asUrl, imports);
+      if (resolved) {
+        return resolved;
+      }
+    }
+  }
+
+  return resolveImportsMatch(normalizedSpecifier, asUrl, importMap.imports);
+}
+
+/**
+ * Resolves a module specifier the way a browser does, through the import map if it maps the specifier.
+ *
+ * @param importMap - The normalized import map
+ * @param specifier - The specifier, as written in the importing module
+ * @param referrer - The URL of the importing module
+ * @returns The resolved URL
+ * @throws {TypeError} When the specifier is blocked, backtracks, or is a bare specifier the import map doesn't map
+ */
+export function resolveModuleSpecifier(
+  importMap: NormalizedImportMap,
+  specifier: string,
+  referrer: string | URL,
+): URL {
+  const resolved = resolveImportMapSpecifier(importMap, specifier, referrer) ??
+    parseUrlLikeSpecifier(specifier, referrer);
+  if (!resolved) {
+    throw new TypeError(`Relative import path "${specifier}" not prefixed with / or ./ or ../ and not in import map`);
+  }
+  return resolved;
+}
+
+/**
+ * Sorts & normalizes the keys and addresses of a specifier map.
+ */
+function normalizeSpecifierMap(
+  imports: Readonly<Record<string, string>>,
+  baseUrl: string | URL,
+): NormalizedSpecifierMap {
+  const normalized = new Map<string, URL | null>();
+  for (const [key, value] of Object.entries(imports)) {
+    // Empty keys are ignored, they could never match anything
+    if (key === "") {
+      continue;
+    }
+    const normalizedKey = parseUrlLikeSpecifier(key, baseUrl)?.href ?? key;
+
+    let address = typeof value === "string" ? parseUrlLikeSpecifier(value, baseUrl) ?? null : null;
+    if (address && normalizedKey.endsWith("/") && !address.href.endsWith("/")) {
+      address = null;
+    }
+    normalized.set(normalizedKey, address);
+  }
+
+  // Packages mapped without a trailing slash still expose their subpaths, the same as in Deno
+  for (const [key, address] of [...normalized]) {
+    const packageSubpaths = key.endsWith("/") ? undefined : toPackageSubpathAddress(address);
+    if (packageSubpaths && !normalized.has(`${key}/`)) {
+      normalized.set(`${key}/`, packageSubpaths);
+    }
+  }
+
+  return [...normalized].sort(([a], [b]) => compareDescending(a, b));
+}
+
+/**
+ * Gets the address a package's subpaths resolve against, eg: `jsr:/@std/path@^1/` for `jsr:@std/path@^1`.
+ */
+function toPackageSubpathAddress(address: URL | null): URL | undefined {
+  if (!address || (address.protocol !== "jsr:" && address.protocol !== "npm:")) {
+    return undefined;
+  }
+  return new URL(`${address.protocol}/${address.pathname.replace(/^\/|\/$/g, "")}/`);
+}
+
+/**
+ * Finds the entry matching the specifier & resolves it.
+ */
+function resolveImportsMatch(
+  normalizedSpecifier: string,
+  asUrl: URL | undefined,
+  imports: NormalizedSpecifierMap,
+): URL | undefined {
+  for (const [key, address] of imports) {
+    if (key === normalizedSpecifier) {
+      if (!address) {
+        throw new TypeError(`Resolution of "${normalizedSpecifier}" was blocked by a null entry`);
+      }
+      return address;
+    }
+
+    const prefixMatch = key.endsWith("/") && normalizedSpecifier.startsWith(key) &&
+      (!asUrl || SPECIAL_SCHEMES.has(asUrl.protocol));
+    if (prefixMatch) {
+      if (!address) {
+        throw new TypeError(`Resolution of "${normalizedSpecifier}" was blocked by a null entry`);
+      }
+      const url = URL.parse(normalizedSpecifier.slice(key.length), address);
+      if (!url) {
+        throw new TypeError(`Resolution of "${normalizedSpecifier}" was blocked, "${key}" doesn't resolve to a URL`);
+      }
+      if (!url.href.startsWith(address.href)) {
+        throw new TypeError(`Resolution of "${normalizedSpecifier}" was blocked, it backtracks above "${key}"`);
+      }
+      return url;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parses an absolute URL, or a specifier starting with `/`, `./` or `../` relative to the base URL.
+ *
+ * @param specifier - The specifier
+ * @param baseUrl - The URL relative specifiers are resolved against
+ * @returns The URL, or undefined when the specifier is bare or not a valid URL
+ */
+export function parseUrlLikeSpecifier(specifier: string, baseUrl: string | URL): URL | undefined {
+  if (specifier.startsWith("/") || specifier.startsWith("./") || specifier.startsWith("../")) {
+    return URL.parse(specifier, baseUrl) ?? undefined;
+  }
+  return URL.parse(specifier) ?? undefined;
+}
+
+/**
+ * Orders strings by descending code units, so keys come before the shorter keys they start with.
+ */
+function compareDescending(a: string, b: string): number {
+  return a < b ? 1 : a > b ? -1 : 0;
+}
@@ -0,0 +1,23 @@
+import ts from "typescript";
+
+/**
+ * Parses JSON allowing comments & trailing commas, the way Deno reads deno.jsonc & deno.json files.
+ *
+ * @param text - The JSONC text
+ * @param path - The path the text was read from, used in the error message
+ * @returns The parsed value
+ * @throws {SyntaxError} When the text isn't valid JSONC
+ *
+ * @example
+ * ```typescript
+ * parseJsonc(`{ "imports": { "@std/path": "jsr:@std/path@^1" }, /* pinned *\/ }`, "deno.jsonc");
+ * // { imports: { "@std/path": "jsr:@std/path@^1" } }
+ * ```
+ */
+export function parseJsonc(text: string, path: string): unknown {
+  const { config, error } = ts.parseConfigFileTextToJson(path, text);
+  if (error) {
+    throw new SyntaxError(`Failed to parse ${path}: ${ts.flattenDiagnosticMessageText(error.messageText, "\n")}`);
+  }
+  return config;
+}
@@ -0,0 +1,93 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import ts from "typescript";
+import { createJsxPrecompileTransformer, type JsxPrecompileOptions } from "./jsx_precompile.ts";
+
+function precompile(code: string, options: JsxPrecompileOptions = { importSource: "preact" }): string {
+  return ts.transpileModule(code, {
+    fileName: "module.tsx",
+    compilerOptions: {
+      jsx: ts.JsxEmit.ReactJSX,
+      jsxImportSource: options.importSource,
+      target: ts.ScriptTarget.ESNext,
+      module: ts.ModuleKind.ESNext,
+    },
+    transformers: { before: [createJsxPrecompileTransformer(options)] },
+  }).outputText;
+}
+
+describe("createJsxPrecompileTransformer", () => {
+  it("should serialize static elements to a template", () => {
+    const result = precompile(`export const a = <div class="box"><p>Hello</p><br /></div>;`);
+
+    assertStringIncludes(result, `import { jsxTemplate as _jsxTemplate } from "preact/jsx-runtime";`);
+    assertStringIncludes(result, `const $$_tpl_1 = ["<div class=\\"box\\"><p>Hello</p><br></div>"];`);
+    assertStringIncludes(result, `export const a = _jsxTemplate($$_tpl_1);`);
+  });
+
+  it("should escape dynamic children & serialize dynamic attributes with jsxAttr", () => {
+    const result = precompile(`export const a = (name: string) => <a href={name} className="link">Hi {name}!</a>;`);
+
+    assertStringIncludes(result, `const $$_tpl_1 = ["<a ", " class=\\"link\\">Hi ", "!</a>"];`);
+    assertStringIncludes(result, `_jsxTemplate($$_tpl_1, _jsxAttr("href", name), _jsxEscape(name))`);
+  });
+
+  it("should escape the ampersands & quotes of static attributes", () => {
+    const result = precompile(`export const a = <a href="?a=1&b=2" title='&amp; "quoted"'>Hi</a>;`);
+
+    assertStringIncludes(
+      result,
+      `const $$_tpl_1 = ["<a href=\\"?a=1&amp;b=2\\" title=\\"&amp; &quot;quoted&quot;\\">Hi</a>"];`,
+    );
+  });
+
+  it("should not decode entities in the strings of attribute expressions", () => {
+    const result = precompile(`export const a = <a title={"&amp;"}>Hi</a>;`);
+
+    assertStringIncludes(result, `const $$_tpl_1 = ["<a title=\\"&amp;amp;\\">Hi</a>"];`);
+  });
+
+  it("should leave components to the jsx runtime", () => {
+    const result = precompile(
+      `import { Card } from "./card.tsx";\nexport const a = <main><Card title="x"><b>1</b></Card></main>;`,
+    );
+
+    assertStringIncludes(result, `import { jsx as _jsx } from "preact/jsx-runtime";`);
+    assertStringIncludes(result, `const $$_tpl_1 = ["<b>1</b>"];`);
+    assertStringIncludes(result, `const $$_tpl_2 = ["<main>", "</main>"];`);
+    assertStringIncludes(
+      result,
+      `_jsxTemplate($$_tpl_2, _jsx(Card, { title: "x", children: _jsxTemplate($$_tpl_1) }))`,
+    );
+  });
+
+  it("should leave elements with spread or runtime attributes to the jsx runtime", () => {
+    const result = precompile(`export const a = (props: object) => <ul><li key="1" /><li {...props} /></ul>;`);
+
+    assertStringIncludes(result, `_jsx("li", {}, "1")`);
+    assertStringIncludes(result, `_jsx("li", { ...props })`);
+    assertStringIncludes(result, `const $$_tpl_1 = ["<ul>", "", "</ul>"];`);
+  });
+
+  it("should leave the skipped elements to the jsx runtime", () => {
+    const result = precompile(`export const a = <img src="a.png" />;`, {
+      importSource: "preact",
+      skipElements: ["img"],
+    });
+
+    assertEquals(result.includes("$$_tpl_"), false);
+    assertStringIncludes(result, `_jsx("img", { src: "a.png" })`);
+  });
+
+  it("should apply the JSX whitespace rules & escape text", () => {
+    const result = precompile(`export const a = (\n  <p>\n    Fish &amp; chips\n    are 1 &lt; 2\n  </p>\n);`);
+
+    assertStringIncludes(result, `const $$_tpl_1 = ["<p>Fish &amp; chips are 1 &lt; 2</p>"];`);
+  });
+
+  it("should not touch modules without JSX", () => {
+    const result = precompile(`export const a = 1;`);
+
+    assertEquals(result.includes("jsx-runtime"), false);
+  });
+});
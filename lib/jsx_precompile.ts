@@ -0,0 +1,280 @@
+import ts from "typescript";
+
+/**
+ * Options for {@linkcode createJsxPrecompileTransformer}.
+ */
+export type JsxPrecompileOptions = {
+  /** The module specifier the `jsx-runtime` is imported from, eg: "preact" */
+  importSource: string;
+  /** Intrinsic elements that are always created through the runtime rather than serialized, eg: ["a", "img"] */
+  skipElements?: readonly string[];
+};
+
+/** Elements that never have children nor a closing tag */
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "param",
+  "source",
+  "track",
+  "wbr",
+]);
+
+/** JSX attribute names that are serialized under their HTML name */
+const HTML_ATTRIBUTE_NAMES = new Map([["className", "class"], ["htmlFor", "for"]]);
+
+/** Attributes that only the runtime knows what to do with, elements using them are never serialized */
+const RUNTIME_ATTRIBUTES = new Set(["key", "ref", "dangerouslySetInnerHTML"]);
+
+/** The HTML entities JSX text commonly contains */
+const HTML_ENTITIES = new Map([
+  ["amp", "&"],
+  ["lt", "<"],
+  ["gt", ">"],
+  ["quot", '"'],
+  ["apos", "'"],
+  ["nbsp", "\u00a0"],
+]);
+
+/** The functions a precompiled module imports from the `jsx-runtime` */
+type RuntimeFunction = "jsxTemplate" | "jsxEscape" | "jsxAttr";
+
+/**
+ * Creates a TypeScript transformer implementing Deno's `"jsx": "precompile"` transform.
+ *
+ * Intrinsic elements (eg: `<div class="a">{name}</div>`) are serialized to HTML strings ahead of time,
+ * hoisted into module level template arrays & rendered with `jsxTemplate()`. Dynamic children are
+ * wrapped in `jsxEscape()` & dynamic attributes in `jsxAttr()`. Components, and elements that can't be
+ * serialized, are left for the regular `react-jsx` transform that runs afterwards.
+ *
+ * @param options - The runtime to import from & the elements to skip
+ * @returns A transformer to run before the TypeScript transformers
+ *
+ * @example
+ * ```typescript
+ * import ts from "typescript";
+ *
+ * const { outputText } = ts.transpileModule(`export const a = <p>Hi {name}</p>;`, {
+ *   fileName: "module.tsx",
+ *   compilerOptions: { jsx: ts.JsxEmit.ReactJSX, jsxImportSource: "preact" },
+ *   transformers: { before: [createJsxPrecompileTransformer({ importSource: "preact" })] },
+ * });
+ * ```
+ */
+export function createJsxPrecompileTransformer(options: JsxPrecompileOptions): ts.TransformerFactory<ts.SourceFile> {
+  const skipElements = new Set(options.skipElements ?? []);
+
+  return (context) => (sourceFile) => {
+    const { factory } = context;
+    const templates: ts.Statement[] = [];
+    const runtimeFunctions = new Set<RuntimeFunction>();
+
+    const callRuntime = (name: RuntimeFunction, args: ts.Expression[]) => {
+      runtimeFunctions.add(name);
+      return factory.createCallExpression(factory.createIdentifier(`_${name}`), undefined, args);
+    };
+
+    const canSerialize = (node: ts.Node): node is ts.JsxElement | ts.JsxSelfClosingElement => {
+      if (!ts.isJsxElement(node) && !ts.isJsxSelfClosingElement(node)) {
+        return false;
+      }
+      const { tagName, attributes } = ts.isJsxElement(node) ? node.openingElement : node;
+      if (!ts.isIdentifier(tagName) || !isIntrinsicElement(tagName.text) || skipElements.has(tagName.text)) {
+        return false;
+      }
+      return attributes.properties.every((attribute) =>
+        ts.isJsxAttribute(attribute) && !RUNTIME_ATTRIBUTES.has(getAttributeName(attribute))
+      ) && (!ts.isJsxElement(node) || node.children.every((child) =>
+        !ts.isJsxExpression(child) || !child.dotDotDotToken
+      ));
+    };
+
+    const visitor = (node: ts.Node): ts.VisitResult<ts.Node> => {
+      if (!canSerialize(node)) {
+        return ts.visitEachChild(node, visitor, context);
+      }
+      const template = serialize(node);
+      // A child of another element has to stay a JSX child
+      return ts.isJsxElement(node.parent) || ts.isJsxFragment(node.parent)
+        ? factory.createJsxExpression(undefined, template)
+        : template;
+    };
+
+    const visitExpression = (node: ts.Expression) => ts.visitNode(node, visitor, ts.isExpression);
+
+    // Serialize an element into a template, returning the jsxTemplate() call rendering it
+    const serialize = (node: ts.JsxElement | ts.JsxSelfClosingElement): ts.Expression => {
+      const strings = [""];
+      const values: ts.Expression[] = [];
+      const appendString = (text: string) => strings[strings.length - 1] += text;
+      const appendValue = (value: ts.Expression) => {
+        values.push(value);
+        strings.push("");
+      };
+
+      const appendElement = (element: ts.JsxElement | ts.JsxSelfClosingElement) => {
+        const { tagName, attributes } = ts.isJsxElement(element) ? element.openingElement : element;
+        const tag = (tagName as ts.Identifier).text;
+
+        appendString(`<${tag}`);
+        for (const attribute of attributes.properties as ts.NodeArray<ts.JsxAttribute>) {
+          const name = getAttributeName(attribute);
+          const htmlName = HTML_ATTRIBUTE_NAMES.get(name) ?? name;
+          const initializer = attribute.initializer;
+          const value = initializer && ts.isJsxExpression(initializer) ? initializer.expression : initializer;
+          if (!initializer) {
+            appendString(` ${htmlName}`);
+          } else if (value && ts.isStringLiteral(value)) {
+            // Entities are only decoded in JSX attribute strings, a string in braces is plain JavaScript
+            const text = ts.isStringLiteral(initializer) ? decodeEntities(value.text) : value.text;
+            appendString(` ${htmlName}="${escapeAttribute(text)}"`);
+          } else if (value) {
+            appendString(" ");
+            appendValue(callRuntime("jsxAttr", [factory.createStringLiteral(htmlName), visitExpression(value)]));
+          }
+        }
+        appendString(">");
+
+        if (VOID_ELEMENTS.has(tag)) {
+          return;
+        }
+        if (ts.isJsxElement(element)) {
+          appendChildren(element.children);
+        }
+        appendString(`</${tag}>`);
+      };
+
+      const appendChildren = (children: ts.NodeArray<ts.JsxChild>) => {
+        for (const child of children) {
+          if (ts.isJsxText(child)) {
+            appendString(escapeHtml(decodeEntities(cleanJsxText(child.text))));
+          } else if (ts.isJsxExpression(child)) {
+            if (child.expression) {
+              appendValue(callRuntime("jsxEscape", [visitExpression(child.expression)]));
+            }
+          } else if (ts.isJsxFragment(child)) {
+            appendChildren(child.children);
+          } else if (canSerialize(child)) {
+            appendElement(child);
+          } else {
+            appendValue(visitExpression(child));
+          }
+        }
+      };
+
+      appendElement(node);
+
+      const name = factory.createIdentifier(`$$_tpl_${templates.length + 1}`);
+      templates.push(factory.createVariableStatement(
+        undefined,
+        factory.createVariableDeclarationList(
+          [factory.createVariableDeclaration(
+            name,
+            undefined,
+            undefined,
+            factory.createArrayLiteralExpression(strings.map((text) => factory.createStringLiteral(text))),
+          )],
+          ts.NodeFlags.Const,
+        ),
+      ));
+      return callRuntime("jsxTemplate", [name, ...values]);
+    };
+
+    const visited = ts.visitEachChild(sourceFile, visitor, context);
+    if (templates.length === 0) {
+      return visited;
+    }
+
+    // Import the runtime functions & declare the templates ahead of everything else
+    const runtimeImport = factory.createImportDeclaration(
+      undefined,
+      factory.createImportClause(
+        undefined,
+        undefined,
+        factory.createNamedImports(
+          [...runtimeFunctions].map((name) =>
+            factory.createImportSpecifier(false, factory.createIdentifier(name), factory.createIdentifier(`_${name}`))
+          ),
+        ),
+      ),
+      factory.createStringLiteral(`${options.importSource}/jsx-runtime`),
+    );
+    const imports = visited.statements.filter(ts.isImportDeclaration);
+    const statements = visited.statements.filter((statement) => !ts.isImportDeclaration(statement));
+    return factory.updateSourceFile(visited, [runtimeImport, ...imports, ...templates, ...statements]);
+  };
+}
+
+/**
+ * Whether a tag names an HTML element (eg: "div", "my-element") rather than a component.
+ */
+function isIntrinsicElement(tag: string): boolean {
+  return /^[a-z]/.test(tag) || tag.includes("-");
+}
+
+/**
+ * Gets the name of an attribute, including its namespace (eg: "xlink:href").
+ */
+function getAttributeName(attribute: ts.JsxAttribute): string {
+  return ts.isIdentifier(attribute.name)
+    ? attribute.name.text
+    : `${attribute.name.namespace.text}:${attribute.name.name.text}`;
+}
+
+/**
+ * Applies the JSX whitespace rules to text between tags: lines are trimmed, empty lines
+ * are removed & the remaining lines are joined with a single space.
+ */
+function cleanJsxText(text: string): string {
+  const lines = text.split(/\r\n|\n|\r/);
+  const lastNonEmptyLine = lines.findLastIndex((line) => /[^ \t]/.test(line));
+
+  let result = "";
+  lines.forEach((line, index) => {
+    let trimmed = line.replaceAll("\t", " ");
+    if (index !== 0) {
+      trimmed = trimmed.replace(/^ +/, "");
+    }
+    if (index !== lines.length - 1) {
+      trimmed = trimmed.replace(/ +$/, "");
+    }
+    if (trimmed) {
+      result += index === lastNonEmptyLine ? trimmed : `${trimmed} `;
+    }
+  });
+  return result;
+}
+
+/**
+ * Decodes the HTML entities in JSX text.
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(?:#x([0-9a-f]+)|#([0-9]+)|([a-z]+));/gi, (entity, hex, decimal, name) => {
+    if (hex || decimal) {
+      return String.fromCodePoint(hex ? parseInt(hex, 16) : parseInt(decimal, 10));
+    }
+    return HTML_ENTITIES.get(name) ?? entity;
+  });
+}
+
+/**
+ * Escapes text for use as the content of an HTML element.
+ */
+function escapeHtml(text: string): string {
+  return text.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;");
+}
+
+/**
+ * Escapes text for use as a double quoted HTML attribute value.
+ */
+function escapeAttribute(text: string): string {
+  return text.replaceAll("&", "&amp;").replaceAll('"', "&quot;");
+}
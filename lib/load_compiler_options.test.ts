@@ -0,0 +1,103 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { join } from "@std/path";
+import ts from "typescript";
+import { loadCompilerOptions } from "./load_compiler_options.ts";
+
+Deno.test("loadCompilerOptions - converts the JSX options of a deno.json", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    const configPath = join(tempDir, "deno.json");
+    await Deno.writeTextFile(
+      configPath,
+      JSON.stringify({ compilerOptions: { jsx: "react-jsx", jsxImportSource: "preact" } }),
+    );
+
+    assertEquals(await loadCompilerOptions(configPath), {
+      jsx: ts.JsxEmit.ReactJSX,
+      jsxImportSource: "preact",
+    });
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("loadCompilerOptions - keeps Deno's precompile JSX options", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    const configPath = join(tempDir, "deno.json");
+    await Deno.writeTextFile(
+      configPath,
+      JSON.stringify({
+        compilerOptions: { jsx: "precompile", jsxImportSource: "preact", jsxPrecompileSkipElements: ["a"] },
+      }),
+    );
+
+    assertEquals(await loadCompilerOptions(configPath), {
+      jsx: "precompile",
+      jsxImportSource: "preact",
+      jsxPrecompileSkipElements: ["a"],
+    });
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("loadCompilerOptions - parses deno.jsonc files with comments", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    const configPath = join(tempDir, "deno.jsonc");
+    await Deno.writeTextFile(
+      configPath,
+      `{\n  // Legacy decorators\n  "compilerOptions": {\n    "experimentalDecorators": true,\n  },\n}\n`,
+    );
+
+    assertEquals(await loadCompilerOptions(configPath), { experimentalDecorators: true });
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("loadCompilerOptions - ignores options that don't affect the emitted code", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    const configPath = join(tempDir, "deno.json");
+    await Deno.writeTextFile(
+      configPath,
+      JSON.stringify({ compilerOptions: { strict: false, lib: ["dom"], jsxFactory: "h" } }),
+    );
+
+    assertEquals(await loadCompilerOptions(configPath), { jsxFactory: "h" });
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("loadCompilerOptions - returns no options when the config has none", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    const configPath = join(tempDir, "deno.json");
+    await Deno.writeTextFile(configPath, JSON.stringify({ imports: { "@utils/": "./utils/" } }));
+
+    assertEquals(await loadCompilerOptions(configPath), {});
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("loadCompilerOptions - throws when the config can't be parsed", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    const configPath = join(tempDir, "deno.json");
+    await Deno.writeTextFile(configPath, `{ "compilerOptions": `);
+
+    await assertRejects(() => loadCompilerOptions(configPath), Error, "Failed to parse");
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
@@ -0,0 +1,62 @@
+import ts from "typescript";
+import { parseJsonc } from "./jsonc.ts";
+import type { CompilerOptions } from "./ts_transpiler.ts";
+
+/**
+ * The compiler options of a Deno config file that affect the emitted JavaScript.
+ *
+ * Every other compiler option only affects type checking, which the importer never does.
+ */
+const EMIT_COMPILER_OPTIONS = [
+  "jsx",
+  "jsxFactory",
+  "jsxFragmentFactory",
+  "jsxImportSource",
+  "jsxPrecompileSkipElements",
+  "experimentalDecorators",
+  "emitDecoratorMetadata",
+] as const;
+
+/**
+ * Loads the compiler options of a deno.json or deno.jsonc file.
+ *
+ * Only the options that affect the emitted JavaScript are kept, converted from their JSON form
+ * (eg: `"jsx": "react-jsx"`) to the values the TypeScript compiler expects. Deno's own
+ * `"jsx": "precompile"` & `jsxPrecompileSkipElements` options are kept as is.
+ *
+ * @param path - Path to the Deno config file, comments & trailing commas are allowed
+ * @returns A promise that resolves to the compiler options, empty if the config doesn't set any
+ * @throws When the config file can't be read or parsed
+ *
+ * @example
+ * ```typescript ignore
+ * // Given a deno.json containing { "compilerOptions": { "jsx": "react-jsx", "jsxImportSource": "preact" } }
+ * const compilerOptions = await loadCompilerOptions("./packages/ui/deno.json");
+ * // { jsx: ts.JsxEmit.ReactJSX, jsxImportSource: "preact" }
+ * ```
+ */
+export async function loadCompilerOptions(path: string): Promise<CompilerOptions> {
+  const config = parseJsonc(await Deno.readTextFile(path), path) as { compilerOptions?: Record<string, unknown> };
+
+  const compilerOptions = config?.compilerOptions ?? {};
+  const emitOptions: Record<string, unknown> = {};
+  for (const name of EMIT_COMPILER_OPTIONS) {
+    if (name in compilerOptions) {
+      emitOptions[name] = compilerOptions[name];
+    }
+  }
+
+  // The TypeScript compiler knows nothing about the options only Deno supports
+  const { jsx, jsxPrecompileSkipElements, ...tsOptions } = emitOptions;
+  const denoOptions: CompilerOptions = {
+    ...(jsx === "precompile" && { jsx }),
+    ...(Array.isArray(jsxPrecompileSkipElements) && { jsxPrecompileSkipElements }),
+  };
+
+  // Invalid values are left out rather than failing the import, Deno reports them when type checking
+  const { options } = ts.convertCompilerOptionsFromJson(
+    { ...tsOptions, ...(jsx !== undefined && jsx !== "precompile" && { jsx }) },
+    path,
+  );
+  return { ...options, ...denoOptions };
+}
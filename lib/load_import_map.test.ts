@@ -153,6 +153,23 @@ Deno.test("loadImportMap - works with relative path input", async () => {
   }
 });
 
+Deno.test("loadImportMap - allows comments & trailing commas", async () => {
+  await Deno.mkdir(testDir, { recursive: true });
+
+  const importMapPath = join(testDir, "deno.jsonc");
+  await Deno.writeTextFile(
+    importMapPath,
+    `{\n  // Shared helpers\n  "imports": {\n    "@utils/": "./src/utils/",\n  },\n}\n`,
+  );
+
+  try {
+    const result = await loadImportMap(importMapPath);
+    assertEquals(result.imports, { "@utils/": `file://${join(testDir, "src", "utils")}/` });
+  } finally {
+    await Deno.remove(testDir, { recursive: true });
+  }
+});
+
 Deno.test("loadImportMap - throws on invalid JSON", async () => {
   await Deno.mkdir(testDir, { recursive: true });
 
@@ -2,6 +2,7 @@ import { ensure } from "@core/unknownutil";
 import { dirname, isAbsolute, join, toFileUrl } from "@std/path";
 import type { ImportMap } from "./import_map.ts";
 import { isImportMap } from "./import_map.ts";
+import { parseJsonc } from "./jsonc.ts";
 
 /**
  * A function that loads an import map from a given path.
@@ -141,7 +142,7 @@ export async function loadImportMap(
 /**
  * File system import map loader.
  *
- * Reads the file from disk, parses the JSON, and validates the structure.
+ * Reads the file from disk, parses the JSON, comments & trailing commas allowed, and validates the structure.
  * This is the built-in loader used when no custom loader is provided.
  *
  * @param path - The absolute path to the import map file
@@ -150,7 +151,7 @@ export async function loadImportMap(
 async function fsImportMapLoader(path: string): Promise<ImportMap> {
   // Read and parse the import map file
   const content = await Deno.readTextFile(path);
-  const rawImportMap = JSON.parse(content);
+  const rawImportMap = parseJsonc(content, path);
 
   // Validate the import map structure
   const importMap = ensure(rawImportMap, isImportMap);
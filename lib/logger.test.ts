@@ -0,0 +1,84 @@
+import { assertEquals, assertStrictEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { createConsoleLogger, getDefaultLogger, silentLogger, type TsImporterLogEvent } from "./logger.ts";
+
+describe("createConsoleLogger", () => {
+  const event: TsImporterLogEvent = { type: "module-read", url: "file:///src/mod.ts", size: 42 };
+
+  // Runs the callback while capturing everything written with console.error
+  const captureStderr = (callback: () => void): unknown[][] => {
+    const calls: unknown[][] = [];
+    const originalError = console.error;
+    console.error = (...data: unknown[]) => calls.push(data);
+    try {
+      callback();
+    } finally {
+      console.error = originalError;
+    }
+    return calls;
+  };
+
+  it("should write every level by default", () => {
+    const logger = createConsoleLogger();
+    const calls = captureStderr(() => {
+      logger.debug(event);
+      logger.info(event);
+      logger.warn(event);
+      logger.error(event);
+    });
+
+    assertEquals(calls, [
+      ["[ts-importer] debug", event],
+      ["[ts-importer] info", event],
+      ["[ts-importer] warn", event],
+      ["[ts-importer] error", event],
+    ]);
+  });
+
+  it("should skip events below the given level", () => {
+    const logger = createConsoleLogger("warn");
+    const calls = captureStderr(() => {
+      logger.debug(event);
+      logger.info(event);
+      logger.warn(event);
+      logger.error(event);
+    });
+
+    assertEquals(calls.map(([prefix]) => prefix), ["[ts-importer] warn", "[ts-importer] error"]);
+  });
+});
+
+describe("getDefaultLogger", () => {
+  // Runs the callback with DENO_TS_IMPORTER_DEBUG set to the given value
+  const withDebugEnv = <T>(value: string | undefined, callback: () => T): T => {
+    const originalValue = Deno.env.get("DENO_TS_IMPORTER_DEBUG");
+    try {
+      if (value === undefined) {
+        Deno.env.delete("DENO_TS_IMPORTER_DEBUG");
+      } else {
+        Deno.env.set("DENO_TS_IMPORTER_DEBUG", value);
+      }
+      return callback();
+    } finally {
+      if (originalValue !== undefined) {
+        Deno.env.set("DENO_TS_IMPORTER_DEBUG", originalValue);
+      } else {
+        Deno.env.delete("DENO_TS_IMPORTER_DEBUG");
+      }
+    }
+  };
+
+  it("should be silent when DENO_TS_IMPORTER_DEBUG is not set", () => {
+    assertStrictEquals(withDebugEnv(undefined, getDefaultLogger), silentLogger);
+  });
+
+  it("should be silent when DENO_TS_IMPORTER_DEBUG is disabled", () => {
+    assertStrictEquals(withDebugEnv("0", getDefaultLogger), silentLogger);
+    assertStrictEquals(withDebugEnv("false", getDefaultLogger), silentLogger);
+  });
+
+  it("should log to the console when DENO_TS_IMPORTER_DEBUG is set", () => {
+    const logger = withDebugEnv("1", getDefaultLogger);
+    assertEquals(logger === silentLogger, false);
+  });
+});
@@ -0,0 +1,90 @@
+import type { ImportMapDiagnostic } from "./parse_import_map.ts";
+
+/**
+ * The severity of a {@linkcode TsImporterLogEvent}, from least to most severe.
+ */
+export type TsImporterLogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * A structured event emitted by TsImporter while it imports modules.
+ */
+export type TsImporterLogEvent =
+  /** A module was imported, emitted at the "debug" level */
+  | { type: "module-imported"; specifier: string; url: string; cacheUrl: string }
+  /** The source of a module was read from disk or fetched, emitted at the "debug" level */
+  | { type: "module-read"; url: string; size: number }
+  /** A module was transpiled, `duration` is in milliseconds, emitted at the "debug" level */
+  | { type: "module-transpiled"; url: string; mode: "transpile" | "strip" | "passthrough"; duration: number }
+  /** The module graphs of the specifiers were written to the cache directory, emitted at the "info" level */
+  | { type: "modules-prepared"; specifiers: string[]; count: number; cacheDir: string }
+  /** A previously transformed module was reused, emitted at the "debug" level */
+  | { type: "cache-hit"; url: string; cacheUrl: string; cache: "memory" | "disk" }
+  /** A dependency failed to transform & its original URL is imported instead, emitted at the "warn" level */
+  | { type: "dependency-failed"; url: string; error: Error }
+  /** A problem in the import map of a discovered deno.json, emitted at the "warn" level */
+  | { type: "import-map-diagnostic"; path: string; diagnostic: ImportMapDiagnostic }
+  /** A watched module failed to reload, emitted at the "error" level */
+  | { type: "reload-failed"; specifier: string; error: unknown };
+
+/**
+ * Receives the events emitted by TsImporter, one method per level.
+ *
+ * The global `console` satisfies this type, so `{ logger: console }` is a quick way to see everything.
+ */
+export type TsImporterLogger = {
+  debug(event: TsImporterLogEvent): void;
+  info(event: TsImporterLogEvent): void;
+  warn(event: TsImporterLogEvent): void;
+  error(event: TsImporterLogEvent): void;
+};
+
+const LOG_LEVELS: readonly TsImporterLogLevel[] = ["debug", "info", "warn", "error"];
+
+/**
+ * A logger that discards every event, this is the default.
+ */
+export const silentLogger: TsImporterLogger = {
+  debug() {},
+  info() {},
+  warn() {},
+  error() {},
+};
+
+/**
+ * Creates a logger that writes events at or above the given level to stderr.
+ *
+ * Everything goes to stderr so that the output of programs that print to stdout is never affected.
+ *
+ * @param level - The least severe level to write
+ * @returns The logger
+ *
+ * @example
+ * ```typescript ignore
+ * const importer = new TsImporter({ logger: createConsoleLogger("warn") });
+ * ```
+ */
+export function createConsoleLogger(level: TsImporterLogLevel = "debug"): TsImporterLogger {
+  const threshold = LOG_LEVELS.indexOf(level);
+  const write = (eventLevel: TsImporterLogLevel) => (event: TsImporterLogEvent) => {
+    if (LOG_LEVELS.indexOf(eventLevel) >= threshold) {
+      console.error(`[ts-importer] ${eventLevel}`, event);
+    }
+  };
+  return {
+    debug: write("debug"),
+    info: write("info"),
+    warn: write("warn"),
+    error: write("error"),
+  };
+}
+
+/**
+ * Gets the logger to use when none is configured.
+ *
+ * Setting the `DENO_TS_IMPORTER_DEBUG` environment variable to anything but "", "0" or "false"
+ * enables a console logger at the "debug" level, otherwise nothing is logged.
+ */
+export function getDefaultLogger(): TsImporterLogger {
+  const debug = Deno.env.get("DENO_TS_IMPORTER_DEBUG");
+  return debug && debug !== "0" && debug.toLowerCase() !== "false" ? createConsoleLogger("debug") : silentLogger;
+}
@@ -0,0 +1,63 @@
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { getMediaType, getMediaTypeExtension, isAssetMediaType, isJsxMediaType } from "./media_type.ts";
+
+describe("getMediaType", () => {
+  it("should detect the media type from the extension", () => {
+    assertEquals(getMediaType("file:///src/mod.ts"), "TypeScript");
+    assertEquals(getMediaType("file:///src/button.tsx"), "TSX");
+    assertEquals(getMediaType("file:///src/button.jsx"), "JSX");
+    assertEquals(getMediaType("file:///src/mod.js"), "JavaScript");
+    assertEquals(getMediaType("file:///src/mod.mts"), "Mts");
+    assertEquals(getMediaType("file:///src/mod.cts"), "Cts");
+    assertEquals(getMediaType("file:///src/mod.mjs"), "Mjs");
+    assertEquals(getMediaType("file:///src/mod.cjs"), "Cjs");
+    assertEquals(getMediaType("file:///src/data.json"), "Json");
+    assertEquals(getMediaType("file:///src/add.wasm"), "Wasm");
+  });
+
+  it("should ignore the query & hash of remote URLs", () => {
+    assertEquals(getMediaType(new URL("https://example.com/button.tsx?v=1#top")), "TSX");
+  });
+
+  it("should assume TypeScript without an extension", () => {
+    assertEquals(getMediaType("file:///bin/script"), "TypeScript");
+    assertEquals(getMediaType("https://esm.sh/preact@10.26.0"), "TypeScript");
+  });
+
+  it("should treat local files with any other extension as unknown assets", () => {
+    assertEquals(getMediaType("file:///src/template.html"), "Unknown");
+    assertEquals(getMediaType("file:///src/.env"), "Unknown");
+  });
+});
+
+describe("getMediaTypeExtension", () => {
+  it("should return the extension including the dot", () => {
+    assertEquals(getMediaTypeExtension("TSX"), ".tsx");
+    assertEquals(getMediaTypeExtension("Cjs"), ".cjs");
+    assertEquals(getMediaTypeExtension("Json"), ".json");
+  });
+
+  it("should return an empty string for unknown assets", () => {
+    assertEquals(getMediaTypeExtension("Unknown"), "");
+  });
+});
+
+describe("isJsxMediaType", () => {
+  it("should only be true for JSX & TSX", () => {
+    assertEquals(isJsxMediaType("JSX"), true);
+    assertEquals(isJsxMediaType("TSX"), true);
+    assertEquals(isJsxMediaType("TypeScript"), false);
+    assertEquals(isJsxMediaType("JavaScript"), false);
+  });
+});
+
+describe("isAssetMediaType", () => {
+  it("should only be true for content that isn't transpiled", () => {
+    assertEquals(isAssetMediaType("Json"), true);
+    assertEquals(isAssetMediaType("Wasm"), true);
+    assertEquals(isAssetMediaType("Unknown"), true);
+    assertEquals(isAssetMediaType("TypeScript"), false);
+    assertEquals(isAssetMediaType("Cjs"), false);
+  });
+});
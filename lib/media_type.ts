@@ -0,0 +1,89 @@
+/**
+ * The kinds of content a module can contain, named after the media types of `@deno/graph`.
+ *
+ * "Unknown" covers every other asset, eg: text files imported `with { type: "text" }`.
+ */
+export type MediaType =
+  | "JavaScript"
+  | "Mjs"
+  | "Cjs"
+  | "JSX"
+  | "TypeScript"
+  | "Mts"
+  | "Cts"
+  | "TSX"
+  | "Json"
+  | "Wasm"
+  | "Unknown";
+
+const EXTENSIONS: Record<Exclude<MediaType, "Unknown">, string> = {
+  JavaScript: ".js",
+  Mjs: ".mjs",
+  Cjs: ".cjs",
+  JSX: ".jsx",
+  TypeScript: ".ts",
+  Mts: ".mts",
+  Cts: ".cts",
+  TSX: ".tsx",
+  Json: ".json",
+  Wasm: ".wasm",
+};
+
+/**
+ * Detects the media type of a module from the extension of its URL.
+ *
+ * Modules without an extension are assumed to be TypeScript, the same as Deno does for local
+ * files without one. Local files with any other extension are "Unknown", remote modules are
+ * assumed to be TypeScript as their URLs often contain version numbers (eg: `mod@1.2.3`).
+ *
+ * @param url - The URL of the module
+ * @returns The media type of the module
+ *
+ * @example
+ * ```typescript
+ * getMediaType("file:///src/button.tsx"); // "TSX"
+ * getMediaType("https://example.com/mod.mjs?v=1"); // "Mjs"
+ * getMediaType("file:///src/schema.json"); // "Json"
+ * getMediaType("file:///src/template.html"); // "Unknown"
+ * ```
+ */
+export function getMediaType(url: string | URL): MediaType {
+  const { protocol, pathname } = new URL(url);
+  for (const [mediaType, extension] of Object.entries(EXTENSIONS) as Array<[MediaType, string]>) {
+    if (pathname.endsWith(extension)) {
+      return mediaType;
+    }
+  }
+  const filename = pathname.slice(pathname.lastIndexOf("/") + 1);
+  return protocol === "file:" && filename.includes(".") ? "Unknown" : "TypeScript";
+}
+
+/**
+ * Gets the file extension of a media type, including the leading dot.
+ *
+ * @param mediaType - The media type
+ * @returns The extension, eg: ".tsx", or an empty string for "Unknown"
+ */
+export function getMediaTypeExtension(mediaType: MediaType): string {
+  return mediaType === "Unknown" ? "" : EXTENSIONS[mediaType];
+}
+
+/**
+ * Whether code of the media type may contain JSX.
+ *
+ * @param mediaType - The media type
+ * @returns true for "JSX" & "TSX"
+ */
+export function isJsxMediaType(mediaType: MediaType): boolean {
+  return mediaType === "JSX" || mediaType === "TSX";
+}
+
+/**
+ * Whether a module of the media type is copied to the cache as is, rather than transpiled.
+ *
+ * @param mediaType - The media type
+ * @returns true for "Json", "Wasm" & "Unknown"
+ */
+export function isAssetMediaType(mediaType: MediaType): boolean {
+  return mediaType === "Json" || mediaType === "Wasm" || mediaType === "Unknown";
+}
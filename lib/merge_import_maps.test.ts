@@ -0,0 +1,54 @@
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import type { ImportMap } from "./import_map.ts";
+import { mergeImportMaps } from "./merge_import_maps.ts";
+
+const host: ImportMap = {
+  imports: { "preact": "npm:preact@10.26.0", "@host/": "file:///host/" },
+  scopes: { "file:///host/legacy/": { "preact": "npm:preact@8" } },
+};
+
+const plugin: ImportMap = {
+  imports: { "preact": "npm:preact@^10", "zod": "npm:zod@^3" },
+  scopes: { "file:///host/legacy/": { "zod": "npm:zod@^1" }, "file:///plugin/": { "zod": "npm:zod@^4" } },
+};
+
+describe("mergeImportMaps", () => {
+  it("should let the overlays win by default", () => {
+    const { importMap, provenance } = mergeImportMaps(host, plugin);
+
+    assertEquals(importMap.imports, { "preact": "npm:preact@^10", "@host/": "file:///host/", "zod": "npm:zod@^3" });
+    assertEquals(provenance.imports, { "preact": 1, "@host/": 0, "zod": 1 });
+  });
+
+  it("should let the base win with the first-wins strategy", () => {
+    const { importMap, provenance } = mergeImportMaps(host, plugin, { strategy: "first-wins" });
+
+    assertEquals(importMap.imports, { "preact": "npm:preact@10.26.0", "@host/": "file:///host/", "zod": "npm:zod@^3" });
+    assertEquals(provenance.imports, { "preact": 0, "@host/": 0, "zod": 1 });
+  });
+
+  it("should merge the imports of scopes sharing the same prefix", () => {
+    const { importMap, provenance } = mergeImportMaps(host, plugin);
+
+    assertEquals(importMap.scopes, {
+      "file:///host/legacy/": { "preact": "npm:preact@8", "zod": "npm:zod@^1" },
+      "file:///plugin/": { "zod": "npm:zod@^4" },
+    });
+    assertEquals(provenance.scopes, {
+      "file:///host/legacy/": { "preact": 0, "zod": 1 },
+      "file:///plugin/": { "zod": 1 },
+    });
+  });
+
+  it("should apply every overlay in order", () => {
+    const { importMap, provenance } = mergeImportMaps(
+      { imports: { "a": "./a0.ts" } },
+      { imports: { "a": "./a1.ts", "b": "./b1.ts" } },
+      { imports: { "b": "./b2.ts" } },
+    );
+
+    assertEquals(importMap, { imports: { "a": "./a1.ts", "b": "./b2.ts" } });
+    assertEquals(provenance, { imports: { "a": 1, "b": 2 }, scopes: {} });
+  });
+});
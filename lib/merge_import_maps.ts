@@ -0,0 +1,111 @@
+import type { ImportMap, Imports, Scopes } from "./import_map.ts";
+
+/**
+ * Which import map wins when several map the same key.
+ *
+ * - "last-wins": Each overlay overrides the import maps before it, the base loses to every overlay
+ * - "first-wins": Each import map keeps its entries over the overlays after it, the base wins over every overlay
+ */
+export type ImportMapMergeStrategy = "last-wins" | "first-wins";
+
+/**
+ * Options for {@linkcode mergeImportMaps}.
+ */
+export type MergeImportMapsOptions = {
+  /**
+   * Which import map wins when several map the same key.
+   *
+   * @default "last-wins"
+   */
+  strategy?: ImportMapMergeStrategy;
+};
+
+/**
+ * Which of the merged import maps each entry came from, `0` being the base & `1` the first overlay.
+ */
+export type ImportMapProvenance = {
+  /** The import map each top level import came from */
+  imports: Record<string, number>;
+  /** The import map each import of each scope came from */
+  scopes: Record<string, Record<string, number>>;
+};
+
+/**
+ * The result of {@linkcode mergeImportMaps}.
+ */
+export type MergeImportMapsResult = {
+  /** The merged import map */
+  importMap: ImportMap;
+  /** Which of the merged import maps each entry came from */
+  provenance: ImportMapProvenance;
+};
+
+/**
+ * Merges import maps entry by entry, including the imports of scopes sharing the same prefix.
+ *
+ * Keys & scope prefixes are compared as written, so import maps should be normalized first,
+ * eg: with {@linkcode parseImportMap}, when they don't share the same base URL.
+ *
+ * @param base - The import map the overlays are merged over
+ * @param rest - The overlays, optionally followed by the merge options
+ * @returns The merged import map along with where each of its entries came from
+ *
+ * @example
+ * ```typescript
+ * const host = { imports: { "preact": "npm:preact@10.26.0" } };
+ * const plugin = { imports: { "preact": "npm:preact@^10", "zod": "npm:zod@^3" } };
+ *
+ * const { importMap, provenance } = mergeImportMaps(host, plugin, { strategy: "first-wins" });
+ * // importMap: { imports: { preact: "npm:preact@10.26.0", zod: "npm:zod@^3" } }
+ * // provenance: { imports: { preact: 0, zod: 1 }, scopes: {} }
+ * ```
+ */
+export function mergeImportMaps(
+  base: ImportMap,
+  ...rest: ImportMap[] | [...overlays: ImportMap[], options: MergeImportMapsOptions]
+): MergeImportMapsResult {
+  const last = rest.at(-1);
+  const hasOptions = last !== undefined && !("imports" in last);
+  const overlays = (hasOptions ? rest.slice(0, -1) : rest) as ImportMap[];
+  const { strategy = "last-wins" } = (hasOptions ? last : {}) as MergeImportMapsOptions;
+
+  // Import maps are applied from the one that loses the most to the one that wins the most
+  const layers = [base, ...overlays].map((importMap, index) => ({ importMap, index }));
+  if (strategy === "first-wins") {
+    layers.reverse();
+  }
+
+  const imports: Imports = {};
+  const provenance: ImportMapProvenance = { imports: {}, scopes: {} };
+  let scopes: Scopes | undefined;
+  for (const { importMap, index } of layers) {
+    mergeSpecifierMap(imports, provenance.imports, importMap.imports, index);
+
+    for (const [prefix, scopeImports] of Object.entries(importMap.scopes ?? {})) {
+      scopes ??= {};
+      mergeSpecifierMap(
+        scopes[prefix] ??= {},
+        provenance.scopes[prefix] ??= {},
+        scopeImports,
+        index,
+      );
+    }
+  }
+
+  return { importMap: { imports, ...(scopes && { scopes }) }, provenance };
+}
+
+/**
+ * Copies the entries of a specifier map over the merged ones, recording where they came from.
+ */
+function mergeSpecifierMap(
+  target: Imports,
+  provenance: Record<string, number>,
+  source: Readonly<Imports>,
+  index: number,
+) {
+  for (const [key, address] of Object.entries(source)) {
+    target[key] = address;
+    provenance[key] = index;
+  }
+}
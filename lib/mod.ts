@@ -1,3 +1,40 @@
+export { TsImporterError, type TsImporterFailure } from "./errors.ts";
 export { type ImportMap, type Imports, isImportMap, isImports, isScopes, type Scopes } from "./import_map.ts";
+export { loadCompilerOptions } from "./load_compiler_options.ts";
 export { loadImportMap } from "./load_import_map.ts";
-export { TsImporter, type TsImporterOptions } from "./ts_importer.ts";
+export {
+  createConsoleLogger,
+  silentLogger,
+  type TsImporterLogEvent,
+  type TsImporterLogger,
+  type TsImporterLogLevel,
+} from "./logger.ts";
+export { type MediaType } from "./media_type.ts";
+export {
+  type ImportMapMergeStrategy,
+  type ImportMapProvenance,
+  mergeImportMaps,
+  type MergeImportMapsOptions,
+  type MergeImportMapsResult,
+} from "./merge_import_maps.ts";
+export {
+  type ImportMapDiagnostic,
+  parseImportMap,
+  type ParseImportMapOptions,
+  type ParseImportMapResult,
+} from "./parse_import_map.ts";
+export { type SourceMap } from "./source_map.ts";
+export {
+  TsImporter,
+  type TsImporterInvalidateOptions,
+  type TsImporterOptions,
+  type TsImporterWatcher,
+  type TsImporterWatchOptions,
+} from "./ts_importer.ts";
+export {
+  TsImporterCache,
+  type TsImporterCacheEntry,
+  type TsImporterCacheOptions,
+  type TsImporterCachePruneOptions,
+} from "./ts_importer_cache.ts";
+export { type CompilerOptions } from "./ts_transpiler.ts";
@@ -0,0 +1,105 @@
+import { assertEquals, assertMatch, assertNotEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { computeTransitiveHashes, type ModuleGraphNode } from "./module_graph.ts";
+
+describe("computeTransitiveHashes", () => {
+  const external = (url: string) => `external:${url}`;
+
+  it("should hash every module in the graph", () => {
+    const hashes = computeTransitiveHashes(
+      new Map<string, ModuleGraphNode>([
+        ["file:///a.ts", { fingerprint: "a", dependencies: ["file:///b.ts"] }],
+        ["file:///b.ts", { fingerprint: "b", dependencies: [] }],
+      ]),
+      external,
+    );
+
+    assertEquals([...hashes.keys()].sort(), ["file:///a.ts", "file:///b.ts"]);
+    assertMatch(hashes.get("file:///a.ts")!, /^[a-f0-9]{64}$/);
+    assertNotEquals(hashes.get("file:///a.ts"), hashes.get("file:///b.ts"));
+  });
+
+  it("should change the hash of every importer when a leaf changes", () => {
+    const graph = (leaf: string) =>
+      new Map<string, ModuleGraphNode>([
+        ["file:///a.ts", { fingerprint: "a", dependencies: ["file:///b.ts"] }],
+        ["file:///b.ts", { fingerprint: "b", dependencies: ["file:///c.ts"] }],
+        ["file:///c.ts", { fingerprint: leaf, dependencies: [] }],
+        ["file:///unrelated.ts", { fingerprint: "u", dependencies: [] }],
+      ]);
+
+    const before = computeTransitiveHashes(graph("c1"), external);
+    const after = computeTransitiveHashes(graph("c2"), external);
+
+    assertNotEquals(before.get("file:///a.ts"), after.get("file:///a.ts"));
+    assertNotEquals(before.get("file:///b.ts"), after.get("file:///b.ts"));
+    assertNotEquals(before.get("file:///c.ts"), after.get("file:///c.ts"));
+    assertEquals(before.get("file:///unrelated.ts"), after.get("file:///unrelated.ts"));
+  });
+
+  it("should invalidate every member of a cycle and its importers", () => {
+    const graph = (member: string) =>
+      new Map<string, ModuleGraphNode>([
+        ["file:///main.ts", { fingerprint: "main", dependencies: ["file:///a.ts"] }],
+        ["file:///a.ts", { fingerprint: "a", dependencies: ["file:///b.ts"] }],
+        ["file:///b.ts", { fingerprint: member, dependencies: ["file:///a.ts"] }],
+      ]);
+
+    const before = computeTransitiveHashes(graph("b1"), external);
+    const after = computeTransitiveHashes(graph("b2"), external);
+
+    assertNotEquals(before.get("file:///main.ts"), after.get("file:///main.ts"));
+    assertNotEquals(before.get("file:///a.ts"), after.get("file:///a.ts"));
+    assertNotEquals(before.get("file:///b.ts"), after.get("file:///b.ts"));
+
+    // Members of the same cycle still get distinct hashes
+    assertNotEquals(before.get("file:///a.ts"), before.get("file:///b.ts"));
+  });
+
+  it("should propagate changes from a dependency leaving a cycle", () => {
+    const graph = (leaf: string) =>
+      new Map<string, ModuleGraphNode>([
+        ["file:///a.ts", { fingerprint: "a", dependencies: ["file:///b.ts"] }],
+        ["file:///b.ts", { fingerprint: "b", dependencies: ["file:///a.ts", "file:///leaf.ts"] }],
+        ["file:///leaf.ts", { fingerprint: leaf, dependencies: [] }],
+      ]);
+
+    const before = computeTransitiveHashes(graph("leaf1"), external);
+    const after = computeTransitiveHashes(graph("leaf2"), external);
+
+    assertNotEquals(before.get("file:///a.ts"), after.get("file:///a.ts"));
+    assertNotEquals(before.get("file:///b.ts"), after.get("file:///b.ts"));
+  });
+
+  it("should use the external hash of dependencies outside the graph", () => {
+    const graph = new Map<string, ModuleGraphNode>([
+      ["file:///a.ts", { fingerprint: "a", dependencies: ["file:///transformed.ts"] }],
+    ]);
+
+    const before = computeTransitiveHashes(graph, () => "1");
+    const after = computeTransitiveHashes(graph, () => "2");
+
+    assertNotEquals(before.get("file:///a.ts"), after.get("file:///a.ts"));
+  });
+
+  it("should not depend on the order dependencies were discovered in", () => {
+    const hashes1 = computeTransitiveHashes(
+      new Map<string, ModuleGraphNode>([
+        ["file:///a.ts", { fingerprint: "a", dependencies: ["file:///b.ts", "file:///c.ts"] }],
+        ["file:///b.ts", { fingerprint: "b", dependencies: [] }],
+        ["file:///c.ts", { fingerprint: "c", dependencies: [] }],
+      ]),
+      external,
+    );
+    const hashes2 = computeTransitiveHashes(
+      new Map<string, ModuleGraphNode>([
+        ["file:///c.ts", { fingerprint: "c", dependencies: [] }],
+        ["file:///b.ts", { fingerprint: "b", dependencies: [] }],
+        ["file:///a.ts", { fingerprint: "a", dependencies: ["file:///c.ts", "file:///b.ts"] }],
+      ]),
+      external,
+    );
+
+    assertEquals(hashes1, hashes2);
+  });
+});
@@ -0,0 +1,140 @@
+import { crypto } from "@std/crypto/crypto";
+import { encodeHex } from "@std/encoding";
+
+/**
+ * A module in a dependency graph, as seen by {@linkcode computeTransitiveHashes}.
+ */
+export type ModuleGraphNode = {
+  /** Fingerprint of the module's own source and transformation settings */
+  readonly fingerprint: string;
+  /** The resolved URLs of the module's direct dependencies */
+  readonly dependencies: readonly string[];
+};
+
+// Reusable encoder instance
+const textEncoder = new TextEncoder();
+
+/**
+ * Computes a transitive content hash for every module in a dependency graph.
+ *
+ * The hash of a module covers its own fingerprint and, recursively, the hashes of
+ * everything it depends on. Editing a leaf module therefore changes the hash of
+ * every module that (indirectly) imports it.
+ *
+ * Circular dependencies are handled by collapsing each strongly connected component
+ * into a single unit: every module in a cycle is hashed over the fingerprints of all
+ * the members of the cycle plus the hashes of the dependencies that leave it. Editing
+ * any member of a cycle invalidates all of its members and their importers.
+ *
+ * @param modules - The modules of the graph, keyed by their URL
+ * @param getExternalHash - Returns the hash of a dependency that is not part of `modules`,
+ *   for example a module that was already transformed or one that failed to load
+ * @returns The transitive hash of each module in `modules`, keyed by URL
+ *
+ * @example
+ * ```typescript
+ * const hashes = computeTransitiveHashes(
+ *   new Map([
+ *     ["file:///a.ts", { fingerprint: "1", dependencies: ["file:///b.ts"] }],
+ *     ["file:///b.ts", { fingerprint: "2", dependencies: ["file:///a.ts"] }],
+ *   ]),
+ *   (url) => url,
+ * );
+ * ```
+ */
+export function computeTransitiveHashes(
+  modules: ReadonlyMap<string, ModuleGraphNode>,
+  getExternalHash: (url: string) => string,
+): Map<string, string> {
+  const hashes = new Map<string, string>();
+
+  // Tarjan's algorithm emits components in reverse topological order,
+  // so the hashes of a component's dependencies are always known already.
+  for (const component of findStronglyConnectedComponents(modules)) {
+    const members = new Set(component);
+
+    const dependencies = new Map<string, string>();
+    for (const url of component) {
+      for (const dependency of modules.get(url)!.dependencies) {
+        if (!members.has(dependency)) {
+          dependencies.set(dependency, hashes.get(dependency) ?? getExternalHash(dependency));
+        }
+      }
+    }
+
+    const componentHash = sha256Hex({
+      modules: component.map((url) => [url, modules.get(url)!.fingerprint]).sort(compareEntries),
+      dependencies: [...dependencies].sort(compareEntries),
+    });
+
+    for (const url of component) {
+      hashes.set(url, sha256Hex({ url, component: componentHash }));
+    }
+  }
+
+  return hashes;
+}
+
+/**
+ * Finds the strongly connected components of the graph using Tarjan's algorithm.
+ * Dependencies that are not part of the graph are ignored.
+ */
+function findStronglyConnectedComponents(modules: ReadonlyMap<string, ModuleGraphNode>): string[][] {
+  const components: string[][] = [];
+  const indexes = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+
+  const connect = (url: string) => {
+    indexes.set(url, indexes.size);
+    lowLinks.set(url, indexes.get(url)!);
+    stack.push(url);
+    onStack.add(url);
+
+    for (const dependency of modules.get(url)!.dependencies) {
+      if (!modules.has(dependency)) {
+        continue;
+      }
+      if (!indexes.has(dependency)) {
+        connect(dependency);
+        lowLinks.set(url, Math.min(lowLinks.get(url)!, lowLinks.get(dependency)!));
+      } else if (onStack.has(dependency)) {
+        lowLinks.set(url, Math.min(lowLinks.get(url)!, indexes.get(dependency)!));
+      }
+    }
+
+    if (lowLinks.get(url) === indexes.get(url)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== url);
+      components.push(component);
+    }
+  };
+
+  for (const url of modules.keys()) {
+    if (!indexes.has(url)) {
+      connect(url);
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Orders [key, value] tuples by key so hashes do not depend on discovery order.
+ */
+function compareEntries(a: string[], b: string[]): number {
+  return a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0;
+}
+
+/**
+ * Hashes the JSON representation of a value.
+ */
+function sha256Hex(value: unknown): string {
+  return encodeHex(crypto.subtle.digestSync("SHA-256", textEncoder.encode(JSON.stringify(value))));
+}
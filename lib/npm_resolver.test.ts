@@ -0,0 +1,190 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { join } from "@std/path";
+import { toFileUrl } from "@std/path/to-file-url";
+import { afterEach, beforeEach, describe, it } from "@std/testing/bdd";
+import {
+  findNpmResolutionFiles,
+  getPackageType,
+  isBareSpecifier,
+  isNpmPackageModule,
+  parseNpmSpecifier,
+  resolveNpmSpecifier,
+} from "./npm_resolver.ts";
+
+/**
+ * Writes a package.json, and an empty file for every other path, into `dir`.
+ */
+async function writePackage(dir: string, packageJson: Record<string, unknown>, files: string[] = []) {
+  await Deno.mkdir(dir, { recursive: true });
+  await Deno.writeTextFile(join(dir, "package.json"), JSON.stringify(packageJson));
+  for (const file of files) {
+    await Deno.mkdir(join(dir, file, ".."), { recursive: true });
+    await Deno.writeTextFile(join(dir, file), "");
+  }
+}
+
+describe("parseNpmSpecifier", () => {
+  it("should parse the name, range & subpath", () => {
+    assertEquals(parseNpmSpecifier("npm:preact@^10.26.0/hooks"), {
+      name: "preact",
+      range: "^10.26.0",
+      subpath: "./hooks",
+    });
+  });
+
+  it("should parse scoped packages", () => {
+    assertEquals(parseNpmSpecifier("npm:/@scope/pkg@1.0.0/a/b.js"), {
+      name: "@scope/pkg",
+      range: "1.0.0",
+      subpath: "./a/b.js",
+    });
+    assertEquals(parseNpmSpecifier("npm:@scope/pkg"), { name: "@scope/pkg", subpath: "." });
+  });
+
+  it("should parse bare specifiers", () => {
+    assertEquals(parseNpmSpecifier("preact/jsx-runtime"), { name: "preact", subpath: "./jsx-runtime" });
+  });
+
+  it("should throw without a package name", () => {
+    assertThrows(() => parseNpmSpecifier("npm:@scope"), Error, "Invalid npm specifier");
+  });
+});
+
+describe("isBareSpecifier", () => {
+  it("should only be true for package names", () => {
+    assertEquals(isBareSpecifier("preact/hooks"), true);
+    assertEquals(isBareSpecifier("@scope/pkg"), true);
+    assertEquals(isBareSpecifier("./mod.js"), false);
+    assertEquals(isBareSpecifier("/mod.js"), false);
+    assertEquals(isBareSpecifier("node:fs"), false);
+    assertEquals(isBareSpecifier("https://esm.sh/preact"), false);
+  });
+});
+
+describe("resolveNpmSpecifier", () => {
+  let tempDir: string;
+  let npmCacheDir: string;
+  let referrer: URL;
+
+  beforeEach(async () => {
+    tempDir = await Deno.makeTempDir();
+    npmCacheDir = join(tempDir, "npm");
+    referrer = toFileUrl(join(tempDir, "project", "main.ts"));
+  });
+
+  afterEach(async () => {
+    await Deno.remove(tempDir, { recursive: true });
+  });
+
+  it("should prefer the closest node_modules directory", async () => {
+    await writePackage(join(tempDir, "node_modules", "pkg"), { main: "./lib/index.js" }, ["lib/index.js"]);
+    await writePackage(join(npmCacheDir, "pkg", "1.0.0"), { main: "./index.js" }, ["index.js"]);
+
+    assertEquals(
+      resolveNpmSpecifier("npm:pkg@1", referrer, { npmCacheDir }).href,
+      toFileUrl(join(tempDir, "node_modules", "pkg", "lib", "index.js")).href,
+    );
+  });
+
+  it("should use the highest cached version satisfying the range", async () => {
+    for (const version of ["1.0.0", "1.2.0", "2.0.0"]) {
+      await writePackage(join(npmCacheDir, "pkg", version), {}, ["index.js"]);
+    }
+
+    assertEquals(
+      resolveNpmSpecifier("npm:pkg@^1.0.0", referrer, { npmCacheDir }).href,
+      toFileUrl(join(npmCacheDir, "pkg", "1.2.0", "index.js")).href,
+    );
+    assertEquals(
+      resolveNpmSpecifier("npm:pkg", referrer, { npmCacheDir }).href,
+      toFileUrl(join(npmCacheDir, "pkg", "2.0.0", "index.js")).href,
+    );
+  });
+
+  it("should use the dependency range of the importing package for bare specifiers", async () => {
+    await writePackage(join(npmCacheDir, "app", "1.0.0"), { dependencies: { dep: "~1.0.0" } }, ["index.js"]);
+    for (const version of ["1.0.5", "1.1.0"]) {
+      await writePackage(join(npmCacheDir, "dep", version), {}, ["index.js"]);
+    }
+
+    assertEquals(
+      resolveNpmSpecifier("dep", toFileUrl(join(npmCacheDir, "app", "1.0.0", "index.js")), { npmCacheDir }).href,
+      toFileUrl(join(npmCacheDir, "dep", "1.0.5", "index.js")).href,
+    );
+  });
+
+  it("should match the exports conditions Deno uses", async () => {
+    await writePackage(join(npmCacheDir, "pkg", "1.0.0"), {
+      exports: {
+        ".": { types: "./index.d.ts", require: "./index.cjs", import: "./index.mjs" },
+        "./feature": { browser: "./feature.browser.js", default: "./feature.js" },
+        "./utils/*": "./dist/utils/*.js",
+        "./internal/*": null,
+      },
+    });
+
+    const resolve = (specifier: string) => resolveNpmSpecifier(specifier, referrer, { npmCacheDir }).href;
+    const packageUrl = toFileUrl(join(npmCacheDir, "pkg", "1.0.0")).href;
+    assertEquals(resolve("npm:pkg"), `${packageUrl}/index.mjs`);
+    assertEquals(resolve("npm:pkg/feature"), `${packageUrl}/feature.js`);
+    assertEquals(resolve("npm:pkg/utils/strings"), `${packageUrl}/dist/utils/strings.js`);
+    assertThrows(() => resolve("npm:pkg/internal/secret"), Error, "is not exported");
+    assertThrows(() => resolve("npm:pkg/package.json"), Error, "is not exported");
+  });
+
+  it("should resolve Node.js built-in modules", () => {
+    assertEquals(resolveNpmSpecifier("fs", referrer, { npmCacheDir }).href, "node:fs");
+    assertEquals(resolveNpmSpecifier("node:path", referrer, { npmCacheDir }).href, "node:path");
+  });
+
+  it("should throw when the package is neither installed nor cached", () => {
+    assertThrows(
+      () => resolveNpmSpecifier("npm:missing@^1.0.0", referrer, { npmCacheDir }),
+      Error,
+      `npm package "missing@^1.0.0" is neither installed`,
+    );
+  });
+});
+
+describe("isNpmPackageModule", () => {
+  it("should be true for modules in node_modules directories or the npm cache", () => {
+    assertEquals(isNpmPackageModule("file:///project/node_modules/pkg/index.js"), true);
+    assertEquals(isNpmPackageModule("file:///npm/pkg/1.0.0/index.js", { npmCacheDir: "/npm" }), true);
+    assertEquals(isNpmPackageModule("file:///project/main.ts", { npmCacheDir: "/npm" }), false);
+    assertEquals(isNpmPackageModule("https://example.com/node_modules/pkg/index.js"), false);
+  });
+});
+
+describe("getPackageType", () => {
+  it("should read the type of the closest package.json", async () => {
+    const tempDir = await Deno.makeTempDir();
+
+    try {
+      await writePackage(join(tempDir, "pkg"), {}, ["index.js"]);
+      await writePackage(join(tempDir, "pkg", "esm"), { type: "module" }, ["index.js"]);
+
+      assertEquals(getPackageType(toFileUrl(join(tempDir, "pkg", "index.js"))), "commonjs");
+      assertEquals(getPackageType(toFileUrl(join(tempDir, "pkg", "esm", "index.js"))), "module");
+    } finally {
+      await Deno.remove(tempDir, { recursive: true });
+    }
+  });
+});
+
+describe("findNpmResolutionFiles", () => {
+  it("should find the closest package.json & lockfile, in whichever directories they are", async () => {
+    const tempDir = await Deno.makeTempDir();
+
+    try {
+      await writePackage(tempDir, {}, ["deno.lock", "app/src/mod.ts"]);
+      await writePackage(join(tempDir, "app"), {});
+
+      assertEquals(findNpmResolutionFiles(toFileUrl(join(tempDir, "app", "src", "mod.ts"))), [
+        join(tempDir, "app", "package.json"),
+        join(tempDir, "deno.lock"),
+      ]);
+    } finally {
+      await Deno.remove(tempDir, { recursive: true });
+    }
+  });
+});
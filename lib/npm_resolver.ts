@@ -0,0 +1,383 @@
+import { builtinModules } from "node:module";
+import { basename, dirname, join, SEPARATOR } from "@std/path";
+import { fromFileUrl } from "@std/path/from-file-url";
+import { toFileUrl } from "@std/path/to-file-url";
+import { format, maxSatisfying, parseRange, tryParse, tryParseRange } from "@std/semver";
+import { getDefaultDenoCacheDir } from "./cache.ts";
+
+/**
+ * A parsed `npm:` or bare package specifier.
+ */
+export type NpmSpecifier = {
+  /** The package name, including its scope, eg: "@std/path" */
+  name: string;
+  /** The version range or tag, eg: "^1.2.0", if the specifier has one */
+  range?: string;
+  /** The path within the package, "." for the package itself or eg: "./jsx-runtime" */
+  subpath: string;
+};
+
+/**
+ * Options for {@linkcode resolveNpmSpecifier}.
+ */
+export type NpmResolveOptions = {
+  /** Where Deno caches npm packages, defaults to `<DENO_DIR>/npm/registry.npmjs.org` */
+  npmCacheDir?: string;
+  /** The `package.json` `exports` conditions to match, in order of preference */
+  conditions?: readonly string[];
+};
+
+/** The conditions Deno matches when a package is imported */
+const DEFAULT_CONDITIONS = ["deno", "node", "import", "default"];
+
+/** The files a legacy `main` (or subpath) without an extension may refer to */
+const MAIN_FILE_SUFFIXES = ["", ".js", ".json", "/index.js", "/index.json"];
+
+/** The lockfiles package managers record the installed versions of npm packages in */
+const LOCKFILE_NAMES = [
+  "deno.lock",
+  "package-lock.json",
+  "npm-shrinkwrap.json",
+  "yarn.lock",
+  "pnpm-lock.yaml",
+  "bun.lock",
+];
+
+/**
+ * Parses an `npm:` specifier, or a bare specifier such as `"preact/hooks"`.
+ *
+ * @param specifier - The specifier, eg: "npm:@scope/pkg@^1.0.0/sub/path"
+ * @returns The package name, version range & subpath
+ * @throws When the specifier doesn't contain a package name
+ *
+ * @example
+ * ```typescript
+ * parseNpmSpecifier("npm:preact@^10.26.0/hooks");
+ * // { name: "preact", range: "^10.26.0", subpath: "./hooks" }
+ * ```
+ */
+export function parseNpmSpecifier(specifier: string): NpmSpecifier {
+  const segments = specifier.replace(/^npm:\/?/, "").split("/");
+  const nameSegments = segments[0].startsWith("@") ? 2 : 1;
+  const packageSegment = segments.slice(0, nameSegments).join("/");
+  const subpathSegments = segments.slice(nameSegments);
+
+  const versionIndex = packageSegment.indexOf("@", 1);
+  const name = versionIndex === -1 ? packageSegment : packageSegment.slice(0, versionIndex);
+  const range = versionIndex === -1 ? undefined : packageSegment.slice(versionIndex + 1);
+  if (!name || segments.length < nameSegments || !segments[nameSegments - 1]) {
+    throw new Error(`Invalid npm specifier: ${specifier}`);
+  }
+
+  return {
+    name,
+    ...(range && { range }),
+    subpath: subpathSegments.length > 0 ? `./${subpathSegments.join("/")}` : ".",
+  };
+}
+
+/**
+ * Whether a specifier is a bare package specifier, rather than a URL or path.
+ *
+ * @param specifier - The specifier, eg: "preact/hooks"
+ * @returns true unless the specifier is relative, absolute or has a scheme
+ */
+export function isBareSpecifier(specifier: string): boolean {
+  return !/^(?:\.{0,2}\/|[a-z][a-z0-9+.-]*:)/i.test(specifier);
+}
+
+/**
+ * Whether a module belongs to an npm package, ie: it lives in a `node_modules` directory or Deno's npm cache.
+ *
+ * @param url - The URL of the module
+ * @param options - Where Deno's npm cache is
+ * @returns true for modules inside npm packages
+ */
+export function isNpmPackageModule(url: string | URL, options: Pick<NpmResolveOptions, "npmCacheDir"> = {}): boolean {
+  const moduleUrl = new URL(url);
+  if (moduleUrl.protocol !== "file:") {
+    return false;
+  }
+  const path = fromFileUrl(moduleUrl);
+  return path.includes(`${SEPARATOR}node_modules${SEPARATOR}`) ||
+    path.startsWith(`${options.npmCacheDir ?? getDefaultNpmCacheDir()}${SEPARATOR}`);
+}
+
+/**
+ * Gets the module format of a JavaScript file, from the `type` of the closest `package.json`.
+ *
+ * @param url - The URL of the file
+ * @returns "module" when the closest `package.json` says so, otherwise "commonjs"
+ */
+export function getPackageType(url: string | URL): "module" | "commonjs" {
+  for (let dir = dirname(fromFileUrl(url));; dir = dirname(dir)) {
+    const packageJson = readPackageJson(dir);
+    if (packageJson) {
+      return packageJson.type === "module" ? "module" : "commonjs";
+    }
+    if (dirname(dir) === dir) {
+      return "commonjs";
+    }
+  }
+}
+
+/**
+ * Resolves an `npm:` specifier, or a bare specifier imported by a module of an npm package, to a local file.
+ *
+ * Like Node.js, the closest `node_modules` directory containing the package wins. Otherwise the highest
+ * version in Deno's npm cache satisfying the version range is used, the range of a bare specifier comes
+ * from the dependencies of the importing package. The file within the package is found through the
+ * `exports` of its `package.json`, falling back to `main` & then `index.js`.
+ *
+ * Node.js built-in modules (eg: "fs") resolve to their `node:` URL.
+ *
+ * Resolution is synchronous, so it can be used while replacing the imports of a module.
+ *
+ * @param specifier - The specifier, eg: "npm:preact@^10.26.0/hooks" or "preact/hooks"
+ * @param referrer - The URL of the importing module
+ * @param options - Where Deno's npm cache is & the conditions to match
+ * @returns The file URL of the resolved module
+ * @throws When the package isn't installed nor cached, or doesn't export the subpath
+ *
+ * @example
+ * ```typescript ignore
+ * resolveNpmSpecifier("npm:preact@^10.26.0/hooks", "file:///src/app.tsx");
+ * // file:///home/me/.cache/deno/npm/registry.npmjs.org/preact/10.26.4/hooks/dist/hooks.mjs
+ * ```
+ */
+export function resolveNpmSpecifier(
+  specifier: string,
+  referrer: string | URL,
+  options: NpmResolveOptions = {},
+): URL {
+  if (!specifier.startsWith("npm:") && isNodeBuiltin(specifier)) {
+    return new URL(specifier.startsWith("node:") ? specifier : `node:${specifier}`);
+  }
+
+  const { name, range, subpath } = parseNpmSpecifier(specifier);
+  // Remote modules look for node_modules directories from the working directory
+  const referrerPath = new URL(referrer).protocol === "file:" ? fromFileUrl(referrer) : join(Deno.cwd(), "_");
+  const packageDir = findPackageDir(
+    name,
+    range ?? getDependencyRange(name, referrerPath),
+    referrerPath,
+    options.npmCacheDir ?? getDefaultNpmCacheDir(),
+  );
+  return toFileUrl(resolvePackageSubpath(packageDir, subpath, options.conditions ?? DEFAULT_CONDITIONS));
+}
+
+/**
+ * Finds the files that decide which installed packages the npm specifiers of a module resolve to.
+ *
+ * Installing, upgrading or removing a package changes at least one of them, so they tell whether the
+ * specifiers have to be resolved again.
+ *
+ * @param referrer - The URL of the module, remote modules resolve from the working directory
+ * @returns The paths of the closest `package.json` & the closest lockfile, leaving out those that don't exist
+ *
+ * @example
+ * ```typescript ignore
+ * findNpmResolutionFiles("file:///app/src/main.ts");
+ * // ["/app/package.json", "/app/package-lock.json"]
+ * ```
+ */
+export function findNpmResolutionFiles(referrer: string | URL): string[] {
+  const referrerPath = new URL(referrer).protocol === "file:" ? fromFileUrl(referrer) : join(Deno.cwd(), "_");
+  let packageJson: string | undefined;
+  let lockfile: string | undefined;
+  for (let dir = dirname(referrerPath);; dir = dirname(dir)) {
+    packageJson ??= isFile(join(dir, "package.json")) ? join(dir, "package.json") : undefined;
+    lockfile ??= LOCKFILE_NAMES.map((name) => join(dir, name)).find(isFile);
+    if ((packageJson && lockfile) || dirname(dir) === dir) {
+      return [packageJson, lockfile].filter((path) => path !== undefined);
+    }
+  }
+}
+
+/**
+ * Gets the default location of Deno's npm cache.
+ */
+function getDefaultNpmCacheDir(): string {
+  return join(getDefaultDenoCacheDir(), "npm", "registry.npmjs.org");
+}
+
+/**
+ * Whether a specifier names a Node.js built-in module, eg: "fs" or "node:fs/promises".
+ */
+function isNodeBuiltin(specifier: string): boolean {
+  return specifier.startsWith("node:") || builtinModules.includes(specifier);
+}
+
+/**
+ * Finds the directory of a package, in the closest `node_modules` directory or Deno's npm cache.
+ */
+function findPackageDir(name: string, range: string | undefined, referrerPath: string, npmCacheDir: string): string {
+  for (let dir = dirname(referrerPath);; dir = dirname(dir)) {
+    if (basename(dir) !== "node_modules") {
+      const packageDir = join(dir, "node_modules", name);
+      if (readPackageJson(packageDir)) {
+        return packageDir;
+      }
+    }
+    if (dirname(dir) === dir) {
+      break;
+    }
+  }
+
+  // Tags, such as "latest", can't be resolved offline so any cached version will do
+  const versionRange = (range && tryParseRange(range)) || parseRange("*");
+  const versions = readDirNames(join(npmCacheDir, name)).map((version) => tryParse(version)).filter((version) =>
+    version !== undefined
+  );
+  const version = maxSatisfying(versions, versionRange);
+  if (!version) {
+    throw new Error(
+      `npm package "${name}${range ? `@${range}` : ""}" is neither installed in a node_modules directory ` +
+        `nor cached in ${npmCacheDir}, run "deno install" to cache it`,
+    );
+  }
+  return join(npmCacheDir, name, format(version));
+}
+
+/**
+ * Gets the version range the package owning a module depends on another package with.
+ */
+function getDependencyRange(name: string, referrerPath: string): string | undefined {
+  for (let dir = dirname(referrerPath);; dir = dirname(dir)) {
+    const packageJson = readPackageJson(dir);
+    if (packageJson) {
+      for (const field of ["dependencies", "peerDependencies", "optionalDependencies"]) {
+        const range = (packageJson[field] as Record<string, unknown> | undefined)?.[name];
+        if (typeof range === "string") {
+          return range;
+        }
+      }
+      return undefined;
+    }
+    if (dirname(dir) === dir) {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Resolves a subpath of a package to a file, through its `exports` or `main`.
+ */
+function resolvePackageSubpath(packageDir: string, subpath: string, conditions: readonly string[]): string {
+  const packageJson = readPackageJson(packageDir) ?? {};
+  if (packageJson.exports !== undefined && packageJson.exports !== null) {
+    const target = resolveExports(packageJson.exports, subpath, conditions);
+    if (!target) {
+      throw new Error(`Package subpath "${subpath}" is not exported by ${packageJson.name ?? packageDir}`);
+    }
+    return join(packageDir, target);
+  }
+
+  const path = join(packageDir, subpath === "." ? String(packageJson.main ?? "index.js") : subpath);
+  for (const suffix of MAIN_FILE_SUFFIXES) {
+    if (isFile(path + suffix)) {
+      return path + suffix;
+    }
+  }
+  throw new Error(`Cannot find module "${subpath}" in ${packageJson.name ?? packageDir}`);
+}
+
+/**
+ * Matches a subpath against the `exports` of a `package.json`, including `*` patterns.
+ */
+function resolveExports(exports: unknown, subpath: string, conditions: readonly string[]): string | undefined {
+  // Exports that aren't an object of subpaths only export the package itself
+  const isSubpathMap = typeof exports === "object" && !Array.isArray(exports) &&
+    Object.keys(exports as object).some((key) => key.startsWith("."));
+  const subpaths = (isSubpathMap ? exports : { ".": exports }) as Record<string, unknown>;
+
+  if (subpath in subpaths && !subpath.includes("*")) {
+    return resolveExportsTarget(subpaths[subpath], conditions, undefined);
+  }
+
+  // The pattern with the longest prefix wins
+  let bestKey: string | undefined;
+  let bestMatch: string | undefined;
+  for (const key of Object.keys(subpaths)) {
+    const starIndex = key.indexOf("*");
+    if (starIndex === -1) {
+      continue;
+    }
+    const prefix = key.slice(0, starIndex);
+    const suffix = key.slice(starIndex + 1);
+    if (
+      subpath.startsWith(prefix) && subpath.endsWith(suffix) && subpath.length >= key.length &&
+      (bestKey === undefined || prefix.length > bestKey.indexOf("*"))
+    ) {
+      bestKey = key;
+      bestMatch = subpath.slice(prefix.length, subpath.length - suffix.length);
+    }
+  }
+  return bestKey === undefined ? undefined : resolveExportsTarget(subpaths[bestKey], conditions, bestMatch);
+}
+
+/**
+ * Resolves the target of an `exports` entry, picking the first matching condition.
+ */
+function resolveExportsTarget(
+  target: unknown,
+  conditions: readonly string[],
+  patternMatch: string | undefined,
+): string | undefined {
+  if (typeof target === "string") {
+    return patternMatch === undefined ? target : target.replaceAll("*", patternMatch);
+  }
+  if (Array.isArray(target)) {
+    for (const fallback of target) {
+      const resolved = resolveExportsTarget(fallback, conditions, patternMatch);
+      if (resolved !== undefined) {
+        return resolved;
+      }
+    }
+    return undefined;
+  }
+  if (typeof target === "object" && target !== null) {
+    for (const [condition, value] of Object.entries(target)) {
+      if (condition === "default" || conditions.includes(condition)) {
+        const resolved = resolveExportsTarget(value, conditions, patternMatch);
+        if (resolved !== undefined) {
+          return resolved;
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reads the `package.json` in a directory, if there is one.
+ */
+function readPackageJson(dir: string): Record<string, unknown> | undefined {
+  try {
+    return JSON.parse(Deno.readTextFileSync(join(dir, "package.json")));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Lists the names of the entries of a directory, nothing if it doesn't exist.
+ */
+function readDirNames(dir: string): string[] {
+  try {
+    return [...Deno.readDirSync(dir)].filter((entry) => entry.isDirectory).map((entry) => entry.name);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Whether a path is an existing file.
+ */
+function isFile(path: string): boolean {
+  try {
+    return Deno.statSync(path).isFile;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,105 @@
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { parseImportMap } from "./parse_import_map.ts";
+
+const BASE_URL = "file:///project/import_map.json";
+
+describe("parseImportMap", () => {
+  it("should normalize keys, scope prefixes & addresses against the base URL", () => {
+    const { importMap, diagnostics } = parseImportMap(
+      {
+        imports: {
+          "@utils/": "./src/utils/",
+          "/lib/foo.ts": "../shared/foo.ts",
+          "lodash": "npm:lodash@^4.17.21",
+          "react": "https://esm.sh/react@19",
+        },
+        scopes: {
+          "./vendor/": { "lodash": "/vendor/lodash.js" },
+        },
+      },
+      BASE_URL,
+    );
+
+    assertEquals(importMap, {
+      imports: {
+        "@utils/": "file:///project/src/utils/",
+        "file:///lib/foo.ts": "file:///shared/foo.ts",
+        "lodash": "npm:lodash@^4.17.21",
+        "react": "https://esm.sh/react@19",
+      },
+      scopes: {
+        "file:///project/vendor/": { "lodash": "file:///vendor/lodash.js" },
+      },
+    });
+    assertEquals(diagnostics, []);
+  });
+
+  it("should leave out & report invalid entries", () => {
+    const { importMap, diagnostics } = parseImportMap(
+      `{ "imports": { "@utils/": "./src/utils", "bare": "lodash", "number": 42, "": "./empty.ts", "ok": "./ok.ts" } }`,
+      BASE_URL,
+    );
+
+    assertEquals(importMap, { imports: { "ok": "file:///project/ok.ts" } });
+    assertEquals(diagnostics.map(({ severity, path }) => [severity, path]), [
+      ["warning", ["imports", "@utils/"]],
+      ["warning", ["imports", "bare"]],
+      ["warning", ["imports", "number"]],
+      ["warning", ["imports", ""]],
+    ]);
+    assertEquals(
+      diagnostics[0].message,
+      `"@utils/" ends with a slash so its address must too, "./src/utils" doesn't, the entry is ignored`,
+    );
+  });
+
+  it("should report keys that normalize to the same specifier", () => {
+    const { importMap, diagnostics } = parseImportMap(
+      { imports: { "/test.ts": "./a.ts", "./test.ts": "./b.ts", "../test.ts": "./c.ts" } },
+      "file:///project/",
+    );
+
+    assertEquals(importMap.imports, {
+      "file:///test.ts": "file:///project/c.ts",
+      "file:///project/test.ts": "file:///project/b.ts",
+    });
+    assertEquals(diagnostics, [{
+      severity: "warning",
+      path: ["imports", "../test.ts"],
+      message: `"../test.ts" is the same specifier as "/test.ts", file:///test.ts, it overrides it`,
+    }]);
+  });
+
+  it("should report unknown top level fields, unless parsing a deno.json", () => {
+    const input = { imports: {}, integrity: {}, compilerOptions: {} };
+
+    assertEquals(parseImportMap(input, BASE_URL).diagnostics, [
+      { severity: "warning", path: ["integrity"], message: `Unknown field "integrity" is ignored` },
+      { severity: "warning", path: ["compilerOptions"], message: `Unknown field "compilerOptions" is ignored` },
+    ]);
+    assertEquals(parseImportMap(input, BASE_URL, { configFile: true }).diagnostics, []);
+  });
+
+  it("should ignore invalid sections with errors", () => {
+    const { importMap, diagnostics } = parseImportMap(
+      { imports: ["./a.ts"], scopes: { "./vendor/": "./vendor.ts", "./ok/": { "a": "./a.ts" } } },
+      BASE_URL,
+    );
+
+    assertEquals(importMap, { imports: {}, scopes: { "file:///project/ok/": { "a": "file:///project/a.ts" } } });
+    assertEquals(diagnostics.map(({ severity, path }) => [severity, path]), [
+      ["error", ["imports"]],
+      ["error", ["scopes", "./vendor/"]],
+    ]);
+  });
+
+  it("should report invalid JSON without throwing", () => {
+    const { importMap, diagnostics } = parseImportMap("{ invalid json", BASE_URL);
+
+    assertEquals(importMap, { imports: {} });
+    assertEquals(diagnostics.length, 1);
+    assertEquals(diagnostics[0].severity, "error");
+    assertEquals(diagnostics[0].message.startsWith("Invalid JSON, the import map is ignored"), true);
+  });
+});
@@ -0,0 +1,205 @@
+import type { ImportMap, Imports, Scopes } from "./import_map.ts";
+import { parseUrlLikeSpecifier } from "./import_map_resolver.ts";
+
+/**
+ * A problem found while parsing an import map.
+ */
+export type ImportMapDiagnostic = {
+  /** "error" when a whole section of the import map had to be ignored, otherwise "warning" */
+  severity: "error" | "warning";
+  /** Where the problem is, eg: `["scopes", "./vendor/", "lodash"]`, empty for the import map itself */
+  path: string[];
+  /** What is wrong & what was done about it */
+  message: string;
+};
+
+/**
+ * The result of {@linkcode parseImportMap}.
+ */
+export type ParseImportMapResult = {
+  /** The normalized import map, without the entries that had to be ignored */
+  importMap: ImportMap;
+  /** Every problem found, in the order they appear in the import map */
+  diagnostics: ImportMapDiagnostic[];
+};
+
+/**
+ * Options for {@linkcode parseImportMap}.
+ */
+export type ParseImportMapOptions = {
+  /**
+   * Whether the input is a deno.json, whose other fields aren't reported as unknown.
+   *
+   * @default false
+   */
+  configFile?: boolean;
+};
+
+/** The top level fields of an import map */
+const IMPORT_MAP_FIELDS = new Set(["imports", "scopes"]);
+
+/**
+ * Parses & normalizes an import map the way browsers do, reporting every problem instead of throwing.
+ *
+ * URL-like keys (starting with `/`, `./`, `../` or absolute URLs), scope prefixes & addresses are
+ * resolved against the base URL. Entries whose address isn't a URL, whose key ends with a slash while
+ * its address doesn't, and keys that normalize to the same specifier as an earlier one are reported.
+ * So are unknown top level fields, such as `integrity`, which are not supported.
+ *
+ * Invalid entries are left out of the import map, invalid sections are ignored as a whole.
+ *
+ * @param input - The JSON text of the import map, or the already parsed value
+ * @param baseUrl - The URL the import map is resolved against, usually its own URL
+ * @param options - Optional parsing options
+ * @returns The normalized import map along with the diagnostics
+ *
+ * @see https://html.spec.whatwg.org/multipage/webappapis.html#parse-an-import-map-string
+ *
+ * @example
+ * ```typescript
+ * const { importMap, diagnostics } = parseImportMap(
+ *   `{ "imports": { "@utils/": "./src/utils", "lodash": "npm:lodash@^4" } }`,
+ *   "file:///project/import_map.json",
+ * );
+ * // importMap: { imports: { lodash: "npm:lodash@^4" } }
+ * // diagnostics: [{ severity: "warning", path: ["imports", "@utils/"], message: "..." }]
+ * ```
+ */
+export function parseImportMap(
+  input: unknown,
+  baseUrl: string | URL,
+  options: ParseImportMapOptions = {},
+): ParseImportMapResult {
+  const diagnostics: ImportMapDiagnostic[] = [];
+  const report = (severity: ImportMapDiagnostic["severity"], path: string[], message: string) => {
+    diagnostics.push({ severity, path, message });
+  };
+
+  let value = input;
+  if (typeof input === "string") {
+    try {
+      value = JSON.parse(input);
+    } catch (error) {
+      report("error", [], `Invalid JSON, the import map is ignored: ${(error as Error).message}`);
+      return { importMap: { imports: {} }, diagnostics };
+    }
+  }
+
+  if (!isRecord(value)) {
+    report("error", [], "An import map must be a JSON object, the import map is ignored");
+    return { importMap: { imports: {} }, diagnostics };
+  }
+
+  if (!options.configFile) {
+    for (const field of Object.keys(value)) {
+      if (!IMPORT_MAP_FIELDS.has(field)) {
+        report("warning", [field], `Unknown field "${field}" is ignored`);
+      }
+    }
+  }
+
+  let imports: Imports = {};
+  if (value.imports !== undefined) {
+    if (isRecord(value.imports)) {
+      imports = parseSpecifierMap(value.imports, baseUrl, ["imports"], report);
+    } else {
+      report("error", ["imports"], `"imports" must be a JSON object, it is ignored`);
+    }
+  }
+
+  let scopes: Scopes | undefined;
+  if (value.scopes !== undefined) {
+    if (isRecord(value.scopes)) {
+      scopes = {};
+      for (const [prefix, specifierMap] of Object.entries(value.scopes)) {
+        const path = ["scopes", prefix];
+        const prefixUrl = URL.parse(prefix, baseUrl);
+        if (!prefixUrl) {
+          report("warning", path, `Scope prefix "${prefix}" isn't a valid URL, the scope is ignored`);
+        } else if (!isRecord(specifierMap)) {
+          report("error", path, `The imports of scope "${prefix}" must be a JSON object, the scope is ignored`);
+        } else {
+          if (prefixUrl.href in scopes) {
+            report("warning", path, `Scope "${prefix}" is the same scope as an earlier one, ${prefixUrl.href}`);
+          }
+          scopes[prefixUrl.href] = {
+            ...scopes[prefixUrl.href],
+            ...parseSpecifierMap(specifierMap, baseUrl, path, report),
+          };
+        }
+      }
+    } else {
+      report("error", ["scopes"], `"scopes" must be a JSON object, it is ignored`);
+    }
+  }
+
+  return { importMap: { imports, ...(scopes && { scopes }) }, diagnostics };
+}
+
+/**
+ * Normalizes the keys & addresses of a specifier map, leaving out & reporting invalid entries.
+ */
+function parseSpecifierMap(
+  specifierMap: Record<string, unknown>,
+  baseUrl: string | URL,
+  path: string[],
+  report: (severity: ImportMapDiagnostic["severity"], path: string[], message: string) => void,
+): Imports {
+  const imports: Imports = {};
+  const originalKeys = new Map<string, string>();
+  for (const [key, address] of Object.entries(specifierMap)) {
+    const entryPath = [...path, key];
+    if (key === "") {
+      report("warning", entryPath, "Empty keys are ignored");
+      continue;
+    }
+
+    const normalizedKey = parseUrlLikeSpecifier(key, baseUrl)?.href ?? key;
+    const duplicate = originalKeys.get(normalizedKey);
+    if (duplicate !== undefined) {
+      report(
+        "warning",
+        entryPath,
+        `"${key}" is the same specifier as "${duplicate}", ${normalizedKey}, it overrides it`,
+      );
+    }
+    originalKeys.set(normalizedKey, key);
+
+    if (typeof address !== "string") {
+      report("warning", entryPath, `The address of "${key}" must be a string, the entry is ignored`);
+      delete imports[normalizedKey];
+      continue;
+    }
+
+    const addressUrl = parseUrlLikeSpecifier(address, baseUrl);
+    if (!addressUrl) {
+      report(
+        "warning",
+        entryPath,
+        `The address of "${key}", "${address}", isn't a URL nor starts with "/", "./" or "../", the entry is ignored`,
+      );
+      delete imports[normalizedKey];
+      continue;
+    }
+
+    if (normalizedKey.endsWith("/") && !addressUrl.href.endsWith("/")) {
+      report(
+        "warning",
+        entryPath,
+        `"${key}" ends with a slash so its address must too, "${address}" doesn't, the entry is ignored`,
+      );
+      delete imports[normalizedKey];
+      continue;
+    }
+
+    imports[normalizedKey] = addressUrl.href;
+  }
+  return imports;
+}
+
+/**
+ * Whether the value is a plain JSON object.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,28 @@
+import ts from "typescript";
+
+/**
+ * Parses the code of a module, with parent nodes set, so its syntax tree can be walked.
+ *
+ * Never throws, invalid code is parsed as far as possible like TypeScript always does.
+ *
+ * @param code - The code of the module, TypeScript or the JavaScript it was transpiled to
+ * @param url - The URL of the module, its extension tells whether the code may contain JSX
+ * @returns The syntax tree of the module
+ */
+export function parseModule(code: string, url: string): ts.SourceFile {
+  const pathname = new URL(url).pathname;
+  return ts.createSourceFile(pathname, code, ts.ScriptTarget.Latest, true, getScriptKind(pathname));
+}
+
+/**
+ * Gets how to parse a module from its extension, plain JavaScript parses as TypeScript too.
+ */
+function getScriptKind(pathname: string): ts.ScriptKind {
+  if (pathname.endsWith(".tsx")) {
+    return ts.ScriptKind.TSX;
+  }
+  if (pathname.endsWith(".jsx")) {
+    return ts.ScriptKind.JSX;
+  }
+  return ts.ScriptKind.TS;
+}
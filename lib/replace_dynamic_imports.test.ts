@@ -0,0 +1,40 @@
+import { expect } from "@std/expect";
+import { describe, it } from "@std/testing/bdd";
+import { replaceDynamicImports } from "./replace_dynamic_imports.ts";
+
+const MODULE_URL = "file:///app/main.ts";
+
+describe("replaceDynamicImports", () => {
+  it("should route dynamic imports of computed specifiers to the hook", () => {
+    const code = "const handler = await import(`./handlers/${name}.ts`);\nconst lazy = await import(path);";
+    expect(replaceDynamicImports(code, MODULE_URL, "__import")).toBe(
+      'const handler = await globalThis.__import(`./handlers/${name}.ts`, "file:///app/main.ts", import.meta.url);\n' +
+        `const lazy = await globalThis.__import(path, "file:///app/main.ts", import.meta.url);`,
+    );
+  });
+
+  it("should keep the import options after the original URL", () => {
+    const code = `await import(file, { with: { type: "json" } });`;
+    expect(replaceDynamicImports(code, MODULE_URL, "__import")).toBe(
+      `await globalThis.__import(file, "file:///app/main.ts", import.meta.url, { with: { type: "json" } });`,
+    );
+  });
+
+  it("should leave string literals, import.meta, strings & comments alone", () => {
+    const code = [
+      `await import("./lazy.ts");`,
+      `const url = import.meta.url;`,
+      `// await import(path)`,
+      `const docs = "call import(path) to load a plugin";`,
+    ].join("\n");
+    expect(replaceDynamicImports(code, MODULE_URL, "__import")).toBe(code);
+  });
+
+  it("should route nested dynamic imports too", () => {
+    const code = `await import(await import(config).then((module) => module.path));`;
+    expect(replaceDynamicImports(code, MODULE_URL, "__import")).toBe(
+      `await globalThis.__import(await globalThis.__import(config, "file:///app/main.ts", import.meta.url)` +
+        `.then((module) => module.path), "file:///app/main.ts", import.meta.url);`,
+    );
+  });
+});
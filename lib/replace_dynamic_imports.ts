@@ -0,0 +1,77 @@
+import ts from "typescript";
+import { parseModule } from "./parse_module.ts";
+import { applyEdits, createEditSourceMap, type SourceMap, type TextEdit } from "./source_map.ts";
+
+// Cheap check for modules that can't contain a dynamic import, which are left unparsed
+const DYNAMIC_IMPORT_REGEX = /\bimport\s*\(/;
+
+/**
+ * Routes the dynamic imports of a module whose specifier is only known when they run to a global hook.
+ *
+ * `import(specifier, options)` becomes `globalThis[importHook](specifier, originalUrl, import.meta.url, options)`,
+ * so the hook can resolve the specifier relative to the original module rather than its cached copy, while the URL
+ * of the running copy tells the copies of one module that were transformed differently apart.
+ * Dynamic imports of string literals are left alone, they are part of the module graph & are
+ * rewritten along with the static imports.
+ *
+ * @param sourceCode - The source code to process
+ * @param originalUrl - The original URL of the module, passed to the hook
+ * @param importHook - The name of the global function dynamic imports are routed to
+ * @returns The source code with its dynamic imports routed to the hook
+ *
+ * @example
+ * ```typescript
+ * replaceDynamicImports("await import(`./handlers/${name}.ts`);", "file:///app/main.ts", "__tsImporterImport");
+ * // await globalThis.__tsImporterImport(`./handlers/${name}.ts`, "file:///app/main.ts", import.meta.url);
+ * ```
+ */
+export function replaceDynamicImports(sourceCode: string, originalUrl: string, importHook: string): string {
+  return applyEdits(sourceCode, findDynamicImportEdits(sourceCode, originalUrl, importHook));
+}
+
+/**
+ * Routes dynamic imports to a hook like {@linkcode replaceDynamicImports}, also returning a source map.
+ *
+ * @param sourceCode - The source code to process
+ * @param originalUrl - The original URL of the module, passed to the hook
+ * @param importHook - The name of the global function dynamic imports are routed to
+ * @returns The source code with its dynamic imports routed to the hook & a source map from it back to `sourceCode`
+ */
+export function replaceDynamicImportsWithSourceMap(
+  sourceCode: string,
+  originalUrl: string,
+  importHook: string,
+): { code: string; map: SourceMap } {
+  const edits = findDynamicImportEdits(sourceCode, originalUrl, importHook);
+  return { code: applyEdits(sourceCode, edits), map: createEditSourceMap(sourceCode, edits, originalUrl) };
+}
+
+/**
+ * Finds every dynamic import of a module whose specifier isn't a string literal, as edits routing it to the hook.
+ */
+function findDynamicImportEdits(code: string, originalUrl: string, importHook: string): TextEdit[] {
+  if (!DYNAMIC_IMPORT_REGEX.test(code)) {
+    return [];
+  }
+
+  const url = JSON.stringify(originalUrl);
+  const sourceFile = parseModule(code, originalUrl);
+  const edits: TextEdit[] = [];
+  const visit = (node: ts.Node): void => {
+    if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+      const [specifier] = node.arguments;
+      if (specifier && !ts.isStringLiteral(specifier)) {
+        edits.push({
+          start: node.expression.getStart(sourceFile),
+          end: node.expression.getEnd(),
+          text: `globalThis.${importHook}`,
+        });
+        edits.push({ start: specifier.getEnd(), end: specifier.getEnd(), text: `, ${url}, import.meta.url` });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return edits;
+}
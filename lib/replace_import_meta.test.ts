@@ -1,6 +1,12 @@
 import { expect } from "@std/expect";
 import { describe, it } from "@std/testing/bdd";
-import { createOriginalUrlComment, replaceImportMeta } from "./replace_import_meta.ts";
+import {
+  createOriginalUrlComment,
+  replaceImportMeta,
+  replaceImportMetaWithSourceMap,
+  usesImportMeta,
+} from "./replace_import_meta.ts";
+import { decodeMappings } from "./source_map.ts";
 
 describe("replaceImportMeta", () => {
   it("should replace basic import.meta.url", () => {
@@ -315,6 +321,94 @@ describe("replaceImportMeta", () => {
       `const resolved = new URL("./lib.ts", "file:///project/src/main.ts").href;`,
     );
   });
+
+  it("should leave import.meta in strings, comments & template text alone", () => {
+    const code = [
+      `// Use import.meta.url to locate assets`,
+      `/** @example import.meta.resolve("./a.ts") */`,
+      `const docs = "import.meta.url is the module URL";`,
+      "const msg = `import.meta.dirname is ${import.meta.dirname}`;",
+    ].join("\n");
+    const result = replaceImportMeta(code, "file:///test/main.ts");
+    const expectedDirname = Deno.build.os === "windows" ? `"\\\\test"` : `"/test"`;
+    expect(result).toBe(code.replace("${import.meta.dirname}", `\${${expectedDirname}}`));
+  });
+
+  it("should handle nested calls in import.meta.resolve()", () => {
+    const code = `const url = import.meta.resolve(join("a", dirname(import.meta.url)));`;
+    const result = replaceImportMeta(code, "file:///test/main.ts");
+    expect(result).toBe(
+      `const url = new URL(join("a", dirname("file:///test/main.ts")), "file:///test/main.ts").href;`,
+    );
+  });
+
+  it("should only replace real import.meta member expressions", () => {
+    const code = [
+      `const paths = { dirname: config.import.meta.dirname };`,
+      `import.meta.dirname = "/elsewhere";`,
+      `const url = import.meta["url"];`,
+    ].join("\n");
+    const result = replaceImportMeta(code, "https://example.com/main.ts");
+    expect(result).toBe([
+      `const paths = { dirname: config.import.meta.dirname };`,
+      `import.meta.dirname = "/elsewhere";`,
+      `const url = "https://example.com/main.ts";`,
+    ].join("\n"));
+  });
+
+  it("should replace import.meta.main & import.meta.env", () => {
+    const code = `if (import.meta.main) console.log(import.meta.env.HOME);`;
+    const result = replaceImportMeta(code, "file:///test/main.ts");
+    expect(result).toBe(`if (false) console.log(Deno.env.toObject().HOME);`);
+  });
+
+  it("should replace import.meta used as a whole with a copy holding the original values", () => {
+    const code = `const { url, dirname, resolve } = import.meta;`;
+    const result = replaceImportMeta(code, "file:///test/main.ts", { resolveHook: "__resolve" });
+    expect(result).toBe(
+      `const { url, dirname, resolve } = { ...import.meta, url: "file:///test/main.ts", main: false, ` +
+        `get env() { return Deno.env.toObject(); }, filename: "/test/main.ts", dirname: "/test", ` +
+        `resolve: (specifier) => globalThis.__resolve(specifier, "file:///test/main.ts", import.meta.url) };`,
+    );
+  });
+
+  it("should resolve import.meta.resolve() specifiers with the options", () => {
+    const code = `const a = import.meta.resolve("@std/path"); const b = import.meta.resolve(\`./\${name}.ts\`);`;
+    const result = replaceImportMeta(code, "file:///test/main.ts", {
+      resolveSpecifier: (specifier) => specifier === "@std/path" ? "https://jsr.io/@std/path/1.0.0/mod.ts" : undefined,
+      resolveHook: "__resolve",
+    });
+    expect(result).toBe(
+      `const a = "https://jsr.io/@std/path/1.0.0/mod.ts"; ` +
+        `const b = globalThis.__resolve(\`./\${name}.ts\`, "file:///test/main.ts", import.meta.url);`,
+    );
+  });
+});
+
+describe("usesImportMeta", () => {
+  it("should detect every use of import.meta that gets replaced", () => {
+    expect(usesImportMeta(`const url = import.meta["url"];`, "file:///test/main.ts")).toBe(true);
+    expect(usesImportMeta(`const { url } = import.meta;`, "file:///test/main.ts")).toBe(true);
+    expect(usesImportMeta(`import.meta.custom = 1; // import.meta.url`, "file:///test/main.ts")).toBe(false);
+  });
+});
+
+describe("replaceImportMetaWithSourceMap", () => {
+  it("should produce the same code as replaceImportMeta", () => {
+    const code = `const a = import.meta.url;\nconst b = import.meta.resolve("./lib.ts");\n`;
+    const { code: result } = replaceImportMetaWithSourceMap(code, "file:///project/src/main.ts");
+    expect(result).toBe(replaceImportMeta(code, "file:///project/src/main.ts"));
+  });
+
+  it("should map code after a replacement back to its original column", () => {
+    const code = `const a = import.meta.url; throw new Error(a);`;
+    const { code: result, map } = replaceImportMetaWithSourceMap(code, "file:///project/src/main.ts");
+
+    const column = result.indexOf("throw");
+    const segment = decodeMappings(map.mappings)[0].findLast(([generatedColumn]) => generatedColumn <= column)!;
+    expect(map.sources).toEqual(["file:///project/src/main.ts"]);
+    expect(segment[3] + column - segment[0]).toBe(code.indexOf("throw"));
+  });
 });
 
 describe("createOriginalUrlComment", () => {
@@ -1,66 +1,209 @@
 import { fromFileUrl } from "@std/path/from-file-url";
 import { dirname as pathDirname } from "@std/path/dirname";
+import ts from "typescript";
+import { parseModule } from "./parse_module.ts";
+import { applyEdits, createEditSourceMap, type SourceMap, type TextEdit } from "./source_map.ts";
+
+// Cheap check for modules that can't contain import.meta, which are left unparsed
+const IMPORT_META_REGEX = /\bimport\s*\.\s*meta\b/;
+
+/**
+ * Options for {@linkcode replaceImportMeta}.
+ */
+export type ReplaceImportMetaOptions = {
+  /**
+   * Resolves the string literal specifiers of `import.meta.resolve()` calls while the module is transformed.
+   * Returns undefined for the specifiers that can only be resolved when the call runs.
+   */
+  resolveSpecifier?: (specifier: string) => string | undefined;
+
+  /**
+   * The name of a global function the other `import.meta.resolve()` calls are routed to, called with the
+   * specifier, the original URL & the `import.meta.url` of the running module. Without one they are resolved
+   * relative to the original URL.
+   */
+  resolveHook?: string;
+};
 
 /**
- * Replaces all occurrences of import.meta properties in source code with their original values.
+ * Replaces the import.meta properties of a module with their original values.
+ *
+ * The module is parsed, so only real `import.meta` member expressions are replaced, never text in
+ * strings, comments or templates. `import.meta.url`, `filename` & `dirname` become the values they
+ * have in the original module, `main` becomes `false` as an imported module is never the main one,
+ * `env` becomes `Deno.env.toObject()` & `import.meta.resolve(specifier)` becomes
+ * `new URL(specifier, url).href`, unless the options resolve it otherwise. `import.meta` used as a
+ * whole, eg: `const { url } = import.meta`, becomes a copy of it with those values. Properties that
+ * are assigned to are left alone.
  *
  * @param sourceCode - The source code to process
  * @param originalUrl - The original URL to replace import.meta.url with
+ * @param options - Optional resolution of `import.meta.resolve()` calls
  * @returns The source code with import.meta properties replaced
  */
 export function replaceImportMeta(
   sourceCode: string,
   originalUrl: string,
+  options: ReplaceImportMetaOptions = {},
 ): string {
-  // Use JSON.stringify for robust escaping, then remove the quotes
-  const escapedUrl = JSON.stringify(originalUrl).slice(1, -1);
+  return applyEdits(sourceCode, findImportMetaEdits(sourceCode, originalUrl, options));
+}
 
-  // Convert file URL to path for filename and dirname
-  let filename = "";
-  let dirname = "";
+/**
+ * Replaces import.meta properties like {@linkcode replaceImportMeta}, also returning a source map.
+ *
+ * @param sourceCode - The source code to process
+ * @param originalUrl - The original URL to replace import.meta.url with
+ * @param options - Optional resolution of `import.meta.resolve()` calls
+ * @returns The source code with import.meta properties replaced & a source map from it back to `sourceCode`
+ */
+export function replaceImportMetaWithSourceMap(
+  sourceCode: string,
+  originalUrl: string,
+  options: ReplaceImportMetaOptions = {},
+): { code: string; map: SourceMap } {
+  const edits = findImportMetaEdits(sourceCode, originalUrl, options);
+  return { code: applyEdits(sourceCode, edits), map: createEditSourceMap(sourceCode, edits, originalUrl) };
+}
 
-  if (originalUrl.startsWith("file://")) {
-    // Use fromFileUrl to properly handle cross-platform paths
-    filename = fromFileUrl(originalUrl);
-    dirname = pathDirname(filename);
+/**
+ * Checks whether a module uses import.meta in a way {@linkcode replaceImportMeta} replaces.
+ *
+ * @param sourceCode - The source code to check
+ * @param originalUrl - The original URL of the module
+ * @returns Whether replacing import.meta would change the code
+ */
+export function usesImportMeta(sourceCode: string, originalUrl: string): boolean {
+  return findImportMetaEdits(sourceCode, originalUrl, {}).length > 0;
+}
 
-    // Use JSON.stringify for robust escaping, then remove the quotes
-    filename = JSON.stringify(filename).slice(1, -1);
-    dirname = JSON.stringify(dirname).slice(1, -1);
+/**
+ * Finds every import.meta property & import.meta.resolve() call of a module, as edits replacing them.
+ */
+function findImportMetaEdits(code: string, originalUrl: string, options: ReplaceImportMetaOptions): TextEdit[] {
+  if (!IMPORT_META_REGEX.test(code)) {
+    return [];
   }
 
-  // Match import.meta.url with various whitespace patterns
-  const importMetaUrlRegex = /\bimport\s*\.\s*meta\s*\.\s*url\b/g;
+  const values = getImportMetaValues(originalUrl);
+  const url = JSON.stringify(originalUrl);
+  const sourceFile = parseModule(code, originalUrl);
 
-  // Match import.meta.filename
-  const importMetaFilenameRegex = /\bimport\s*\.\s*meta\s*\.\s*filename\b/g;
+  const edits: TextEdit[] = [];
+  const visit = (node: ts.Node): void => {
+    // import.meta.resolve(specifier) is resolved now when possible, otherwise when it runs
+    if (ts.isCallExpression(node) && getImportMetaProperty(node.expression) === "resolve") {
+      const [specifier] = node.arguments;
+      const resolved = specifier && ts.isStringLiteralLike(specifier)
+        ? options.resolveSpecifier?.(specifier.text)
+        : undefined;
+      if (resolved !== undefined) {
+        edits.push({ start: node.getStart(sourceFile), end: node.getEnd(), text: JSON.stringify(resolved) });
+      } else if (specifier) {
+        // The specifier itself is visited too, it may use import.meta as well
+        const [prefix, suffix] = options.resolveHook
+          ? [`globalThis.${options.resolveHook}(`, `, ${url}, import.meta.url)`]
+          : ["new URL(", `, ${url}).href`];
+        edits.push({ start: node.getStart(sourceFile), end: specifier.getStart(sourceFile), text: prefix });
+        edits.push({ start: specifier.getEnd(), end: node.getEnd(), text: suffix });
+        visit(specifier);
+      }
+      return;
+    }
 
-  // Match import.meta.dirname
-  const importMetaDirnameRegex = /\bimport\s*\.\s*meta\s*\.\s*dirname\b/g;
+    const property = getImportMetaProperty(node);
+    if (property !== undefined && Object.hasOwn(values, property) && !isWriteTarget(node)) {
+      edits.push({ start: node.getStart(sourceFile), end: node.getEnd(), text: values[property] });
+      return;
+    }
 
-  // Match import.meta.resolve() - captures the argument
-  const importMetaResolveRegex = /\bimport\s*\.\s*meta\s*\.\s*resolve\s*\(\s*([^)]+)\s*\)/g;
+    // import.meta used as a whole, eg: `const { url } = import.meta`, becomes a copy with the original values
+    if (isImportMeta(node) && getImportMetaProperty(node.parent) === undefined && !isWriteTarget(node)) {
+      edits.push({
+        start: node.getStart(sourceFile),
+        end: node.getEnd(),
+        text: createImportMetaObject(values, options),
+      });
+      return;
+    }
 
-  // Replace all import.meta properties
-  let result = sourceCode.replace(importMetaUrlRegex, `"${escapedUrl}"`);
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
 
-  if (filename) {
-    result = result.replace(importMetaFilenameRegex, `"${filename}"`);
+  return edits;
+}
+
+/**
+ * Gets the JavaScript expression replacing each import.meta property of a module.
+ */
+function getImportMetaValues(originalUrl: string): Record<string, string> {
+  const values: Record<string, string> = {
+    url: JSON.stringify(originalUrl),
+    main: "false",
+    env: "Deno.env.toObject()",
+  };
+
+  // Only local modules have a filename & dirname
+  if (originalUrl.startsWith("file://")) {
+    // Use fromFileUrl to properly handle cross-platform paths
+    const filename = fromFileUrl(originalUrl);
+    values.filename = JSON.stringify(filename);
+    values.dirname = JSON.stringify(pathDirname(filename));
   }
 
-  if (dirname) {
-    result = result.replace(importMetaDirnameRegex, `"${dirname}"`);
+  return values;
+}
+
+/**
+ * Creates an object literal standing in for import.meta, with the original value of each property.
+ */
+function createImportMetaObject(values: Record<string, string>, options: ReplaceImportMetaOptions): string {
+  const properties = Object.entries(values)
+    .map(([property, value]) => property === "env" ? `get env() { return ${value}; }` : `${property}: ${value}`);
+  const resolve = options.resolveHook
+    ? `globalThis.${options.resolveHook}(specifier, ${values.url}, import.meta.url)`
+    : `new URL(specifier, ${values.url}).href`;
+  return `{ ...import.meta, ${properties.join(", ")}, resolve: (specifier) => ${resolve} }`;
+}
+
+/**
+ * Gets the name of the import.meta property a node accesses, eg: `url` for `import.meta.url` or `import.meta["url"]`.
+ */
+function getImportMetaProperty(node: ts.Node): string | undefined {
+  if (ts.isPropertyAccessExpression(node) && isImportMeta(node.expression)) {
+    return node.name.text;
+  }
+  if (
+    ts.isElementAccessExpression(node) && isImportMeta(node.expression) &&
+    ts.isStringLiteralLike(node.argumentExpression)
+  ) {
+    return node.argumentExpression.text;
   }
+  return undefined;
+}
 
-  // Replace import.meta.resolve() with a new URL() expression
-  result = result.replace(importMetaResolveRegex, (_match, arg) => {
-    // Create a replacement that resolves the URL relative to the original module URL
-    // Trim whitespace around the argument while preserving internal structure
-    const trimmedArg = arg.trim();
-    return `new URL(${trimmedArg}, "${escapedUrl}").href`;
-  });
+/**
+ * Whether the node is `import.meta` itself.
+ */
+function isImportMeta(node: ts.Node): boolean {
+  return ts.isMetaProperty(node) && node.keywordToken === ts.SyntaxKind.ImportKeyword && node.name.text === "meta";
+}
 
-  return result;
+/**
+ * Whether the node is assigned to, incremented or deleted, so replacing it with a value would be a syntax error.
+ */
+function isWriteTarget(node: ts.Node): boolean {
+  const parent = node.parent;
+  if (ts.isBinaryExpression(parent)) {
+    const operator = parent.operatorToken.kind;
+    return parent.left === node && operator >= ts.SyntaxKind.FirstAssignment &&
+      operator <= ts.SyntaxKind.LastAssignment;
+  }
+  if (ts.isPrefixUnaryExpression(parent) || ts.isPostfixUnaryExpression(parent)) {
+    return parent.operator === ts.SyntaxKind.PlusPlusToken || parent.operator === ts.SyntaxKind.MinusMinusToken;
+  }
+  return ts.isDeleteExpression(parent);
 }
 
 /**
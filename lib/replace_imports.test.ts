@@ -1,7 +1,8 @@
 import outdent from "@cspotcode/outdent";
 import { assertEquals } from "@std/assert";
 import { describe, it } from "@std/testing/bdd";
-import { replaceImports } from "./replace_imports.ts";
+import { replaceImports, replaceImportsWithSourceMap } from "./replace_imports.ts";
+import { decodeMappings } from "./source_map.ts";
 
 describe("replaceImports", () => {
   it("should replace import statement with double quotes", async () => {
@@ -31,7 +32,21 @@ describe("replaceImports", () => {
         return specifier;
       },
     );
-    assertEquals(result, `import { foo } from "baz";`);
+    assertEquals(result, `import { foo } from 'baz';`);
+  });
+
+  it("should keep the offsets of CRLF line endings & emoji before the specifiers", async () => {
+    const sourceCode =
+      `// 🦕 Deno\r\nimport "./polyfill.ts"; /* 🦕 */ import { foo } from './bar.ts';\r\nexport * from "./bar.ts";\r\n`;
+    const result = await replaceImports(
+      "file:///test.ts",
+      sourceCode,
+      (specifier) => specifier.replace(/\.ts$/, ".js"),
+    );
+    assertEquals(
+      result,
+      `// 🦕 Deno\r\nimport "./polyfill.js"; /* 🦕 */ import { foo } from './bar.js';\r\nexport * from "./bar.js";\r\n`,
+    );
   });
 
   it("should replace multiple import statements", async () => {
@@ -304,4 +319,38 @@ describe("replaceImports", () => {
     );
     assertEquals(result, `export type { Foo } from "baz";`);
   });
+
+  it("should leave remote specifiers to Deno unless they are replaced", async () => {
+    const sourceCode = outdent`
+      import { greet } from "https://example.com/greet.ts";
+      import { data } from "data:text/javascript,export const data = 1;";
+    `;
+    const replacer = (specifier: string) => specifier.startsWith("https:") ? "file:///vendor/greet.ts" : specifier;
+
+    assertEquals(await replaceImports("file:///test.ts", sourceCode, replacer), sourceCode);
+    assertEquals(
+      await replaceImports("file:///test.ts", sourceCode, replacer, { replaceRemote: true }),
+      outdent`
+        import { greet } from "file:///vendor/greet.ts";
+        import { data } from "data:text/javascript,export const data = 1;";
+      `,
+    );
+  });
+});
+
+describe("replaceImportsWithSourceMap", () => {
+  it("should map code after a rewritten specifier back to its original column", async () => {
+    const sourceCode = `import { foo } from "bar"; foo();`;
+    const { code, map } = await replaceImportsWithSourceMap(
+      "file:///test.ts",
+      sourceCode,
+      (specifier) => specifier === "bar" ? "file:///cache/ab/cd/abcd-bar.ts" : specifier,
+    );
+    assertEquals(code, `import { foo } from "file:///cache/ab/cd/abcd-bar.ts"; foo();`);
+
+    const column = code.lastIndexOf("foo");
+    const segment = decodeMappings(map.mappings)[0].findLast(([generatedColumn]) => generatedColumn <= column)!;
+    assertEquals(map.sources, ["file:///test.ts"]);
+    assertEquals(segment[3] + column - segment[0], sourceCode.lastIndexOf("foo"));
+  });
 });
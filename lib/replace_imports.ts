@@ -2,7 +2,8 @@ import { createCache } from "@deno/cache-dir";
 import { createGraph, init } from "@deno/graph";
 import { RequestedModuleType, ResolutionMode, Workspace } from "@deno/loader";
 import { cacheInfo } from "./cache_info.ts";
-import { findMissingImports, type Replacement } from "./find_missing_imports.ts";
+import { findMissingImports, type Replacement, toTextEdits } from "./find_missing_imports.ts";
+import { applyEdits, createEditSourceMap, type SourceMap, type TextEdit } from "./source_map.ts";
 
 // Module-level initialization state
 let denoGraphInitialized = false;
@@ -23,6 +24,26 @@ async function ensureDenoGraphInitialized(): Promise<void> {
   await initializationPromise;
 }
 
+/**
+ * Options for {@linkcode replaceImports} & {@linkcode replaceImportsWithSourceMap}.
+ */
+export type ReplaceImportsOptions = {
+  /**
+   * Whether `jsr:` specifiers are resolved to files of Deno's cache through Deno's loader, which downloads
+   * them when they aren't cached. Otherwise they are passed to the replacer like any other specifier.
+   *
+   * @default true
+   */
+  resolveJsr?: boolean;
+  /**
+   * Whether remote `http:` & `https:` specifiers are passed to the replacer, eg: to read them from a vendor directory.
+   * Otherwise they are left as they are for Deno to fetch.
+   *
+   * @default false
+   */
+  replaceRemote?: boolean;
+};
+
 /**
  * Replaces import specifiers in source code using a custom replacer function.
  *
@@ -34,6 +55,7 @@ async function ensureDenoGraphInitialized(): Promise<void> {
  * @param specifier - The module specifier (typically a file path or URL) of the source code
  * @param sourceCode - The source code containing import statements to be processed
  * @param replacer - A function that takes an import specifier and returns the replacement specifier
+ * @param options - How `jsr:` & remote specifiers are resolved
  * @returns The source code with all import specifiers replaced according to the replacer function
  *
  * @example
@@ -55,7 +77,43 @@ export async function replaceImports(
   specifier: string,
   sourceCode: string,
   replacer: (specifier: string) => string,
+  options: ReplaceImportsOptions = {},
 ): Promise<string> {
+  const edits = await collectEdits(specifier, sourceCode, replacer, options);
+  return edits.length === 0 ? sourceCode : applyEdits(sourceCode, edits);
+}
+
+/**
+ * Replaces import specifiers like {@linkcode replaceImports}, also returning a source map.
+ *
+ * @param specifier - The module specifier (typically a file path or URL) of the source code
+ * @param sourceCode - The source code containing import statements to be processed
+ * @param replacer - A function that takes an import specifier and returns the replacement specifier
+ * @param options - How `jsr:` & remote specifiers are resolved
+ * @returns The source code with all import specifiers replaced & a source map from it back to `sourceCode`
+ */
+export async function replaceImportsWithSourceMap(
+  specifier: string,
+  sourceCode: string,
+  replacer: (specifier: string) => string,
+  options: ReplaceImportsOptions = {},
+): Promise<{ code: string; map: SourceMap }> {
+  const edits = await collectEdits(specifier, sourceCode, replacer, options);
+  return {
+    code: edits.length === 0 ? sourceCode : applyEdits(sourceCode, edits),
+    map: createEditSourceMap(sourceCode, edits, specifier),
+  };
+}
+
+/**
+ * Finds every import specifier that needs replacing, as edits to the source code.
+ */
+async function collectEdits(
+  specifier: string,
+  sourceCode: string,
+  replacer: (specifier: string) => string,
+  options: ReplaceImportsOptions,
+): Promise<TextEdit[]> {
   // Ensure Deno graph is initialized
   await ensureDenoGraphInitialized();
 
@@ -66,12 +124,14 @@ export async function replaceImports(
 
   const targetModule = graph.modules.find((m) => m.specifier === specifier);
   if (!targetModule?.dependencies) {
-    return sourceCode;
+    return [];
   }
 
   const { replacements, specifierReplacements } = await collectReplacements(
     targetModule.dependencies,
     replacer,
+    options.resolveJsr ?? true,
+    options.replaceRemote ?? false,
   );
 
   // Find additional occurrences missed by deno graph
@@ -79,15 +139,10 @@ export async function replaceImports(
     sourceCode,
     specifierReplacements,
     replacements,
+    specifier,
   );
 
-  const allReplacements = [...replacements, ...missingImports];
-
-  if (allReplacements.length === 0) {
-    return sourceCode;
-  }
-
-  return applyReplacements(sourceCode, allReplacements);
+  return toTextEdits(sourceCode, [...replacements, ...missingImports]);
 }
 
 /**
@@ -132,18 +187,21 @@ async function collectReplacements(
     }
   >,
   replacer: (specifier: string) => string,
+  resolveJsr: boolean,
+  replaceRemote: boolean,
 ) {
   const replacements: Replacement[] = [];
   const specifierReplacements = new Map<string, string>();
 
   for (const dependency of dependencies) {
-    // Skip remote specifiers as we don't process them
-    if (isRemoteSpecifier(dependency.specifier)) {
+    // Skip remote specifiers as we don't process them, unless the replacer reads them from elsewhere
+    if (isDataSpecifier(dependency.specifier) || (!replaceRemote && isRemoteSpecifier(dependency.specifier))) {
       continue;
     }
 
+    // npm specifiers are left to the replacer, which resolves them to the files of the installed package
     let newSpecifier: string;
-    if (isJsrOrNpmSpecifier(dependency.specifier)) {
+    if (resolveJsr && isJsrSpecifier(dependency.specifier)) {
       newSpecifier = await denoLoader.resolve(dependency.specifier, undefined, ResolutionMode.Import);
       if (!newSpecifier.startsWith("file://")) {
         // NB: The LoadResponse returned here does include the actual code as a
@@ -207,34 +265,19 @@ function createReplacement(
 }
 
 /**
- * Applies replacements to source code.
+ * Checks if the specifier is a remote URL.
  */
-function applyReplacements(
-  sourceCode: string,
-  replacements: Replacement[],
-): string {
-  const lines = sourceCode.split("\n");
-
-  // Sort replacements in reverse order to avoid offset issues
-  replacements.sort((a, b) => a.startLine !== b.startLine ? b.startLine - a.startLine : b.startChar - a.startChar);
-
-  for (const replacement of replacements) {
-    const line = lines[replacement.startLine];
-    lines[replacement.startLine] = line.substring(0, replacement.startChar) +
-      `"${replacement.newSpecifier}"` +
-      line.substring(replacement.endChar);
-  }
-
-  return lines.join("\n");
+function isRemoteSpecifier(specifier: string): boolean {
+  return /^https?:/i.test(specifier);
 }
 
 /**
- * Checks if the specifier is a remote URL.
+ * Checks if the specifier is a data URL.
  */
-function isRemoteSpecifier(specifier: string): boolean {
-  return /^(https?:|data:)/i.test(specifier);
+function isDataSpecifier(specifier: string): boolean {
+  return /^data:/i.test(specifier);
 }
 
-function isJsrOrNpmSpecifier(specifier: string): boolean {
-  return /^(jsr:|npm:)/i.test(specifier);
+function isJsrSpecifier(specifier: string): boolean {
+  return /^jsr:/i.test(specifier);
 }
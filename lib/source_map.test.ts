@@ -0,0 +1,171 @@
+import { assertEquals, assertStringIncludes, assertThrows } from "@std/assert";
+import { decodeBase64 } from "@std/encoding/base64";
+import { describe, it } from "@std/testing/bdd";
+import {
+  applyEdits,
+  composeSourceMaps,
+  createEditSourceMap,
+  createInlineSourceMapComment,
+  type DecodedMappings,
+  decodeMappings,
+  encodeMappings,
+  parseInlineSourceMap,
+  type SourceMap,
+} from "./source_map.ts";
+
+// Finds the original line & column of the first occurrence of the text in the generated code
+function lookup(map: SourceMap, generated: string, text: string): [number, number] | undefined {
+  const offset = generated.indexOf(text);
+  const before = generated.slice(0, offset).split("\n");
+  const line = before.length - 1;
+  const column = before[line].length;
+  const segment = decodeMappings(map.mappings)[line]?.findLast(([generatedColumn]) => generatedColumn <= column);
+  return segment ? [segment[2], segment[3] + column - segment[0]] : undefined;
+}
+
+describe("encodeMappings & decodeMappings", () => {
+  it("should round trip decoded mappings", () => {
+    const lines: DecodedMappings = [
+      [[0, 0, 0, 0], [7, 0, 0, 7], [120, 0, 3, 2]],
+      [],
+      [[2, 1, 10, 0], [4, 0, 0, 1000]],
+    ];
+
+    assertEquals(decodeMappings(encodeMappings(lines)), lines);
+  });
+
+  it("should decode known mappings", () => {
+    assertEquals(decodeMappings("AAAA,OAAO;;EACE"), [[[0, 0, 0, 0], [7, 0, 0, 7]], [], [[2, 0, 1, 9]]]);
+  });
+
+  it("should ignore names and segments without an original position", () => {
+    assertEquals(decodeMappings("AAAAA,C"), [[[0, 0, 0, 0]]]);
+  });
+});
+
+describe("applyEdits", () => {
+  it("should apply edits in any order", () => {
+    const code = `import { a } from "./a.ts";\nimport { b } from "./b.ts";\n`;
+
+    const edited = applyEdits(code, [
+      { start: 46, end: 54, text: `"./b.js"` },
+      { start: 0, end: 0, text: "// banner\n" },
+      { start: 18, end: 26, text: `"./a.js"` },
+    ]);
+
+    assertEquals(edited, `// banner\nimport { a } from "./a.js";\nimport { b } from "./b.js";\n`);
+  });
+
+  it("should reject overlapping edits", () => {
+    const code = `import "./a.ts";`;
+
+    assertThrows(
+      () => applyEdits(code, [{ start: 7, end: 15, text: `"./a.js"` }, { start: 10, end: 12, text: "b" }]),
+      RangeError,
+      "Overlapping edits of offsets 7-15 & 10-12",
+    );
+    assertThrows(() => applyEdits(code, [{ start: 7, end: 20, text: "" }]), RangeError, "Invalid edit");
+    assertEquals(
+      applyEdits(code, [{ start: 7, end: 15, text: `"./a.js"` }, { start: 15, end: 15, text: " // a" }]),
+      `import "./a.js" // a;`,
+    );
+  });
+});
+
+describe("createEditSourceMap", () => {
+  it("should map unedited code exactly after a longer replacement on the same line", () => {
+    const original = `import { a } from "@lib/a"; export const b = a;\n`;
+    const edits = [{ start: 18, end: 26, text: `"file:///cache/ab/cd/abcd-a.ts"` }];
+    const generated = applyEdits(original, edits);
+
+    const map = createEditSourceMap(original, edits, "file:///src/b.ts");
+
+    assertEquals(map.sourcesContent, [original]);
+    assertEquals(lookup(map, generated, `"file:///cache`), [0, 18]);
+    assertEquals(lookup(map, generated, "export"), [0, 28]);
+    assertEquals(lookup(map, generated, "= a"), [0, 43]);
+  });
+
+  it("should shift lines after inserted lines", () => {
+    const original = `const a = 1;\nthrow new Error();\n`;
+    const edits = [{ start: 0, end: 0, text: "// banner\n// banner\n\n" }];
+    const generated = applyEdits(original, edits);
+
+    const map = createEditSourceMap(original, edits, "file:///src/a.ts");
+
+    assertEquals(decodeMappings(map.mappings).slice(0, 3), [[], [], []]);
+    assertEquals(lookup(map, generated, "const"), [0, 0]);
+    assertEquals(lookup(map, generated, "new"), [1, 6]);
+  });
+
+  it("should map code after a replacement spanning lines", () => {
+    const original = `foo(\n  1,\n  2,\n); bar();\n`;
+    const edits = [{ start: 0, end: 16, text: "foo(1, 2)" }];
+    const generated = applyEdits(original, edits);
+
+    const map = createEditSourceMap(original, edits, "file:///src/a.ts");
+
+    assertEquals(lookup(map, generated, "bar"), [3, 3]);
+  });
+});
+
+describe("composeSourceMaps", () => {
+  it("should map through both source maps", () => {
+    const original = `const a: number = 1;\nexport { a };\n`;
+    const innerEdits = [{ start: 7, end: 15, text: "" }];
+    const intermediate = applyEdits(original, innerEdits);
+    const outerEdits = [{ start: 0, end: 0, text: "// banner\n\n" }];
+    const generated = applyEdits(intermediate, outerEdits);
+
+    const map = composeSourceMaps(
+      createEditSourceMap(intermediate, outerEdits, "file:///intermediate.js"),
+      createEditSourceMap(original, innerEdits, "file:///src/a.ts"),
+    );
+
+    assertEquals(map.sources, ["file:///src/a.ts"]);
+    assertEquals(lookup(map, generated, "1;"), [0, 18]);
+    assertEquals(lookup(map, generated, "export"), [1, 0]);
+  });
+
+  it("should keep the finer grained segments of the inner source map", () => {
+    const original = `import { a } from "@lib/a"; export const b = a;\n`;
+    const innerEdits = [{ start: 18, end: 26, text: `"./a.ts"` }];
+    const intermediate = applyEdits(original, innerEdits);
+    const outerEdits = [{ start: 0, end: 0, text: "// banner\n" }];
+    const generated = applyEdits(intermediate, outerEdits);
+
+    const map = composeSourceMaps(
+      createEditSourceMap(intermediate, outerEdits, "file:///intermediate.js"),
+      createEditSourceMap(original, innerEdits, "file:///src/b.ts"),
+    );
+
+    assertEquals(map.sources, ["file:///src/b.ts"]);
+    assertEquals(lookup(map, generated, "import"), [0, 0]);
+    assertEquals(lookup(map, generated, `"./a.ts"`), [0, 18]);
+    assertEquals(lookup(map, generated, "export"), [0, 28]);
+  });
+});
+
+describe("createInlineSourceMapComment", () => {
+  it("should embed the source map as a base64 data URL", () => {
+    const map: SourceMap = { version: 3, sources: ["file:///src/a.ts"], names: [], mappings: "AAAA" };
+
+    const comment = createInlineSourceMapComment(map);
+
+    assertStringIncludes(comment, "//# sourceMappingURL=data:application/json;base64,");
+    const encoded = comment.trim().split("base64,")[1];
+    assertEquals(JSON.parse(new TextDecoder().decode(decodeBase64(encoded))), map);
+  });
+});
+
+describe("parseInlineSourceMap", () => {
+  it("should extract the source map embedded by createInlineSourceMapComment", () => {
+    const map: SourceMap = { version: 3, sources: ["file:///src/a.ts"], names: [], mappings: "AAAA" };
+
+    assertEquals(parseInlineSourceMap(`export const a = 1;\n${createInlineSourceMapComment(map)}`), map);
+  });
+
+  it("should return undefined without an inline source map", () => {
+    assertEquals(parseInlineSourceMap(`export const a = 1;\n`), undefined);
+  });
+});
@@ -0,0 +1,352 @@
+import { decodeBase64, encodeBase64 } from "@std/encoding/base64";
+
+/**
+ * A version 3 source map, see https://tc39.es/ecma426/
+ */
+export type SourceMap = {
+  version: 3;
+  file?: string;
+  sources: string[];
+  sourcesContent?: (string | null)[];
+  names: string[];
+  mappings: string;
+};
+
+/**
+ * A single decoded mapping: `[generatedColumn, sourceIndex, originalLine, originalColumn]`, all zero based.
+ */
+export type SourceMapSegment = [number, number, number, number];
+
+/**
+ * Decoded mappings, one array of segments (ordered by generated column) per generated line.
+ */
+export type DecodedMappings = SourceMapSegment[][];
+
+/**
+ * Replaces the text between two offsets of some code.
+ */
+export type TextEdit = {
+  /** Offset of the first replaced character */
+  start: number;
+  /** Offset after the last replaced character, equal to `start` for an insertion */
+  end: number;
+  /** The replacement text */
+  text: string;
+};
+
+const BASE64_CHARS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_VALUES = new Map([...BASE64_CHARS].map((char, index) => [char, index]));
+
+/**
+ * Encodes a single value as a base64 VLQ.
+ */
+function encodeVlq(value: number): string {
+  let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+  let encoded = "";
+  do {
+    let digit = vlq & 0b11111;
+    vlq >>>= 5;
+    if (vlq > 0) {
+      digit |= 0b100000;
+    }
+    encoded += BASE64_CHARS[digit];
+  } while (vlq > 0);
+  return encoded;
+}
+
+/**
+ * Encodes decoded mappings into the `mappings` field of a source map.
+ *
+ * @param lines - The segments of each generated line
+ * @returns The encoded mappings
+ */
+export function encodeMappings(lines: DecodedMappings): string {
+  let previousSource = 0;
+  let previousLine = 0;
+  let previousColumn = 0;
+
+  return lines.map((segments) => {
+    let previousGeneratedColumn = 0;
+    return segments.map(([generatedColumn, source, line, column]) => {
+      const encoded = encodeVlq(generatedColumn - previousGeneratedColumn) +
+        encodeVlq(source - previousSource) +
+        encodeVlq(line - previousLine) +
+        encodeVlq(column - previousColumn);
+      previousGeneratedColumn = generatedColumn;
+      previousSource = source;
+      previousLine = line;
+      previousColumn = column;
+      return encoded;
+    }).join(",");
+  }).join(";");
+}
+
+/**
+ * Decodes the `mappings` field of a source map.
+ *
+ * Segments without an original position are dropped, as are names.
+ *
+ * @param mappings - The encoded mappings
+ * @returns The segments of each generated line, ordered by generated column
+ */
+export function decodeMappings(mappings: string): DecodedMappings {
+  const lines: DecodedMappings = [];
+  let source = 0;
+  let line = 0;
+  let column = 0;
+
+  for (const encodedLine of mappings.split(";")) {
+    const segments: SourceMapSegment[] = [];
+    let generatedColumn = 0;
+
+    for (const encodedSegment of encodedLine.split(",")) {
+      if (!encodedSegment) {
+        continue;
+      }
+
+      const values: number[] = [];
+      let value = 0;
+      let shift = 0;
+      for (const char of encodedSegment) {
+        const digit = BASE64_VALUES.get(char);
+        if (digit === undefined) {
+          throw new SyntaxError(`Invalid character "${char}" in source map mappings`);
+        }
+        value += (digit & 0b11111) << shift;
+        if (digit & 0b100000) {
+          shift += 5;
+        } else {
+          values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+          value = 0;
+          shift = 0;
+        }
+      }
+
+      generatedColumn += values[0];
+      if (values.length >= 4) {
+        source += values[1];
+        line += values[2];
+        column += values[3];
+        segments.push([generatedColumn, source, line, column]);
+      }
+    }
+
+    lines.push(segments.sort((a, b) => a[0] - b[0]));
+  }
+
+  return lines;
+}
+
+/**
+ * Composes two source maps into one.
+ *
+ * @param outer - Maps the final code to an intermediate version of it
+ * @param inner - Maps the intermediate version to the original sources
+ * @returns A source map from the final code straight to the original sources of `inner`
+ */
+export function composeSourceMaps(outer: SourceMap, inner: SourceMap): SourceMap {
+  const innerLines = decodeMappings(inner.mappings);
+
+  const lines = decodeMappings(outer.mappings).map((segments) => {
+    const composed: SourceMapSegment[] = [];
+    segments.forEach(([generatedColumn, , line, column], index) => {
+      const innerSegments = innerLines[line] ?? [];
+      const original = findSegment(innerSegments, column);
+      if (original) {
+        // Keep the offset into the token, the inner map only has a segment where each token starts
+        composed.push([generatedColumn, original[1], original[2], original[3] + column - original[0]]);
+      }
+
+      // Carry over the finer grained inner segments within the text this outer segment covers
+      const length = (segments[index + 1]?.[0] ?? Infinity) - generatedColumn;
+      for (const innerSegment of innerSegments) {
+        if (innerSegment[0] > column && innerSegment[0] < column + length) {
+          composed.push([
+            generatedColumn + innerSegment[0] - column,
+            innerSegment[1],
+            innerSegment[2],
+            innerSegment[3],
+          ]);
+        }
+      }
+    });
+    return composed;
+  });
+
+  return {
+    version: 3,
+    file: outer.file,
+    sources: inner.sources,
+    sourcesContent: inner.sourcesContent,
+    names: [],
+    mappings: encodeMappings(lines),
+  };
+}
+
+/**
+ * Applies non-overlapping edits to some code.
+ *
+ * @param code - The code to edit
+ * @param edits - The edits, in any order
+ * @returns The edited code
+ * @throws {RangeError} When two edits overlap or an edit is out of the bounds of the code
+ */
+export function applyEdits(code: string, edits: readonly TextEdit[]): string {
+  let result = "";
+  let position = 0;
+  for (const edit of sortEdits(edits, code.length)) {
+    result += code.slice(position, edit.start) + edit.text;
+    position = edit.end;
+  }
+  return result + code.slice(position);
+}
+
+/**
+ * Sorts edits by offset, making sure none of them overlap as applying them would corrupt the code.
+ *
+ * Edits may touch, eg: an insertion right after a replaced span.
+ */
+function sortEdits(edits: readonly TextEdit[], length: number): TextEdit[] {
+  const sorted = [...edits].sort((a, b) => a.start - b.start || a.end - b.end);
+  let previous: TextEdit | undefined;
+  for (const edit of sorted) {
+    if (edit.start < 0 || edit.end < edit.start || edit.end > length) {
+      throw new RangeError(`Invalid edit of offsets ${edit.start}-${edit.end} in code of length ${length}`);
+    }
+    if (previous && edit.start < previous.end) {
+      throw new RangeError(
+        `Overlapping edits of offsets ${previous.start}-${previous.end} & ${edit.start}-${edit.end}`,
+      );
+    }
+    previous = edit;
+  }
+  return sorted;
+}
+
+/**
+ * Creates a source map that exactly describes a set of edits.
+ *
+ * Unedited code maps to itself, the replacement text of an edit maps to the start of the text it
+ * replaced & inserted text isn't mapped at all.
+ *
+ * @param original - The code before the edits
+ * @param edits - Non-overlapping edits, in any order
+ * @param source - The URL of the original code
+ * @returns A source map from the edited code to the original code
+ * @throws {RangeError} When two edits overlap or an edit is out of the bounds of the code
+ */
+export function createEditSourceMap(original: string, edits: readonly TextEdit[], source: string): SourceMap {
+  const originalLineStarts = getLineStarts(original);
+  const lines: DecodedMappings = [[]];
+  let generatedColumn = 0;
+
+  // Move the generated position past some text
+  const advance = (text: string) => {
+    const newlines = text.split("\n").length - 1;
+    for (let line = 0; line < newlines; line++) {
+      lines.push([]);
+    }
+    generatedColumn = newlines > 0 ? text.length - text.lastIndexOf("\n") - 1 : generatedColumn + text.length;
+  };
+
+  // Map each line of unedited code between two offsets of the original code to itself
+  const mapUnedited = (start: number, end: number) => {
+    for (let offset = start; offset < end;) {
+      const [line, column] = toLineColumn(originalLineStarts, offset);
+      lines[lines.length - 1].push([generatedColumn, 0, line, column]);
+      const newline = original.indexOf("\n", offset);
+      const chunkEnd = newline === -1 || newline >= end ? end : newline + 1;
+      advance(original.slice(offset, chunkEnd));
+      offset = chunkEnd;
+    }
+  };
+
+  let position = 0;
+  for (const edit of sortEdits(edits, original.length)) {
+    mapUnedited(position, edit.start);
+    if (edit.start !== edit.end && edit.text) {
+      const [line, column] = toLineColumn(originalLineStarts, edit.start);
+      lines[lines.length - 1].push([generatedColumn, 0, line, column]);
+    }
+    advance(edit.text);
+    position = edit.end;
+  }
+  mapUnedited(position, original.length);
+
+  return {
+    version: 3,
+    sources: [source],
+    sourcesContent: [original],
+    names: [],
+    mappings: encodeMappings(lines),
+  };
+}
+
+/**
+ * Creates the comment that embeds a source map in the code it describes.
+ *
+ * @param map - The source map
+ * @returns The `//# sourceMappingURL=` comment, starting with a new line
+ */
+export function createInlineSourceMapComment(map: SourceMap): string {
+  const json = new TextEncoder().encode(JSON.stringify(map));
+  return `\n//# sourceMappingURL=data:application/json;base64,${encodeBase64(json)}\n`;
+}
+
+/**
+ * Extracts the source map embedded in some code by {@linkcode createInlineSourceMapComment}.
+ *
+ * @param code - The code, typically a cached module
+ * @returns The last inline source map in the code, if any
+ */
+export function parseInlineSourceMap(code: string): SourceMap | undefined {
+  const match = code.match(/\/\/# sourceMappingURL=data:application\/json;base64,([A-Za-z0-9+/=]+)\s*$/);
+  if (!match) {
+    return undefined;
+  }
+  return JSON.parse(new TextDecoder().decode(decodeBase64(match[1]))) as SourceMap;
+}
+
+/**
+ * Finds the offset at which each line of the code starts.
+ */
+function getLineStarts(code: string): number[] {
+  const starts = [0];
+  for (let index = 0; index < code.length; index++) {
+    if (code[index] === "\n") {
+      starts.push(index + 1);
+    }
+  }
+  return starts;
+}
+
+/**
+ * Converts an offset into a zero based line & column.
+ */
+function toLineColumn(lineStarts: number[], offset: number): [number, number] {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (lineStarts[middle] <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return [low, offset - lineStarts[low]];
+}
+
+/**
+ * Finds the segment covering the column, that is the last one starting at or before it.
+ */
+function findSegment(segments: SourceMapSegment[], column: number): SourceMapSegment | undefined {
+  let found: SourceMapSegment | undefined;
+  for (const segment of segments) {
+    if (segment[0] > column) {
+      break;
+    }
+    found = segment;
+  }
+  return found;
+}
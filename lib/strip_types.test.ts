@@ -0,0 +1,127 @@
+import { expect } from "@std/expect";
+import { describe, it } from "@std/testing/bdd";
+import { applyEdits } from "./source_map.ts";
+import { findTypeStripEdits } from "./strip_types.ts";
+
+const MODULE_URL = "file:///app/main.ts";
+
+// Strips the types of the code, failing when it can't be stripped
+function strip(code: string): string {
+  const edits = findTypeStripEdits(code, MODULE_URL);
+  expect(edits).toBeDefined();
+  return applyEdits(code, edits!);
+}
+
+describe("findTypeStripEdits", () => {
+  it("should remove annotations, type parameters & type arguments in place", () => {
+    const code = [
+      `export function first<T>(items: T[], fallback?: T): T | undefined {`,
+      `  const map = new Map<string, Array<T>>();`,
+      `  return items[0] ?? fallback;`,
+      `}`,
+      `const identity = <T,>(value: T): T => value;`,
+    ].join("\n");
+    expect(strip(code)).toBe(
+      [
+        `export function first(items, fallback) {`,
+        `  const map = new Map();`,
+        `  return items[0] ?? fallback;`,
+        `}`,
+        `const identity = (value) => value;`,
+      ].join("\n"),
+    );
+  });
+
+  it("should remove declarations that only exist for the type checker", () => {
+    const code = [
+      `interface User { name: string }`,
+      `type Id = string;`,
+      `declare const version: string;`,
+      `namespace Types { export type Name = string; }`,
+      `function parse(value: string): number;`,
+      `function parse(value: unknown) { return Number(value); }`,
+    ].join("\n");
+    expect(strip(code)).toBe(`\n\n\n\n\nfunction parse(value) { return Number(value); }`);
+  });
+
+  it("should remove type-only imports & exports", () => {
+    const code = [
+      `import type { A } from "./a.ts";`,
+      `import { type B } from "./b.ts";`,
+      `import C, { type D, e } from "./c.ts";`,
+      `export type { F } from "./f.ts";`,
+      `export { type G, h } from "./g.ts";`,
+    ].join("\n");
+    expect(strip(code)).toBe(`\n\nimport C, {  e } from "./c.ts";\n\nexport {  h } from "./g.ts";`);
+  });
+
+  it("should strip classes down to their JavaScript", () => {
+    const code = [
+      `abstract class Animal<T> extends Base<T> implements Named {`,
+      `  private readonly name: string = "";`,
+      `  declare kind: string;`,
+      `  legs?: number;`,
+      `  static count!: number;`,
+      `  abstract speak(this: Animal<T>): void;`,
+      `  override rename?(name: string): void {}`,
+      `}`,
+    ].join("\n");
+    expect(strip(code)).toBe(
+      [
+        ` class Animal extends Base  {`,
+        `    name = "";`,
+        `  `,
+        `  legs;`,
+        `  static count;`,
+        `  `,
+        `   rename(name) {}`,
+        `}`,
+      ].join("\n"),
+    );
+  });
+
+  it("should remove type assertions & non-null assertions", () => {
+    const code = `const a = (value as unknown as string)!.length satisfies number;\nconst b = <string>value;`;
+    expect(strip(code)).toBe(`const a = (value).length;\nconst b = value;`);
+  });
+
+  it("should keep the statements around removed declarations apart without semicolons", () => {
+    expect(strip(`const a = [1]\ninterface Foo {}\n[2, 3].forEach(f)`)).toBe(`const a = [1]\n;\n[2, 3].forEach(f)`);
+    expect(strip(`let b = f\ntype T = 1\n(g)()`)).toBe(`let b = f\n;\n(g)()`);
+    expect(strip(`let c = d\nimport type { E } from "./e.ts"\n\`\${c}\`.trim()`)).toBe(
+      `let c = d\n;\n\`\${c}\`.trim()`,
+    );
+    expect(strip(`let g = 1\ndeclare const h: number\n-g`)).toBe(`let g = 1\n;\n-g`);
+  });
+
+  it("should keep the class members around removed members apart without semicolons", () => {
+    const code = [
+      `class A {`,
+      `  x = 1`,
+      `  declare y: number`,
+      `  ['z']() {}`,
+      `  w = 2`,
+      `  declare v: number`,
+      `  *values() {}`,
+      `}`,
+    ].join("\n");
+    expect(strip(code)).toBe(
+      [`class A {`, `  x = 1`, `  ;`, `  ['z']() {}`, `  w = 2`, `  ;`, `  *values() {}`, `}`].join("\n"),
+    );
+  });
+
+  it("should not leave semicolons where the next statement can't continue the previous one", () => {
+    expect(strip(`const a = 1\ninterface Foo {}\nconst b = 2`)).toBe(`const a = 1\n\nconst b = 2`);
+  });
+
+  it("should not strip code the compiler generates JavaScript for", () => {
+    expect(findTypeStripEdits(`enum Color { Red }`, MODULE_URL)).toBeUndefined();
+    expect(findTypeStripEdits(`namespace Utils { export const a = 1; }`, MODULE_URL)).toBeUndefined();
+    expect(findTypeStripEdits(`class A { constructor(private a: string) {} }`, MODULE_URL)).toBeUndefined();
+    expect(findTypeStripEdits(`class A { @logged method() {} }`, MODULE_URL)).toBeUndefined();
+  });
+
+  it("should leave JavaScript untouched", () => {
+    expect(findTypeStripEdits(`const add = (a, b) => a ? b : a;\nexport { add };`, MODULE_URL)).toEqual([]);
+  });
+});
@@ -0,0 +1,247 @@
+import ts from "typescript";
+import { parseModule } from "./parse_module.ts";
+import type { TextEdit } from "./source_map.ts";
+
+// Modifiers that only exist in TypeScript, removed from class members
+const TYPESCRIPT_MODIFIERS = new Set([
+  ts.SyntaxKind.PublicKeyword,
+  ts.SyntaxKind.PrivateKeyword,
+  ts.SyntaxKind.ProtectedKeyword,
+  ts.SyntaxKind.ReadonlyKeyword,
+  ts.SyntaxKind.OverrideKeyword,
+  ts.SyntaxKind.AbstractKeyword,
+]);
+
+// Characters that continue the previous statement or class member when they start the next one, without a semicolon
+const ASI_HAZARDS = new Set(["(", "[", "`", "+", "-", "/", "*"]);
+
+/**
+ * Finds the edits that strip the types of some TypeScript code, leaving JavaScript.
+ *
+ * Only TypeScript syntax is removed, everything else keeps its position relative to the code around it, so
+ * the edits describe the stripped code exactly, eg: for a source map. Type-only imports & exports are removed
+ * along with the declarations that only exist for the type checker, such as interfaces, type aliases,
+ * overloads & `declare` statements.
+ *
+ * Syntax that would need code generated for it, like enums, namespaces holding values, parameter properties &
+ * decorators, can't be stripped & has to be compiled instead.
+ *
+ * @param code - The TypeScript code to strip
+ * @param url - The URL of the code, its extension tells whether the code may contain JSX
+ * @returns The edits that remove every type from the code in order, or undefined if the code can't be stripped
+ *
+ * @example
+ * ```typescript
+ * import { applyEdits } from "./source_map.ts";
+ *
+ * const code = "export const answer: number = 42;";
+ * applyEdits(code, findTypeStripEdits(code, "file:///src/answer.ts")!);
+ * // export const answer = 42;
+ * ```
+ */
+export function findTypeStripEdits(code: string, url = "file:///module.ts"): TextEdit[] | undefined {
+  const sourceFile = parseModule(code, url);
+  const edits: TextEdit[] = [];
+
+  const remove = (start: number, end: number) => edits.push({ start, end, text: "" });
+  const removeNode = (node: ts.Node) => remove(node.getStart(sourceFile), node.getEnd());
+
+  // Remove an element of a list along with the comma following it
+  const scanner = ts.createScanner(ts.ScriptTarget.Latest, true, ts.LanguageVariant.Standard, code);
+  const removeElement = (node: ts.Node) => {
+    scanner.resetTokenState(node.getEnd());
+    const comma = scanner.scan() === ts.SyntaxKind.CommaToken;
+    remove(node.getStart(sourceFile), comma ? scanner.getTokenEnd() : node.getEnd());
+  };
+
+  // Remove a statement or class member, leaving a semicolon when the code around it would otherwise merge
+  const removeStatement = (node: ts.Node) => {
+    scanner.resetTokenState(node.getEnd());
+    scanner.scan();
+    const hazard = ASI_HAZARDS.has(code.charAt(scanner.getTokenStart()));
+    edits.push({ start: node.getStart(sourceFile), end: node.getEnd(), text: hazard ? ";" : "" });
+  };
+
+  // Remove a type annotation along with the colon in front of it
+  const removeAnnotation = (node: ts.Node, type: ts.TypeNode | undefined) => {
+    const colon = type &&
+      findToken(node, ts.SyntaxKind.ColonToken, (token) => token.getEnd() <= type.getStart(sourceFile));
+    if (type && colon) {
+      remove(colon.getStart(sourceFile), type.getEnd());
+    }
+  };
+
+  // Remove type parameters or arguments along with the angle brackets around them
+  const removeBrackets = (node: ts.Node, list: ts.NodeArray<ts.Node> | undefined) => {
+    if (!list) {
+      return;
+    }
+    const open = findToken(node, ts.SyntaxKind.LessThanToken, (token) => token.getEnd() <= list.pos);
+    const close = findToken(node, ts.SyntaxKind.GreaterThanToken, (token) => token.getStart(sourceFile) >= list.end);
+    if (open && close) {
+      remove(open.getStart(sourceFile), close.getEnd());
+    }
+  };
+
+  // Find the last token of a node matching a condition, among its direct children
+  const findToken = (node: ts.Node, kind: ts.SyntaxKind, predicate: (token: ts.Node) => boolean) => {
+    const tokens = node.getChildren(sourceFile).filter((child) => child.kind === kind && predicate(child));
+    return kind === ts.SyntaxKind.GreaterThanToken ? tokens[0] : tokens.at(-1);
+  };
+
+  let strippable = true;
+  const visit = (node: ts.Node): void => {
+    if (!strippable) {
+      return;
+    }
+    if (isTypeOnly(node)) {
+      removeStatement(node);
+      return;
+    }
+    if (needsCodeGeneration(node)) {
+      strippable = false;
+      return;
+    }
+
+    // Imports & exports of nothing but types are left out entirely
+    const specifiers = getNamedBindings(node);
+    if (specifiers) {
+      const typeOnly = specifiers.filter((specifier) => specifier.isTypeOnly);
+      if (typeOnly.length > 0 && typeOnly.length === specifiers.length && !hasDefaultImport(node)) {
+        removeStatement(node);
+        return;
+      }
+      typeOnly.forEach(removeElement);
+    }
+
+    if (ts.isParameter(node) && ts.isIdentifier(node.name) && node.name.text === "this") {
+      removeElement(node);
+      return;
+    }
+
+    if (ts.canHaveModifiers(node)) {
+      ts.getModifiers(node)?.filter((modifier) => TYPESCRIPT_MODIFIERS.has(modifier.kind)).forEach(removeNode);
+    }
+    if (ts.isClassLike(node)) {
+      node.heritageClauses?.filter((clause) => clause.token === ts.SyntaxKind.ImplementsKeyword).forEach(removeNode);
+    }
+    if ("typeParameters" in node) {
+      removeBrackets(node, node.typeParameters as ts.NodeArray<ts.Node> | undefined);
+    }
+    if ("typeArguments" in node) {
+      removeBrackets(node, node.typeArguments as ts.NodeArray<ts.Node> | undefined);
+    }
+    if ("questionToken" in node && !ts.isConditionalExpression(node) && node.questionToken) {
+      removeNode(node.questionToken as ts.Node);
+    }
+    if ("exclamationToken" in node && node.exclamationToken) {
+      removeNode(node.exclamationToken as ts.Node);
+    }
+
+    if (
+      ts.isVariableDeclaration(node) || ts.isParameter(node) || ts.isPropertyDeclaration(node) ||
+      ts.isFunctionLike(node)
+    ) {
+      removeAnnotation(node, node.type);
+    } else if (ts.isAsExpression(node) || ts.isSatisfiesExpression(node) || ts.isNonNullExpression(node)) {
+      remove(node.expression.getEnd(), node.getEnd());
+    } else if (ts.isTypeAssertionExpression(node)) {
+      remove(node.getStart(sourceFile), node.expression.getStart(sourceFile));
+    }
+
+    ts.forEachChild(node, (child) => {
+      if (!isTypeSyntax(child)) {
+        visit(child);
+      }
+    });
+  };
+  visit(sourceFile);
+
+  return strippable ? edits.sort((a, b) => a.start - b.start) : undefined;
+}
+
+/**
+ * Whether a node is syntax the compiler generates code for, eg: an enum, a parameter property or a decorator.
+ */
+function needsCodeGeneration(node: ts.Node): boolean {
+  return ts.isEnumDeclaration(node) || ts.isModuleDeclaration(node) || ts.isImportEqualsDeclaration(node) ||
+    ts.isDecorator(node) ||
+    (ts.isExportAssignment(node) && !!node.isExportEquals) ||
+    (ts.isParameter(node) && !!node.modifiers?.some((modifier) => TYPESCRIPT_MODIFIERS.has(modifier.kind)));
+}
+
+/**
+ * Whether a statement or class member only exists for the type checker, so is removed entirely.
+ */
+function isTypeOnly(node: ts.Node): boolean {
+  if (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node) || ts.isIndexSignatureDeclaration(node)) {
+    return true;
+  }
+  if (ts.canHaveModifiers(node) && ts.getModifiers(node)?.some(isErasedModifier)) {
+    return true;
+  }
+  if (ts.isImportDeclaration(node)) {
+    return node.importClause?.isTypeOnly ?? false;
+  }
+  if (ts.isExportDeclaration(node) || ts.isImportEqualsDeclaration(node)) {
+    return node.isTypeOnly;
+  }
+  if (ts.isModuleDeclaration(node)) {
+    return isTypeOnlyNamespace(node);
+  }
+
+  // Overloads & abstract methods have no body
+  return (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node) || ts.isConstructorDeclaration(node)) &&
+    !node.body;
+}
+
+/**
+ * Whether a modifier makes the declaration it is part of ambient, eg: `declare` & `abstract` class members.
+ */
+function isErasedModifier(modifier: ts.ModifierLike): boolean {
+  return modifier.kind === ts.SyntaxKind.DeclareKeyword ||
+    (modifier.kind === ts.SyntaxKind.AbstractKeyword && !ts.isClassLike(modifier.parent));
+}
+
+/**
+ * Whether a namespace only declares types, so has no runtime representation.
+ */
+function isTypeOnlyNamespace(node: ts.ModuleDeclaration): boolean {
+  const body = node.body;
+  if (!body) {
+    return true;
+  }
+  if (ts.isModuleDeclaration(body)) {
+    return isTypeOnlyNamespace(body);
+  }
+  return ts.isModuleBlock(body) && body.statements.every(isTypeOnly);
+}
+
+/**
+ * Gets the named imports or exports of an import or export declaration.
+ */
+function getNamedBindings(node: ts.Node): readonly (ts.ImportSpecifier | ts.ExportSpecifier)[] | undefined {
+  if (ts.isImportDeclaration(node)) {
+    const bindings = node.importClause?.namedBindings;
+    return bindings && ts.isNamedImports(bindings) ? bindings.elements : undefined;
+  }
+  if (ts.isExportDeclaration(node)) {
+    return node.exportClause && ts.isNamedExports(node.exportClause) ? node.exportClause.elements : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Whether an import declaration imports a default export, which is kept along with the declaration.
+ */
+function hasDefaultImport(node: ts.Node): boolean {
+  return ts.isImportDeclaration(node) && node.importClause?.name !== undefined;
+}
+
+/**
+ * Whether a node only exists in TypeScript, its children never need to be visited.
+ */
+function isTypeSyntax(node: ts.Node): boolean {
+  return (ts.isTypeNode(node) && !ts.isExpressionWithTypeArguments(node)) || ts.isTypeParameterDeclaration(node) ||
+    (ts.isHeritageClause(node) && node.token === ts.SyntaxKind.ImplementsKeyword);
+}
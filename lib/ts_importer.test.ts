@@ -1,7 +1,13 @@
+import outdent from "@cspotcode/outdent";
 import { expect } from "@std/expect";
 import { fromFileUrl } from "@std/path/from-file-url";
+import { join } from "@std/path/join";
 import { afterAll, describe, it } from "@std/testing/bdd";
+import { CacheManifest } from "./cache_manifest.ts";
+import { TsImporterError } from "./errors.ts";
 import type { ImportMap } from "./import_map.ts";
+import type { TsImporterLogEvent, TsImporterLogger } from "./logger.ts";
+import { decodeMappings } from "./source_map.ts";
 import { TsImporter } from "./ts_importer.ts";
 
 afterAll(async () => {
@@ -451,6 +457,125 @@ describe("TsImporter", () => {
     }
   });
 
+  describe("import map resolution", () => {
+    it("should resolve import.meta.resolve() through the import map, also when the call runs", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(join(tempDir, "deno.json"), JSON.stringify({ imports: { "@assets/": "./assets/" } }));
+        await Deno.writeTextFile(
+          join(tempDir, "main.ts"),
+          `export const logo = import.meta.resolve("@assets/logo.svg");\n` +
+            `export const resolveAsset = (name: string) => import.meta.resolve(\`@assets/\${name}\`);\n`,
+        );
+
+        const importer = new TsImporter({ cacheDir: join(tempDir, "cache") });
+        const module = await importer.import<{ logo: string; resolveAsset: (name: string) => string }>(
+          new URL(`file://${tempDir}/main.ts`).href,
+        );
+
+        expect(module.logo).toBe(new URL(`file://${tempDir}/assets/logo.svg`).href);
+        expect(module.resolveAsset("icons/close.svg")).toBe(new URL(`file://${tempDir}/assets/icons/close.svg`).href);
+        expect(() => module.resolveAsset("../../secrets.txt")).toThrow(TypeError);
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should log the problems of a discovered deno.json & fail when it is unusable", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(join(tempDir, "helper.ts"), `export const helper = "helper";\n`);
+        await Deno.writeTextFile(join(tempDir, "main.ts"), `export { helper } from "@app/helper";\n`);
+        await Deno.writeTextFile(
+          join(tempDir, "deno.json"),
+          JSON.stringify({ imports: { "@app/helper": "./helper.ts", "@app/utils/": "./utils" } }),
+        );
+
+        const events: TsImporterLogEvent[] = [];
+        const logger: TsImporterLogger = {
+          debug: () => {},
+          info: () => {},
+          warn: (event) => events.push(event),
+          error: () => {},
+        };
+        const importer = new TsImporter({ cacheDir: join(tempDir, "cache"), logger });
+        const module = await importer.import<{ helper: string }>(new URL(`file://${tempDir}/main.ts`).href);
+
+        expect(module.helper).toBe("helper");
+        expect(events).toEqual([{
+          type: "import-map-diagnostic",
+          path: join(tempDir, "deno.json"),
+          diagnostic: {
+            severity: "warning",
+            path: ["imports", "@app/utils/"],
+            message: `"@app/utils/" ends with a slash so its address must too, "./utils" doesn't, the entry is ignored`,
+          },
+        }]);
+
+        await Deno.writeTextFile(join(tempDir, "deno.json"), JSON.stringify({ imports: ["./helper.ts"] }));
+        await expect(new TsImporter({ cacheDir: join(tempDir, "cache") }).import(`file://${tempDir}/main.ts`))
+          .rejects.toThrow(`Invalid import map in ${join(tempDir, "deno.json")}: "imports" must be a JSON object`);
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should apply keys ending with a slash & prefer the longest matching key", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.mkdir(join(tempDir, "src", "utils", "legacy"), { recursive: true });
+        await Deno.mkdir(join(tempDir, "src", "legacy"), { recursive: true });
+        await Deno.writeTextFile(join(tempDir, "src", "utils", "strings.ts"), `export const a = "strings";\n`);
+        await Deno.writeTextFile(join(tempDir, "src", "legacy", "strings.ts"), `export const b = "legacy";\n`);
+        await Deno.writeTextFile(
+          join(tempDir, "mod.ts"),
+          outdent`
+            import { a } from "@utils/strings.ts";
+            import { b } from "@utils/legacy/strings.ts";
+
+            export const value: string = a + " " + b;
+          `,
+        );
+
+        const module = await new TsImporter({
+          cacheDir: join(tempDir, "cache"),
+          importMap: {
+            imports: {
+              "@utils/": new URL(`file://${tempDir}/src/utils/`).href,
+              "@utils/legacy/": new URL(`file://${tempDir}/src/legacy/`).href,
+            },
+          },
+        }).import<{ value: string }>(new URL(`file://${tempDir}/mod.ts`).href);
+
+        expect(module.value).toBe("strings legacy");
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should fail modules whose specifiers backtrack above their key", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.mkdir(join(tempDir, "src", "utils"), { recursive: true });
+        await Deno.writeTextFile(join(tempDir, "secret.ts"), `export const secret = 42;\n`);
+        await Deno.writeTextFile(join(tempDir, "mod.ts"), `export { secret } from "@utils/../../secret.ts";\n`);
+
+        const importer = new TsImporter({
+          cacheDir: join(tempDir, "cache"),
+          importMap: { imports: { "@utils/": new URL(`file://${tempDir}/src/utils/`).href } },
+        });
+
+        await expect(importer.import(new URL(`file://${tempDir}/mod.ts`).href)).rejects.toThrow("backtracks");
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+  });
+
   describe("deno.json import map discovery", () => {
     it("should automatically discover and apply imports from deno.json", async () => {
       // Test that imports from deno.json in the same directory are discovered and applied
@@ -568,6 +693,169 @@ describe("TsImporter", () => {
       expect(module.result).toBe("shared and shared");
     });
 
+    it("should still add the deno.json imports missing from an import map passed to import()", async () => {
+      // Test that deno.json only fills in the gaps of an explicit import map parameter
+      const testModuleUrl = new URL(
+        "./testdata/with_deno_config/main.ts",
+        import.meta.url,
+      );
+
+      const explicitImportMap: ImportMap = {
+        imports: {
+          "@test/helper": new URL("./testdata/shared.ts", import.meta.url).href,
+        },
+      };
+
+      const importer = new TsImporter({
+        cacheDir: "./.test_cache",
+      });
+
+      const module = await importer.import<{ result: string }>(
+        testModuleUrl.href,
+        explicitImportMap,
+      );
+
+      // The helper comes from the explicit import map, the utility from deno.json
+      expect(module.result).toBe("shared and utility from config");
+    });
+
+    it("should let the configured import map win with the configured-wins precedence", async () => {
+      // Test that the configured mappings are kept over those of deno.json, which only fills in the gaps
+      const testModuleUrl = new URL(
+        "./testdata/with_deno_config/main.ts",
+        import.meta.url,
+      );
+
+      const importer = new TsImporter({
+        cacheDir: "./.test_cache",
+        importMap: {
+          imports: {
+            "@test/helper": new URL("./testdata/shared.ts", import.meta.url).href,
+          },
+        },
+        importMapPrecedence: "configured-wins",
+      });
+
+      const module = await importer.import<{ result: string }>(testModuleUrl.href);
+
+      // The helper is pinned by the configured import map, the utility still comes from deno.json
+      expect(module.result).toBe("shared and utility from config");
+    });
+
+    it("should resolve workspace members by name & each module with its own deno.json", async () => {
+      const tempDir = await Deno.makeTempDir();
+      const files: Record<string, string> = {
+        "deno.json": JSON.stringify({
+          workspace: ["./packages/app", "./packages/utils"],
+          imports: { "@shared/greeting": "./shared/greeting.ts" },
+        }),
+        "shared/greeting.ts": `export const greeting = "hello";\n`,
+        "packages/app/deno.json": JSON.stringify({ name: "@ws/app", exports: "./main.ts" }),
+        "packages/app/main.ts": `import { greeting } from "@shared/greeting";\n` +
+          `import { shout } from "@ws/utils";\n` +
+          `export const result = shout(greeting);\n`,
+        "packages/utils/deno.json": JSON.stringify({
+          name: "@ws/utils",
+          exports: { ".": "./mod.ts" },
+          imports: { "@utils/casing": "./src/casing.ts" },
+        }),
+        "packages/utils/mod.ts": `import { upper } from "@utils/casing";\n` +
+          `export const shout = (text: string) => \`\${upper(text)}!\`;\n`,
+        "packages/utils/src/casing.ts": `export const upper = (text: string) => text.toUpperCase();\n`,
+      };
+
+      try {
+        for (const [path, content] of Object.entries(files)) {
+          await Deno.mkdir(join(tempDir, path, ".."), { recursive: true });
+          await Deno.writeTextFile(join(tempDir, path), content);
+        }
+
+        const importer = new TsImporter({ cacheDir: join(tempDir, "cache") });
+        const module = await importer.import<{ result: string }>(
+          new URL(`file://${tempDir}/packages/app/main.ts`).href,
+        );
+
+        expect(module.result).toBe("HELLO!");
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should not apply the deno.json of the imported module to the other workspace members", async () => {
+      const tempDir = await Deno.makeTempDir();
+      const files: Record<string, string> = {
+        "deno.json": JSON.stringify({ workspace: ["./packages/app", "./packages/utils"] }),
+        "packages/app/deno.json": JSON.stringify({ name: "@ws/app", imports: { "#name": "./name.ts" } }),
+        "packages/app/name.ts": `export const name = "app";\n`,
+        "packages/app/main.ts": `import { name } from "#name";\n` +
+          `import { describe } from "@ws/utils";\n` +
+          `export const result = \`\${name} uses \${describe()}\`;\n`,
+        "packages/utils/deno.json": JSON.stringify({
+          name: "@ws/utils",
+          exports: "./mod.ts",
+          imports: { "#name": "./name.ts" },
+        }),
+        "packages/utils/name.ts": `export const name = "utils";\n`,
+        "packages/utils/mod.ts": `import { name } from "#name";\nexport const describe = () => name;\n`,
+      };
+
+      try {
+        for (const [path, content] of Object.entries(files)) {
+          await Deno.mkdir(join(tempDir, path, ".."), { recursive: true });
+          await Deno.writeTextFile(join(tempDir, path), content);
+        }
+
+        // Both members map #name, neither one may win in the modules of the other
+        for (const importMapPrecedence of ["discovered-wins", "configured-wins"] as const) {
+          const importer = new TsImporter({
+            cacheDir: join(tempDir, "cache", importMapPrecedence),
+            importMapPrecedence,
+          });
+          const module = await importer.import<{ result: string }>(
+            new URL(`file://${tempDir}/packages/app/main.ts`).href,
+          );
+
+          expect(module.result).toBe("app uses utils");
+        }
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should follow the importMap reference of a deno.jsonc", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.mkdir(join(tempDir, "config"));
+        await Deno.writeTextFile(join(tempDir, "helper.ts"), `export const helper = "helper";\n`);
+        await Deno.writeTextFile(join(tempDir, "inline.ts"), `export const inline = "inline";\n`);
+        await Deno.writeTextFile(
+          join(tempDir, "main.ts"),
+          `export { helper } from "@app/helper";\nexport { inline } from "@app/inline";\n`,
+        );
+        await Deno.writeTextFile(
+          join(tempDir, "config", "import_map.json"),
+          JSON.stringify({ imports: { "@app/helper": "../helper.ts", "@app/inline": "../helper.ts" } }),
+        );
+        await Deno.writeTextFile(
+          join(tempDir, "deno.jsonc"),
+          `{\n  // Shared with the browser build\n  "importMap": "./config/import_map.json",\n` +
+            `  "imports": { "@app/inline": "./inline.ts" },\n}\n`,
+        );
+
+        const importer = new TsImporter({ cacheDir: join(tempDir, "cache") });
+        const module = await importer.import<{ helper: string; inline: string }>(
+          new URL(`file://${tempDir}/main.ts`).href,
+        );
+
+        // Addresses resolve against the import map file, the inline imports win over it
+        expect(module.helper).toBe("helper");
+        expect(module.inline).toBe("inline");
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
     it("should not attempt deno.json discovery for remote URLs", async () => {
       // Test that remote URLs don't trigger deno.json discovery
       // This is more of a safety test to ensure we don't try to read
@@ -636,4 +924,1251 @@ describe("TsImporter", () => {
       expect(module.result).toBe("helper from config and utility from config");
     });
   });
+
+  describe("dynamic imports", () => {
+    it("should transform modules imported dynamically with a computed specifier", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.mkdir(join(tempDir, "handlers"));
+        await Deno.writeTextFile(join(tempDir, "deno.json"), JSON.stringify({ imports: { "@lib/": "./lib/" } }));
+        await Deno.mkdir(join(tempDir, "lib"));
+        await Deno.writeTextFile(
+          join(tempDir, "lib", "format.ts"),
+          `export const format = (text: string): string => \`<\${text}>\`;\n`,
+        );
+        await Deno.writeTextFile(
+          join(tempDir, "handlers", "home.ts"),
+          `import { format } from "@lib/format.ts";\nexport const handle = (): string => format("home");\n`,
+        );
+        await Deno.writeTextFile(
+          join(tempDir, "router.ts"),
+          `export const route = async (name: string): Promise<string> => {\n` +
+            `  const { handle } = await import(\`./handlers/\${name}.ts\`);\n` +
+            `  return handle();\n` +
+            `};\n`,
+        );
+
+        const importer = new TsImporter({ cacheDir: join(tempDir, "cache") });
+        const { route } = await importer.import<{ route: (name: string) => Promise<string> }>(
+          new URL(`file://${tempDir}/router.ts`).href,
+        );
+
+        expect(await route("home")).toBe("<home>");
+        await expect(route("missing")).rejects.toThrow();
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should route each copy of a module to the importer that transformed it", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(join(tempDir, "a.ts"), `export const name = "a";\n`);
+        await Deno.writeTextFile(join(tempDir, "b.ts"), `export const name = "b";\n`);
+        await Deno.writeTextFile(
+          join(tempDir, "main.ts"),
+          outdent`
+            export const resolve = (specifier: string): string => import.meta.resolve(specifier);
+            export const load = async (specifier: string): Promise<string> => (await import(specifier)).name;
+          `,
+        );
+
+        type Module = { resolve: (specifier: string) => string; load: (specifier: string) => Promise<string> };
+        const moduleUrl = new URL(`file://${tempDir}/main.ts`).href;
+        const createImporter = (name: string) =>
+          new TsImporter({
+            cacheDir: join(tempDir, "cache"),
+            importMap: { imports: { "#dep": new URL(`file://${tempDir}/${name}.ts`).href } },
+          });
+        const importerA = createImporter("a");
+        const importerB = createImporter("b");
+        const a = await importerA.import<Module>(moduleUrl);
+        const b = await importerB.import<Module>(moduleUrl);
+
+        // Both import the same module, each copy keeps resolving with the import map of its own importer
+        expect(a.resolve("#dep")).toBe(new URL(`file://${tempDir}/a.ts`).href);
+        expect(b.resolve("#dep")).toBe(new URL(`file://${tempDir}/b.ts`).href);
+        expect(await a.load("#dep")).toBe("a");
+        expect(await b.load("#dep")).toBe("b");
+
+        // A forgotten copy is no longer routed to its importer, the other one still is
+        await importerA.invalidate(moduleUrl);
+        expect(a.resolve("#dep")).toBe(`${moduleUrl}#dep`);
+        expect(b.resolve("#dep")).toBe(new URL(`file://${tempDir}/b.ts`).href);
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should keep the import attributes of dynamic imports with a computed specifier", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.mkdir(join(tempDir, "locales"));
+        await Deno.writeTextFile(join(tempDir, "locales", "en.json"), `{ "greeting": "Hello" }`);
+        await Deno.writeTextFile(
+          join(tempDir, "i18n.ts"),
+          outdent`
+            export const load = async (locale: string): Promise<{ greeting: string }> =>
+              (await import(\`./locales/\${locale}.json\`, { with: { type: "json" } })).default;
+            export const loadNative = async (url: string): Promise<{ greeting: string }> =>
+              (await import(url, { with: { type: "json" } })).default;
+          `,
+        );
+
+        const importer = new TsImporter({ cacheDir: join(tempDir, "cache") });
+        const { load, loadNative } = await importer.import<{
+          load: (locale: string) => Promise<{ greeting: string }>;
+          loadNative: (url: string) => Promise<{ greeting: string }>;
+        }>(new URL(`file://${tempDir}/i18n.ts`).href);
+
+        expect(await load("en")).toEqual({ greeting: "Hello" });
+        // data: URLs are imported natively
+        expect(await loadNative(`data:application/json,{"greeting":"Hi"}`)).toEqual({ greeting: "Hi" });
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+  });
+
+  describe("JSX & TSX", () => {
+    // A tiny string based runtime, exposing both the automatic & the precompile runtime functions
+    const runtime = outdent`
+      type Html = { html: string };
+      type Props = Record<string, unknown> & { children?: unknown };
+
+      export const toHtml = (node: unknown): string => {
+        if (Array.isArray(node)) return node.map(toHtml).join("");
+        if (node === null || node === undefined || node === false) return "";
+        if (typeof node === "object" && "html" in node) return (node as Html).html;
+        return String(node).replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;");
+      };
+
+      export function jsx(type: string | ((props: Props) => unknown), props: Props): Html {
+        if (typeof type === "function") return { html: toHtml(type(props)) };
+        const { children, ...attributes } = props;
+        const attrs = Object.entries(attributes).map(([name, value]) => \` \${name}="\${value}"\`).join("");
+        return { html: \`<\${type}\${attrs}>\${toHtml(children)}</\${type}>\` };
+      }
+      export const jsxs = jsx;
+      export const jsxEscape = (value: unknown): Html => ({ html: toHtml(value) });
+      export const jsxAttr = (name: string, value: unknown): Html => ({ html: \`\${name}="\${value}"\` });
+      export const jsxTemplate = (strings: string[], ...values: unknown[]): Html => ({
+        html: strings.reduce((html, string, index) => html + toHtml(values[index - 1]) + string),
+      });
+    `;
+
+    for (const jsx of ["react-jsx", "precompile"]) {
+      it(`should render TSX components with the "${jsx}" transform & an import mapped jsxImportSource`, async () => {
+        const tempDir = await Deno.makeTempDir();
+
+        try {
+          await Deno.mkdir(join(tempDir, "runtime"));
+          await Deno.writeTextFile(join(tempDir, "runtime", "jsx-runtime.ts"), runtime);
+          await Deno.writeTextFile(
+            join(tempDir, "deno.json"),
+            JSON.stringify({
+              imports: { "my-jsx/jsx-runtime": "./runtime/jsx-runtime.ts" },
+              compilerOptions: { jsx, jsxImportSource: "my-jsx" },
+            }),
+          );
+          await Deno.writeTextFile(
+            join(tempDir, "card.tsx"),
+            `export const Card = ({ title, children }: { title: string; children?: unknown }) => (\n  <section class="card"><h1>{title}</h1>{children}</section>\n);\n`,
+          );
+          await Deno.writeTextFile(
+            join(tempDir, "page.tsx"),
+            outdent`
+              import { toHtml } from "my-jsx/jsx-runtime";
+              import { Card } from "./card.tsx";
+
+              export const render = (name: string): string => toHtml(<main><Card title="Hi">{name} &amp; co</Card></main>);
+            `,
+          );
+
+          const module = await new TsImporter({ cacheDir: join(tempDir, "cache") }).import<
+            { render: (name: string) => string }
+          >(new URL(`file://${tempDir}/page.tsx`).href);
+
+          expect(module.render("<you>")).toBe(
+            `<main><section class="card"><h1>Hi</h1>&lt;you&gt; &amp; co</section></main>`,
+          );
+        } finally {
+          await Deno.remove(tempDir, { recursive: true });
+        }
+      });
+    }
+  });
+
+  describe("JSON, WebAssembly & other assets", () => {
+    // Exports get(), returning the result of the value() function it imports from "env"
+    const wasm = new Uint8Array([
+      ...[0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00],
+      ...[0x01, 0x05, 0x01, 0x60, 0x00, 0x01, 0x7f],
+      ...[0x02, 0x0d, 0x01, 0x03, ...new TextEncoder().encode("env"), 0x05, ...new TextEncoder().encode("value")],
+      ...[0x00, 0x00],
+      ...[0x03, 0x02, 0x01, 0x00],
+      ...[0x07, 0x07, 0x01, 0x03, ...new TextEncoder().encode("get"), 0x00, 0x01],
+      ...[0x0a, 0x06, 0x01, 0x04, 0x00, 0x10, 0x00, 0x0b],
+    ]);
+
+    it("should import JSON modules, keeping their import attributes", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        const json = `{ "name": "deno-ts-importer" }\n`;
+        await Deno.writeTextFile(join(tempDir, "data.json"), json);
+        await Deno.writeTextFile(
+          join(tempDir, "mod.ts"),
+          `import data from "./data.json" with { type: "json" };\nexport const name: string = data.name;\n`,
+        );
+
+        const cacheDir = join(tempDir, "cache");
+        const module = await new TsImporter({ cacheDir }).import<{ name: string }>(
+          new URL(`file://${tempDir}/mod.ts`).href,
+        );
+        expect(module.name).toBe("deno-ts-importer");
+
+        const { cacheUrl } = (await CacheManifest.load(cacheDir)).get(new URL(`file://${tempDir}/data.json`).href)!;
+        expect(cacheUrl.endsWith("-data.json")).toBe(true);
+        expect(await Deno.readTextFile(fromFileUrl(cacheUrl))).toBe(json);
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should import a JSON module directly", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(join(tempDir, "data.json"), `{ "answer": 42 }`);
+
+        const module = await new TsImporter({ cacheDir: join(tempDir, "cache") }).import<
+          { default: { answer: number } }
+        >(new URL(`file://${tempDir}/data.json`).href);
+
+        expect(module.default).toEqual({ answer: 42 });
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should import WebAssembly modules, linking their imports through the import map", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeFile(join(tempDir, "answer.wasm"), wasm);
+        await Deno.writeTextFile(join(tempDir, "env.ts"), `export const value = (): number => 42;\n`);
+        await Deno.writeTextFile(join(tempDir, "deno.json"), JSON.stringify({ imports: { env: "./env.ts" } }));
+        await Deno.writeTextFile(
+          join(tempDir, "mod.ts"),
+          `import { get } from "./answer.wasm";\nexport const answer: number = get();\n`,
+        );
+
+        const cacheDir = join(tempDir, "cache");
+        const module = await new TsImporter({ cacheDir }).import<{ answer: number }>(
+          new URL(`file://${tempDir}/mod.ts`).href,
+        );
+        expect(module.answer).toBe(42);
+
+        const manifest = await CacheManifest.load(cacheDir);
+        const { cacheUrl, dependencies } = manifest.get(new URL(`file://${tempDir}/answer.wasm`).href)!;
+        expect(dependencies).toEqual([new URL(`file://${tempDir}/env.ts`).href]);
+        expect(await Deno.readFile(fromFileUrl(cacheUrl))).not.toEqual(wasm);
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+  });
+
+  describe("npm packages", () => {
+    // An ES module package importing a CommonJS package, both installed in a node_modules directory
+    const writePackages = async (dir: string) => {
+      const esm = join(dir, "node_modules", "esm-pkg");
+      await Deno.mkdir(esm, { recursive: true });
+      await Deno.writeTextFile(
+        join(esm, "package.json"),
+        JSON.stringify({
+          name: "esm-pkg",
+          version: "1.0.0",
+          type: "module",
+          exports: { ".": { require: "./index.cjs", import: "./index.js" } },
+          dependencies: { "cjs-pkg": "^2.0.0" },
+        }),
+      );
+      await Deno.writeTextFile(
+        join(esm, "index.js"),
+        `import { base } from "cjs-pkg";\nexport const sum = (value) => value + base;\n`,
+      );
+
+      const cjs = join(dir, "node_modules", "cjs-pkg");
+      await Deno.mkdir(cjs, { recursive: true });
+      await Deno.writeTextFile(join(cjs, "package.json"), JSON.stringify({ name: "cjs-pkg", main: "./lib" }));
+      await Deno.writeTextFile(join(cjs, "lib.js"), `const base = 40;\nmodule.exports = { base };\n`);
+    };
+
+    it("should resolve npm: specifiers to the files of installed packages", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await writePackages(tempDir);
+        await Deno.writeTextFile(
+          join(tempDir, "mod.ts"),
+          outdent`
+            import { sum } from "npm:esm-pkg@^1.0.0";
+            import cjs from "npm:cjs-pkg";
+
+            export const answer: number = sum(2);
+            export const base: number = cjs.base;
+          `,
+        );
+
+        const cacheDir = join(tempDir, "cache");
+        const moduleUrl = new URL(`file://${tempDir}/mod.ts`).href;
+        const module = await new TsImporter({ cacheDir }).import<{ answer: number; base: number }>(moduleUrl);
+        expect(module.answer).toBe(42);
+        expect(module.base).toBe(40);
+
+        const manifest = await CacheManifest.load(cacheDir);
+        expect([...manifest.get(moduleUrl)!.dependencies].sort()).toEqual([
+          new URL(`file://${tempDir}/node_modules/cjs-pkg/lib.js`).href,
+          new URL(`file://${tempDir}/node_modules/esm-pkg/index.js`).href,
+        ]);
+        expect(await Deno.readTextFile(fromFileUrl(manifest.get(moduleUrl)!.cacheUrl))).not.toContain("npm:");
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should resolve bare specifiers import mapped to npm: specifiers", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await writePackages(tempDir);
+        await Deno.writeTextFile(
+          join(tempDir, "deno.json"),
+          JSON.stringify({ imports: { "esm-pkg": "npm:esm-pkg@^1.0.0" } }),
+        );
+        await Deno.writeTextFile(
+          join(tempDir, "mod.ts"),
+          `import { sum } from "esm-pkg";\nexport const answer: number = sum(2);\n`,
+        );
+
+        const module = await new TsImporter({ cacheDir: join(tempDir, "cache") }).import<{ answer: number }>(
+          new URL(`file://${tempDir}/mod.ts`).href,
+        );
+        expect(module.answer).toBe(42);
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should re-resolve npm: specifiers once the lockfile records an upgrade", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        const pkg = join(tempDir, "node_modules", "cjs-pkg");
+        await Deno.mkdir(pkg, { recursive: true });
+        await Deno.writeTextFile(join(pkg, "package.json"), JSON.stringify({ name: "cjs-pkg", main: "./v1.js" }));
+        await Deno.writeTextFile(join(pkg, "v1.js"), `module.exports = { version: 1 };\n`);
+        await Deno.writeTextFile(join(pkg, "v2.js"), `module.exports = { version: 2 };\n`);
+        await Deno.writeTextFile(
+          join(tempDir, "package.json"),
+          JSON.stringify({ dependencies: { "cjs-pkg": "^1.0.0" } }),
+        );
+        await Deno.writeTextFile(
+          join(tempDir, "package-lock.json"),
+          JSON.stringify({ packages: { "cjs-pkg": "1.0.0" } }),
+        );
+        await Deno.writeTextFile(
+          join(tempDir, "mod.ts"),
+          `import cjs from "npm:cjs-pkg";\nexport const version: number = cjs.version;\n`,
+        );
+
+        const cacheDir = join(tempDir, "cache");
+        const moduleUrl = new URL(`file://${tempDir}/mod.ts`).href;
+        expect((await new TsImporter({ cacheDir }).import<{ version: number }>(moduleUrl)).version).toBe(1);
+
+        // Upgrading the package points its main at another file, leaving the module itself untouched
+        await Deno.writeTextFile(join(pkg, "package.json"), JSON.stringify({ name: "cjs-pkg", main: "./v2.js" }));
+        await Deno.writeTextFile(
+          join(tempDir, "package.json"),
+          JSON.stringify({ dependencies: { "cjs-pkg": "^2.0.0" } }),
+        );
+        await Deno.writeTextFile(
+          join(tempDir, "package-lock.json"),
+          JSON.stringify({ packages: { "cjs-pkg": "2.0.0" } }),
+        );
+
+        expect((await new TsImporter({ cacheDir }).import<{ version: number }>(moduleUrl)).version).toBe(2);
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should load local CommonJS modules through require()", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(join(tempDir, "greet.cjs"), `exports.greet = (name) => \`Hello \${name}\`;\n`);
+        await Deno.writeTextFile(
+          join(tempDir, "mod.ts"),
+          `import { greet } from "./greet.cjs";\nexport const message: string = greet("Deno");\n`,
+        );
+
+        const module = await new TsImporter({ cacheDir: join(tempDir, "cache") }).import<{ message: string }>(
+          new URL(`file://${tempDir}/mod.ts`).href,
+        );
+        expect(module.message).toBe("Hello Deno");
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+  });
+
+  describe("offline mode", () => {
+    // Imports the module, resolving with the error it fails with
+    const importError = (importer: TsImporter, url: string): Promise<TsImporterError> =>
+      importer.import(url).then(
+        () => {
+          throw new Error(`Expected importing ${url} to fail`);
+        },
+        (error) => error,
+      );
+
+    // A remote module & a JSR package, vendored the way Deno lays them out
+    const writeVendorDir = async (vendorDir: string) => {
+      await Deno.mkdir(join(vendorDir, "example.com"), { recursive: true });
+      await Deno.writeTextFile(
+        join(vendorDir, "example.com", "greet.ts"),
+        `export const greet = (name: string): string => \`Hello \${name}\`;\n`,
+      );
+
+      const packageDir = join(vendorDir, "jsr.io", "@scope", "pkg");
+      await Deno.mkdir(join(packageDir, "1.2.0"), { recursive: true });
+      await Deno.writeTextFile(join(packageDir, "meta.json"), JSON.stringify({ versions: { "1.2.0": {} } }));
+      await Deno.writeTextFile(join(packageDir, "1.2.0_meta.json"), JSON.stringify({ exports: { ".": "./mod.ts" } }));
+      await Deno.writeTextFile(join(packageDir, "1.2.0", "mod.ts"), `export { shout } from "./shout.ts";\n`);
+      await Deno.writeTextFile(
+        join(packageDir, "1.2.0", "shout.ts"),
+        `export const shout = (text: string): string => text.toUpperCase();\n`,
+      );
+    };
+
+    it("should read remote & jsr: modules from the vendor directory", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await writeVendorDir(join(tempDir, "vendor"));
+        await Deno.writeTextFile(
+          join(tempDir, "mod.ts"),
+          outdent`
+            import { greet } from "https://example.com/greet.ts";
+            import { shout } from "jsr:@scope/pkg@^1.0.0";
+
+            export const message: string = shout(greet("Deno"));
+          `,
+        );
+
+        const module = await new TsImporter({
+          cacheDir: join(tempDir, "cache"),
+          offline: true,
+          vendorDir: join(tempDir, "vendor"),
+        }).import<{ message: string }>(new URL(`file://${tempDir}/mod.ts`).href);
+
+        expect(module.message).toBe("HELLO DENO");
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should name the expected vendor path of a module that isn't vendored", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await writeVendorDir(join(tempDir, "vendor"));
+        await Deno.writeTextFile(
+          join(tempDir, "mod.ts"),
+          `export { missing } from "https://example.com/missing.ts";\n`,
+        );
+
+        const error = await importError(
+          new TsImporter({
+            cacheDir: join(tempDir, "cache"),
+            offline: true,
+            vendorDir: join(tempDir, "vendor"),
+            failureMode: "strict",
+          }),
+          new URL(`file://${tempDir}/mod.ts`).href,
+        );
+
+        expect(error).toBeInstanceOf(TsImporterError);
+        expect(error.message).toContain(
+          `Cannot load https://example.com/missing.ts while offline, it is not vendored at ${
+            join(tempDir, "vendor", "example.com", "missing.ts")
+          }`,
+        );
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should fail jsr: specifiers of packages that aren't vendored", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await writeVendorDir(join(tempDir, "vendor"));
+        await Deno.writeTextFile(join(tempDir, "mod.ts"), `export * from "jsr:@scope/other@^1.0.0";\n`);
+
+        const error = await importError(
+          new TsImporter({
+            cacheDir: join(tempDir, "cache"),
+            offline: true,
+            vendorDir: join(tempDir, "vendor"),
+            failureMode: "strict",
+          }),
+          new URL(`file://${tempDir}/mod.ts`).href,
+        );
+
+        expect(error).toBeInstanceOf(TsImporterError);
+        expect(error.message).toContain("jsr:@scope/other@^1.0.0 is not vendored");
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+  });
+
+  describe("prepare", () => {
+    it("should cache & vendor a module graph without evaluating it", async () => {
+      const tempDir = await Deno.makeTempDir();
+      const server = Deno.serve(
+        { port: 0, hostname: "127.0.0.1", onListen: () => {} },
+        () => new Response(`export const greet = (name: string): string => \`Hello \${name}\`;\n`),
+      );
+
+      try {
+        await Deno.writeTextFile(
+          join(tempDir, "mod.ts"),
+          outdent`
+            import { greet } from "http://127.0.0.1:${server.addr.port}/greet.ts";
+
+            globalThis.evaluated = true;
+            export const message: string = greet("Deno");
+          `,
+        );
+
+        const cacheDir = join(tempDir, "cache");
+        const moduleUrl = new URL(`file://${tempDir}/mod.ts`).href;
+        const prepared = await new TsImporter({ cacheDir }).prepare([moduleUrl]);
+
+        expect(prepared).toEqual([moduleUrl, `http://127.0.0.1:${server.addr.port}/greet.ts`]);
+        expect("evaluated" in globalThis).toBe(false);
+        expect(await Deno.readTextFile(join(cacheDir, "vendor", `127.0.0.1_PORT${server.addr.port}`, "greet.ts")))
+          .toContain("Hello");
+      } finally {
+        await server.shutdown();
+      }
+
+      try {
+        // Another process, offline, reuses everything that was prepared
+        const events: TsImporterLogEvent[] = [];
+        const logger: TsImporterLogger = {
+          debug: (event) => events.push(event),
+          info: (event) => events.push(event),
+          warn: (event) => events.push(event),
+          error: (event) => events.push(event),
+        };
+        const module = await new TsImporter({ cacheDir: join(tempDir, "cache"), offline: true, logger })
+          .import<{ message: string }>(new URL(`file://${tempDir}/mod.ts`).href);
+
+        expect(module.message).toBe("Hello Deno");
+        expect(events.filter((event) => event.type === "module-transpiled")).toEqual([]);
+      } finally {
+        delete (globalThis as { evaluated?: boolean }).evaluated;
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should vendor the modules already imported from the same cache directory", async () => {
+      const tempDir = await Deno.makeTempDir();
+      const server = Deno.serve(
+        { port: 0, hostname: "127.0.0.1", onListen: () => {} },
+        () => new Response(`export const greet = (name: string): string => \`Hello \${name}\`;\n`),
+      );
+
+      try {
+        await Deno.writeTextFile(
+          join(tempDir, "mod.ts"),
+          outdent`
+            import { greet } from "http://127.0.0.1:${server.addr.port}/greet.ts";
+
+            export const message: string = greet("Deno");
+          `,
+        );
+
+        const cacheDir = join(tempDir, "cache");
+        const moduleUrl = new URL(`file://${tempDir}/mod.ts`).href;
+        const importer = new TsImporter({ cacheDir });
+        const module = await importer.import<{ message: string }>(moduleUrl);
+        expect(module.message).toBe("Hello Deno");
+
+        const prepared = await importer.prepare([moduleUrl]);
+
+        expect(prepared).toEqual([moduleUrl, `http://127.0.0.1:${server.addr.port}/greet.ts`]);
+        expect(await Deno.readTextFile(join(cacheDir, "vendor", `127.0.0.1_PORT${server.addr.port}`, "greet.ts")))
+          .toContain("Hello");
+      } finally {
+        await server.shutdown();
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+    it("should vendor every remote module of the graph for importing offline", async () => {
+      const tempDir = await Deno.makeTempDir();
+      const server = Deno.serve({ port: 0, hostname: "127.0.0.1", onListen: () => {} }, (request) => {
+        const origin = new URL(request.url).origin;
+        switch (new URL(request.url).pathname) {
+          case "/greet.ts":
+            return new Response(
+              `import { suffix } from "${origin}/lib/suffix.ts";\n` +
+                `export const greet = (name: string): string => \`Hello \${name}\${suffix}\`;\n`,
+            );
+          case "/lib/suffix.ts":
+            return new Response(`export { suffix } from "./punctuation.ts";\n`);
+          case "/lib/punctuation.ts":
+            return new Response(`export const suffix: string = "!";\n`);
+          default:
+            return new Response("Not Found", { status: 404 });
+        }
+      });
+      const host = `127.0.0.1_PORT${server.addr.port}`;
+
+      try {
+        await Deno.writeTextFile(
+          join(tempDir, "mod.ts"),
+          `import { greet } from "http://127.0.0.1:${server.addr.port}/greet.ts";\n` +
+            `export const message: string = greet("Deno");\n`,
+        );
+
+        await new TsImporter({ cacheDir: join(tempDir, "cache") }).prepare([
+          new URL(`file://${tempDir}/mod.ts`).href,
+        ]);
+      } finally {
+        await server.shutdown();
+      }
+
+      try {
+        const vendorDir = join(tempDir, "cache", "vendor", host);
+        expect(await Deno.readTextFile(join(vendorDir, "greet.ts"))).toContain("Hello");
+        expect(await Deno.readTextFile(join(vendorDir, "lib", "suffix.ts"))).toContain("./punctuation.ts");
+        expect(await Deno.readTextFile(join(vendorDir, "lib", "punctuation.ts"))).toContain(`"!"`);
+
+        // The server is gone, so every remote module has to come from the vendor directory
+        const module = await new TsImporter({ cacheDir: join(tempDir, "cache"), offline: true })
+          .import<{ message: string }>(new URL(`file://${tempDir}/mod.ts`).href);
+
+        expect(module.message).toBe("Hello Deno!");
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+  });
+
+  describe("deno.json compiler options discovery", () => {
+    const decorated = `function log(_target: object, _key: string) {}\nexport class A {\n  @log name = "a";\n}\n`;
+
+    it("should apply the compiler options of the deno.json owning each module", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.mkdir(join(tempDir, "a"));
+        await Deno.mkdir(join(tempDir, "b"));
+        await Deno.writeTextFile(join(tempDir, "a", "mod.ts"), decorated);
+        await Deno.writeTextFile(join(tempDir, "b", "mod.ts"), decorated);
+        await Deno.writeTextFile(
+          join(tempDir, "b", "deno.json"),
+          JSON.stringify({ compilerOptions: { emitDecoratorMetadata: true } }),
+        );
+
+        const cacheDir = join(tempDir, "cache");
+        const importer = new TsImporter({
+          cacheDir,
+          tsTranspileMode: "transpile",
+          tsCompilerOptions: { experimentalDecorators: true },
+        });
+        const a = new URL(`file://${tempDir}/a/mod.ts`).href;
+        const b = new URL(`file://${tempDir}/b/mod.ts`).href;
+        await importer.import(a);
+        await importer.import(b);
+
+        const manifest = await CacheManifest.load(cacheDir);
+        const aCode = await Deno.readTextFile(fromFileUrl(manifest.get(a)!.cacheUrl));
+        const bCode = await Deno.readTextFile(fromFileUrl(manifest.get(b)!.cacheUrl));
+        expect(aCode).toContain("__decorate");
+        expect(aCode).not.toContain("__metadata");
+        expect(bCode).toContain("__decorate");
+        expect(bCode).toContain("__metadata");
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should compile the legacy decorators enabled by deno.json in strip mode", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(join(tempDir, "mod.ts"), decorated);
+        await Deno.writeTextFile(
+          join(tempDir, "deno.json"),
+          JSON.stringify({ compilerOptions: { experimentalDecorators: true } }),
+        );
+
+        const cacheDir = join(tempDir, "cache");
+        const moduleUrl = new URL(`file://${tempDir}/mod.ts`).href;
+        await new TsImporter({ cacheDir, tsTranspileMode: "strip" }).import(moduleUrl);
+
+        const { cacheUrl } = (await CacheManifest.load(cacheDir)).get(moduleUrl)!;
+        const code = await Deno.readTextFile(fromFileUrl(cacheUrl));
+        expect(code).toContain("__decorate");
+        expect(code).not.toContain("@log");
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should ignore deno.json compiler options when autoDiscoverCompilerOptions is false", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(join(tempDir, "mod.ts"), decorated);
+        await Deno.writeTextFile(
+          join(tempDir, "deno.json"),
+          JSON.stringify({ compilerOptions: { emitDecoratorMetadata: true } }),
+        );
+
+        const cacheDir = join(tempDir, "cache");
+        const moduleUrl = new URL(`file://${tempDir}/mod.ts`).href;
+        await new TsImporter({
+          cacheDir,
+          autoDiscoverCompilerOptions: false,
+          tsTranspileMode: "transpile",
+          tsCompilerOptions: { experimentalDecorators: true },
+        }).import(moduleUrl);
+
+        const { cacheUrl } = (await CacheManifest.load(cacheDir)).get(moduleUrl)!;
+        expect(await Deno.readTextFile(fromFileUrl(cacheUrl))).not.toContain("__metadata");
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+  });
+
+  describe("persistent disk cache", () => {
+    it("should record transformed modules in the manifest", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(
+          join(tempDir, "a.ts"),
+          `import { b } from "./b.ts";\nexport const a: string = "a" + b;`,
+        );
+        await Deno.writeTextFile(join(tempDir, "b.ts"), `export const b: string = "b";`);
+
+        const cacheDir = join(tempDir, "cache");
+        const importer = new TsImporter({ cacheDir });
+        const module = await importer.import<{ a: string }>(new URL(`file://${tempDir}/a.ts`).href);
+        expect(module.a).toBe("ab");
+
+        const manifest = await CacheManifest.load(cacheDir);
+        const a = manifest.get(new URL(`file://${tempDir}/a.ts`).href);
+        const b = manifest.get(new URL(`file://${tempDir}/b.ts`).href);
+        expect(a).toBeDefined();
+        expect(b).toBeDefined();
+        expect(a!.dependencies).toEqual([new URL(`file://${tempDir}/b.ts`).href]);
+        expect(b!.dependencies).toEqual([]);
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should reuse cached files from a previous importer without rewriting them", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(
+          join(tempDir, "a.ts"),
+          `import { b } from "./b.ts";\nexport const a: string = "a" + b;`,
+        );
+        await Deno.writeTextFile(join(tempDir, "b.ts"), `export const b: string = "b";`);
+
+        const cacheDir = join(tempDir, "cache");
+        const moduleUrl = new URL(`file://${tempDir}/a.ts`).href;
+        await new TsImporter({ cacheDir }).import(moduleUrl);
+
+        const { cacheUrl } = (await CacheManifest.load(cacheDir)).get(moduleUrl)!;
+        const { mtime } = await Deno.stat(fromFileUrl(cacheUrl));
+
+        // Ensure a rewrite would be observable
+        await new Promise((resolve) => setTimeout(resolve, 20));
+
+        const module = await new TsImporter({ cacheDir }).import<{ a: string }>(moduleUrl);
+        expect(module.a).toBe("ab");
+        expect((await Deno.stat(fromFileUrl(cacheUrl))).mtime).toEqual(mtime);
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should transform again when the cached file has been removed", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(join(tempDir, "a.ts"), `export const a: string = "a";`);
+
+        const cacheDir = join(tempDir, "cache");
+        const moduleUrl = new URL(`file://${tempDir}/a.ts`).href;
+        await new TsImporter({ cacheDir }).import(moduleUrl);
+
+        const { cacheUrl } = (await CacheManifest.load(cacheDir)).get(moduleUrl)!;
+        await Deno.remove(fromFileUrl(cacheUrl));
+
+        const module = await new TsImporter({ cacheDir }).import<{ a: string }>(moduleUrl);
+        expect(module.a).toBe("a");
+        expect((await Deno.stat(fromFileUrl(cacheUrl))).isFile).toBe(true);
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+  });
+
+  describe("transitive cache invalidation", () => {
+    it("should invalidate importers when a leaf dependency changes", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(join(tempDir, "a.ts"), `export { b as a } from "./b.ts";`);
+        await Deno.writeTextFile(join(tempDir, "b.ts"), `export { c as b } from "./c.ts";`);
+        await Deno.writeTextFile(join(tempDir, "c.ts"), `export const c: string = "before";`);
+
+        const cacheDir = join(tempDir, "cache");
+        const moduleUrl = new URL(`file://${tempDir}/a.ts`).href;
+        const before = await new TsImporter({ cacheDir }).import<{ a: string }>(moduleUrl);
+        expect(before.a).toBe("before");
+
+        await Deno.writeTextFile(join(tempDir, "c.ts"), `export const c: string = "after";`);
+
+        const after = await new TsImporter({ cacheDir }).import<{ a: string }>(moduleUrl);
+        expect(after.a).toBe("after");
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should invalidate every member of a circular dependency when one changes", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(
+          join(tempDir, "a.ts"),
+          `import { b } from "./b.ts";\nexport const a = (): string => "a" + b();`,
+        );
+        await Deno.writeTextFile(
+          join(tempDir, "b.ts"),
+          `import { a } from "./a.ts";\nexport const b = (): string => "b";\nexport const callA = () => a();`,
+        );
+
+        const cacheDir = join(tempDir, "cache");
+        const moduleUrl = new URL(`file://${tempDir}/a.ts`).href;
+        const before = await new TsImporter({ cacheDir }).import<{ a: () => string }>(moduleUrl);
+        expect(before.a()).toBe("ab");
+
+        await Deno.writeTextFile(
+          join(tempDir, "b.ts"),
+          `import { a } from "./a.ts";\nexport const b = (): string => "B";\nexport const callA = () => a();`,
+        );
+
+        const after = await new TsImporter({ cacheDir }).import<{ a: () => string }>(moduleUrl);
+        expect(after.a()).toBe("aB");
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+  });
+
+  describe("watch", () => {
+    // Resolves with the next module passed to onReload
+    const nextReload = <T>() => {
+      let resolve!: (module: T) => void;
+      const promise = new Promise<T>((r) => resolve = r);
+      return { promise, onReload: (module: T) => resolve(module) };
+    };
+
+    it("should reload the module when a dependency changes", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(join(tempDir, "a.ts"), `export { b as a } from "./b.ts";`);
+        await Deno.writeTextFile(join(tempDir, "b.ts"), `export const b: string = "before";`);
+
+        const importer = new TsImporter({ cacheDir: join(tempDir, "cache") });
+        const reload = nextReload<{ a: string }>();
+        using watcher = await importer.watch(new URL(`file://${tempDir}/a.ts`).href, reload.onReload);
+        expect(watcher.module.a).toBe("before");
+
+        await Deno.writeTextFile(join(tempDir, "b.ts"), `export const b: string = "after";`);
+
+        const module = await reload.promise;
+        expect(module.a).toBe("after");
+        expect(watcher.module).toBe(module);
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should serve the reloaded module from the memory cache", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(join(tempDir, "a.ts"), `export const a: string = "before";`);
+
+        const moduleUrl = new URL(`file://${tempDir}/a.ts`).href;
+        const importer = new TsImporter({ cacheDir: join(tempDir, "cache") });
+        const reload = nextReload<{ a: string }>();
+        using _watcher = await importer.watch(moduleUrl, reload.onReload);
+
+        await Deno.writeTextFile(join(tempDir, "a.ts"), `export const a: string = "after";`);
+
+        const module = await reload.promise;
+        expect(await importer.import(moduleUrl)).toBe(module);
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should report errors and keep watching", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(join(tempDir, "a.ts"), `export const a: string = "before";`);
+
+        const importer = new TsImporter({ cacheDir: join(tempDir, "cache") });
+        const reload = nextReload<{ a: string }>();
+        const error = nextReload<unknown>();
+        using _watcher = await importer.watch(new URL(`file://${tempDir}/a.ts`).href, reload.onReload, {
+          onError: error.onReload,
+        });
+
+        await Deno.writeTextFile(join(tempDir, "a.ts"), `export const a: string = ;`);
+        expect(await error.promise).toBeInstanceOf(Error);
+
+        await Deno.writeTextFile(join(tempDir, "a.ts"), `export const a: string = "fixed";`);
+        expect((await reload.promise).a).toBe("fixed");
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+  });
+
+  describe("invalidate", () => {
+    it("should re-import a changed module and its importers", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(join(tempDir, "a.ts"), `export { b as a } from "./b.ts";`);
+        await Deno.writeTextFile(join(tempDir, "b.ts"), `export const b: string = "before";`);
+
+        const importer = new TsImporter({ cacheDir: join(tempDir, "cache") });
+        const moduleUrl = new URL(`file://${tempDir}/a.ts`).href;
+        const before = await importer.import<{ a: string }>(moduleUrl);
+        expect(before.a).toBe("before");
+
+        await Deno.writeTextFile(join(tempDir, "b.ts"), `export const b: string = "after";`);
+        expect(await importer.import(moduleUrl)).toBe(before);
+
+        const invalidated = await importer.invalidate(new URL(`file://${tempDir}/b.ts`).href);
+        expect(invalidated.sort()).toEqual([moduleUrl, new URL(`file://${tempDir}/b.ts`).href]);
+
+        const after = await importer.import<{ a: string }>(moduleUrl);
+        expect(after.a).toBe("after");
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should only invalidate the module itself when not transitive", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(join(tempDir, "a.ts"), `export { b as a } from "./b.ts";`);
+        await Deno.writeTextFile(join(tempDir, "b.ts"), `export const b: string = "b";`);
+
+        const importer = new TsImporter({ cacheDir: join(tempDir, "cache") });
+        await importer.import(new URL(`file://${tempDir}/a.ts`).href);
+
+        const invalidated = await importer.invalidate(new URL(`file://${tempDir}/b.ts`).href, { transitive: false });
+        expect(invalidated).toEqual([new URL(`file://${tempDir}/b.ts`).href]);
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should remove cached files and manifest entries when requested", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(join(tempDir, "a.ts"), `export { b as a } from "./b.ts";`);
+        await Deno.writeTextFile(join(tempDir, "b.ts"), `export const b: string = "b";`);
+
+        const cacheDir = join(tempDir, "cache");
+        const aUrl = new URL(`file://${tempDir}/a.ts`).href;
+        const bUrl = new URL(`file://${tempDir}/b.ts`).href;
+        await new TsImporter({ cacheDir }).import(aUrl);
+        const cacheUrls = [...(await CacheManifest.load(cacheDir)).entries()].map(([, entry]) => entry.cacheUrl);
+
+        // A fresh importer only knows about the importer of b.ts through the manifest
+        await new TsImporter({ cacheDir }).invalidate(bUrl, { removeFromDisk: true });
+
+        const manifest = await CacheManifest.load(cacheDir);
+        expect(manifest.get(aUrl)).toBeUndefined();
+        expect(manifest.get(bUrl)).toBeUndefined();
+        for (const cacheUrl of cacheUrls) {
+          await expect(Deno.stat(fromFileUrl(cacheUrl))).rejects.toThrow(Deno.errors.NotFound);
+        }
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+  });
+
+  describe("reset", () => {
+    it("should forget every module", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(join(tempDir, "a.ts"), `export const a: string = "before";`);
+
+        const importer = new TsImporter({ cacheDir: join(tempDir, "cache") });
+        const moduleUrl = new URL(`file://${tempDir}/a.ts`).href;
+        expect((await importer.import<{ a: string }>(moduleUrl)).a).toBe("before");
+
+        await Deno.writeTextFile(join(tempDir, "a.ts"), `export const a: string = "after";`);
+        importer.reset();
+
+        expect((await importer.import<{ a: string }>(moduleUrl)).a).toBe("after");
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+  });
+
+  describe("logger", () => {
+    // Records every event along with the level it was logged at
+    const createRecordingLogger = () => {
+      const events: Array<[string, TsImporterLogEvent]> = [];
+      const logger: TsImporterLogger = {
+        debug: (event) => events.push(["debug", event]),
+        info: (event) => events.push(["info", event]),
+        warn: (event) => events.push(["warn", event]),
+        error: (event) => events.push(["error", event]),
+      };
+      return { events, logger };
+    };
+
+    it("should emit structured events while importing", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(join(tempDir, "a.ts"), `export const a: string = import.meta.url;`);
+
+        const cacheDir = join(tempDir, "cache");
+        const moduleUrl = new URL(`file://${tempDir}/a.ts`).href;
+        const { events, logger } = createRecordingLogger();
+        await new TsImporter({ cacheDir, logger }).import(moduleUrl);
+
+        expect(events.map(([level, event]) => [level, event.type])).toEqual([
+          ["debug", "module-read"],
+          ["debug", "module-transpiled"],
+          ["debug", "module-imported"],
+        ]);
+
+        const warm = createRecordingLogger();
+        await new TsImporter({ cacheDir, logger: warm.logger }).import(moduleUrl);
+        expect(warm.events.map(([, event]) => event.type)).toEqual(["module-read", "cache-hit", "module-imported"]);
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should warn about dependencies that fail to transform", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(join(tempDir, "a.ts"), `export * from "./missing.ts";\nexport const a = 1;`);
+
+        const { events, logger } = createRecordingLogger();
+        await new TsImporter({ cacheDir: join(tempDir, "cache"), logger })
+          .import(new URL(`file://${tempDir}/a.ts`).href)
+          .catch(() => {});
+
+        const failure = events.find(([, event]) => event.type === "dependency-failed");
+        expect(failure?.[0]).toBe("warn");
+        expect(failure?.[1]).toMatchObject({ url: new URL(`file://${tempDir}/missing.ts`).href });
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+  });
+
+  describe("failureMode", () => {
+    // Imports the module, resolving with the error it fails with
+    const importError = (importer: TsImporter, url: string): Promise<TsImporterError> =>
+      importer.import(url).then(
+        () => {
+          throw new Error(`Expected importing ${url} to fail`);
+        },
+        (error) => error,
+      );
+
+    it("should fall back to the original URL of a failing dependency by default", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(join(tempDir, "a.ts"), `export * from "./missing.ts";\nexport const a = 1;`);
+
+        const importer = new TsImporter({ cacheDir: join(tempDir, "cache") });
+        const error = await importError(importer, new URL(`file://${tempDir}/a.ts`).href);
+
+        // Deno fails to load the original URL instead
+        expect(error).not.toBeInstanceOf(TsImporterError);
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should name the failing module and its importers in strict mode", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(join(tempDir, "a.ts"), `export { b } from "./b.ts";`);
+        await Deno.writeTextFile(join(tempDir, "b.ts"), `export * from "./missing.ts";\nexport const b = 1;`);
+
+        const aUrl = new URL(`file://${tempDir}/a.ts`).href;
+        const importer = new TsImporter({ cacheDir: join(tempDir, "cache"), failureMode: "strict" });
+        const error = await importError(importer, aUrl);
+
+        expect(error).toBeInstanceOf(TsImporterError);
+        expect(error.url).toBe(aUrl);
+        expect(error.failures).toHaveLength(1);
+        expect(error.failures[0].url).toBe(new URL(`file://${tempDir}/missing.ts`).href);
+        expect(error.failures[0].importers).toEqual([new URL(`file://${tempDir}/b.ts`).href, aUrl]);
+        expect(error.failures[0].cause).toBeInstanceOf(Deno.errors.NotFound);
+        expect(error.message).toContain("missing.ts");
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should report a failing root module in strict mode", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        const aUrl = new URL(`file://${tempDir}/a.ts`).href;
+        const importer = new TsImporter({ cacheDir: join(tempDir, "cache"), failureMode: "strict" });
+        const error = await importError(importer, aUrl);
+
+        expect(error).toBeInstanceOf(TsImporterError);
+        expect(error.failures[0].url).toBe(aUrl);
+        expect(error.failures[0].importers).toEqual([]);
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+  });
+
+  describe("source maps", () => {
+    it("should report the original location in stack traces", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(
+          join(tempDir, "a.ts"),
+          `import { b } from "./b.ts";\n\ntype Unused = { a: string };\n\nexport function fail(): never {\n  throw new Error(b);\n}\n`,
+        );
+        await Deno.writeTextFile(join(tempDir, "b.ts"), `export const b: string = "b";`);
+
+        const moduleUrl = new URL(`file://${tempDir}/a.ts`).href;
+        const module = await new TsImporter({ cacheDir: join(tempDir, "cache") }).import<{ fail: () => never }>(
+          moduleUrl,
+        );
+
+        expect(() => module.fail()).toThrow();
+        try {
+          module.fail();
+        } catch (error) {
+          expect((error as Error).stack).toContain(`${moduleUrl}:6:9`);
+        }
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should not embed source maps when disabled", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(join(tempDir, "a.ts"), `export const a: string = "a";`);
+
+        const cacheDir = join(tempDir, "cache");
+        const moduleUrl = new URL(`file://${tempDir}/a.ts`).href;
+        await new TsImporter({ cacheDir, sourceMaps: false }).import(moduleUrl);
+
+        const { cacheUrl } = (await CacheManifest.load(cacheDir)).get(moduleUrl)!;
+        expect(await Deno.readTextFile(fromFileUrl(cacheUrl))).not.toContain("sourceMappingURL");
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should expose a source map with exact positions through getSourceMap()", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        await Deno.writeTextFile(
+          join(tempDir, "a.ts"),
+          `import { b } from "./b.ts"; export const url: string = import.meta.url; export const c = b;\n`,
+        );
+        await Deno.writeTextFile(join(tempDir, "b.ts"), `export const b: string = "b";`);
+
+        const cacheDir = join(tempDir, "cache");
+        const moduleUrl = new URL(`file://${tempDir}/a.ts`).href;
+        const importer = new TsImporter({ cacheDir });
+        await importer.import(moduleUrl);
+
+        const map = await importer.getSourceMap(moduleUrl);
+        expect(map?.sources).toEqual([moduleUrl]);
+
+        // Locate "c = b" in the cached file & map it back to the original source
+        const { cacheUrl } = (await CacheManifest.load(cacheDir)).get(moduleUrl)!;
+        const lines = (await Deno.readTextFile(fromFileUrl(cacheUrl))).split("\n");
+        const line = lines.findIndex((text) => text.includes("c = b"));
+        const column = lines[line].indexOf("c = b");
+        const segment = decodeMappings(map!.mappings)[line].findLast(([generatedColumn]) => generatedColumn <= column)!;
+        expect([segment[2], segment[3] + column - segment[0]]).toEqual([0, 85]);
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should return undefined from getSourceMap() for modules that were never imported", async () => {
+      const tempDir = await Deno.makeTempDir();
+
+      try {
+        const importer = new TsImporter({ cacheDir: join(tempDir, "cache") });
+        expect(await importer.getSourceMap(`file://${tempDir}/missing.ts`)).toBeUndefined();
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+  });
 });
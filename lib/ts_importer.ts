@@ -1,14 +1,75 @@
 import { findDenoConfigFile } from "@brad-jones/deno-config";
-import { ensureDir } from "@std/fs";
-import { isAbsolute, join } from "@std/path";
+import { encodeBase64 } from "@std/encoding/base64";
+import { ensureDir, existsSync } from "@std/fs";
+import { join, resolve, SEPARATOR } from "@std/path";
+import { dirname } from "@std/path/dirname";
 import { fromFileUrl } from "@std/path/from-file-url";
-import type ts from "typescript";
-import { getCachePath, getDefaultDenoCacheDir, getDenoCacheFilePath, getDenoCacheMetadataPath } from "./cache.ts";
+import { toFileUrl } from "@std/path/to-file-url";
+import {
+  getCachePathForHash,
+  getDenoCacheFilePath,
+  getDenoCacheMetadataPath,
+  getSourceFingerprint,
+  resolveCacheDir,
+} from "./cache.ts";
+import { CacheManifest, type CacheManifestEntry } from "./cache_manifest.ts";
+import { createCommonJsModule } from "./commonjs.ts";
+import { TsImporterError } from "./errors.ts";
 import type { ImportMap } from "./import_map.ts";
-import { loadImportMap } from "./load_import_map.ts";
-import { createOriginalUrlComment, replaceImportMeta } from "./replace_import_meta.ts";
-import { replaceImports } from "./replace_imports.ts";
-import { transpileTypeScript } from "./ts_transpiler.ts";
+import {
+  type NormalizedImportMap,
+  normalizeImportMap,
+  resolveImportMapSpecifier,
+  resolveModuleSpecifier,
+} from "./import_map_resolver.ts";
+import { parseJsonc } from "./jsonc.ts";
+import { loadCompilerOptions } from "./load_compiler_options.ts";
+import { getDefaultLogger, type TsImporterLogger } from "./logger.ts";
+import { getMediaType, isAssetMediaType, type MediaType } from "./media_type.ts";
+import { mergeImportMaps } from "./merge_import_maps.ts";
+import { computeTransitiveHashes } from "./module_graph.ts";
+import {
+  findNpmResolutionFiles,
+  getPackageType,
+  isBareSpecifier,
+  isNpmPackageModule,
+  resolveNpmSpecifier,
+} from "./npm_resolver.ts";
+import { type ImportMapDiagnostic, parseImportMap } from "./parse_import_map.ts";
+import {
+  createOriginalUrlComment,
+  replaceImportMeta,
+  type ReplaceImportMetaOptions,
+  replaceImportMetaWithSourceMap,
+  usesImportMeta,
+} from "./replace_import_meta.ts";
+import { replaceDynamicImports, replaceDynamicImportsWithSourceMap } from "./replace_dynamic_imports.ts";
+import { replaceImports, type ReplaceImportsOptions, replaceImportsWithSourceMap } from "./replace_imports.ts";
+import {
+  composeSourceMaps,
+  createEditSourceMap,
+  createInlineSourceMapComment,
+  parseInlineSourceMap,
+  type SourceMap,
+} from "./source_map.ts";
+import {
+  type CompilerOptions,
+  getTranspileMode,
+  transpileTypeScript,
+  transpileTypeScriptWithSourceMap,
+} from "./ts_transpiler.ts";
+import { getVendorPath, resolveJsrSpecifier, vendorJsrPackage } from "./vendor.ts";
+import { replaceWasmImports } from "./wasm_imports.ts";
+import { findWorkspace, getWorkspaceImportMap } from "./workspace.ts";
+
+/** The import map of graphs without one, so the import maps discovered for their modules are merged only once */
+const EMPTY_IMPORT_MAP: ImportMap = { imports: {} };
+
+/** The global function the import.meta.resolve() calls of transformed modules are routed to when they run */
+const RESOLVE_HOOK = "__tsImporterResolve";
+
+/** The global function the dynamic imports of transformed modules are routed to, unless their specifier is a literal */
+const IMPORT_HOOK = "__tsImporterImport";
 
 /**
  * Configuration options for TsImporter.
@@ -35,7 +96,7 @@ export type TsImporterOptions = {
    * Custom cache directory path.
    *
    * If provided as a relative path, it will be resolved relative to the current working directory.
-   * If not provided, defaults to Deno's cache directory under "import_map_importer" subdirectory.
+   * If not provided, defaults to Deno's cache directory under "brad_jones_ts_importer" subdirectory.
    *
    * @example
    * ```typescript
@@ -64,13 +125,41 @@ export type TsImporterOptions = {
    * Whether to automatically discover and merge import maps from deno.json/deno.jsonc files
    * when importing local modules.
    *
-   * When enabled, the importer will look for deno.json files in the same directory as
-   * the imported module and merge their import maps with the configured import map.
+   * When enabled, each local module is resolved with the import map of its nearest deno.json
+   * merged with the configured import map, the one of the imported module applying to its
+   * whole graph. Members of a Deno workspace also inherit the imports of the workspace root
+   * & can import each other by their `name`, resolved to the local sources of their `exports`.
    *
    * @default true
    */
   autoDiscoverImportMap?: boolean;
 
+  /**
+   * Which import map wins when a discovered deno.json/deno.jsonc maps the same specifier as the configured import map.
+   *
+   * - "discovered-wins": Modules use the dependencies their own deno.json asks for
+   * - "configured-wins": The configured import map pins dependencies, eg: for a host importing plugins,
+   *   the deno.json of a plugin only adds the specifiers the configured import map doesn't map
+   *
+   * The imports of scopes with the same prefix are merged following the same rule. An import map passed to
+   * {@linkcode TsImporter.import} or {@linkcode TsImporter.prepare} always wins.
+   *
+   * @default "discovered-wins"
+   */
+  importMapPrecedence?: "discovered-wins" | "configured-wins";
+
+  /**
+   * Whether to apply the compiler options of the nearest deno.json/deno.jsonc file to each local module.
+   *
+   * Only the options that affect the emitted JavaScript are used: `jsx`, `jsxFactory`, `jsxFragmentFactory`,
+   * `jsxImportSource`, `jsxPrecompileSkipElements`, `experimentalDecorators` & `emitDecoratorMetadata`.
+   * They take precedence over `tsCompilerOptions`, so packages of a monorepo can each use their own JSX runtime.
+   * Has no effect when using "passthrough" mode, or "strip" mode for anything but JSX & TSX.
+   *
+   * @default true
+   */
+  autoDiscoverCompilerOptions?: boolean;
+
   /**
    * TypeScript transpilation mode for processing modules.
    *
@@ -78,6 +167,11 @@ export type TsImporterOptions = {
    * - "transpile": Full TypeScript compilation with configured compiler options
    * - "passthrough": Return code as-is without any transformation
    *
+   * The media type of each module is detected from its extension, `.jsx` & `.tsx` modules are
+   * always compiled in "strip" mode since stripping types can't handle JSX. So are modules with
+   * enums, namespaces holding values, parameter properties or decorators, and every module when
+   * `experimentalDecorators` or `emitDecoratorMetadata` is set.
+   *
    * Can also be controlled via the `DENO_TS_IMPORTER_TRANSPILE_MODE` environment variable.
    *
    * @default "strip"
@@ -85,22 +179,183 @@ export type TsImporterOptions = {
   tsTranspileMode?: "transpile" | "strip" | "passthrough";
 
   /**
-   * Optional TypeScript compiler options to override defaults when `tsTranspileMode` is "transpile".
+   * Optional TypeScript compiler options to override defaults when modules are compiled.
    *
    * These options are merged with the default Deno-optimized compiler settings.
-   * Has no effect when using "strip" or "passthrough" modes.
+   * Has no effect when using "passthrough" mode, or "strip" mode for anything but JSX & TSX.
+   *
+   * Besides the TypeScript JSX transforms, `jsx` may be set to Deno's "precompile" transform
+   * which serializes intrinsic elements to HTML templates ahead of time.
    *
    * @example
    * ```typescript
    * {
    *   tsCompilerOptions: {
-   *     target: ts.ScriptTarget.ES2020,
-   *     jsx: ts.JsxEmit.Preserve
+   *     jsx: ts.JsxEmit.ReactJSX,
+   *     jsxImportSource: "preact"
    *   }
    * }
    * ```
    */
-  tsCompilerOptions?: ts.CompilerOptions;
+  tsCompilerOptions?: CompilerOptions;
+
+  /**
+   * Receives structured events about modules being read, transpiled, served from cache & failing.
+   *
+   * Defaults to a silent logger, unless the `DENO_TS_IMPORTER_DEBUG` environment variable is set
+   * in which case every event is written to stderr.
+   *
+   * @example
+   * ```typescript
+   * // Log everything using the global console
+   * { logger: console }
+   *
+   * // Only log warnings & errors, to stderr
+   * { logger: createConsoleLogger("warn") }
+   * ```
+   */
+  logger?: TsImporterLogger;
+
+  /**
+   * What to do when a dependency fails to transform.
+   *
+   * - "fallback": Log a "dependency-failed" event & import the dependency from its original URL (default)
+   * - "strict": Throw a {@linkcode TsImporterError} naming every failing module & the chain of importers that led to it
+   *
+   * Falling back means Deno loads the original source, which in a compiled binary usually fails later with a
+   * confusing `SyntaxError`. `jsr:` (unless `offline`) & `npm:` dependencies that fail are always left for Deno
+   * to resolve natively.
+   *
+   * @default "fallback"
+   */
+  failureMode?: "strict" | "fallback";
+
+  /**
+   * Whether to embed an inline source map in every cached module.
+   *
+   * The source maps point back at the original source, so stack traces thrown from imported
+   * modules show the original file, line & column rather than the hashed cache file.
+   *
+   * @default true
+   */
+  sourceMaps?: boolean;
+
+  /**
+   * Never access the network, remote `https:` & `jsr:` modules are only read from the `vendorDir`.
+   *
+   * A remote module missing from the vendor directory fails with an error naming the file it was expected in.
+   * `npm:` packages are always read from a `node_modules` directory or Deno's npm cache.
+   *
+   * @default false
+   */
+  offline?: boolean;
+
+  /**
+   * A directory of vendored remote modules, laid out the way Deno's `"vendor": true` does, eg: `vendor/jsr.io/...`.
+   *
+   * Remote modules found in it are never fetched & `jsr:` specifiers are resolved against the vendored JSR packages.
+   * If provided as a relative path, it will be resolved relative to the current working directory.
+   *
+   * @default The "vendor" directory of the `cacheDir` when it exists, see {@linkcode TsImporter.prepare}.
+   * Otherwise "vendor" when `offline` is true, and no vendor directory at all when it isn't.
+   */
+  vendorDir?: string;
+};
+
+/**
+ * Options for {@linkcode TsImporter.watch}.
+ */
+export type TsImporterWatchOptions = {
+  /**
+   * Optional import map to use for the watched module, see {@linkcode TsImporter.import}.
+   */
+  importMap?: ImportMap;
+
+  /**
+   * How long to wait, in milliseconds, for file system events to settle before reloading.
+   *
+   * Editors often emit several events for a single save, this coalesces them into one reload.
+   *
+   * @default 50
+   */
+  debounce?: number;
+
+  /**
+   * Called when reloading the module (or the `onReload` callback) fails.
+   *
+   * The watcher keeps running after an error, so fixing the offending file triggers another reload.
+   *
+   * Defaults to logging a "reload-failed" event with the configured logger.
+   */
+  onError?: (error: unknown) => void;
+};
+
+/**
+ * Options for {@linkcode TsImporter.invalidate}.
+ */
+export type TsImporterInvalidateOptions = {
+  /**
+   * Whether to also invalidate every module that (transitively) imports the given module.
+   *
+   * Importers are linked against the cache URL of the module, so they have to be
+   * transformed again to pick up a new version of it.
+   *
+   * @default true
+   */
+  transitive?: boolean;
+
+  /**
+   * Whether to also remove the cached files & manifest entries of the invalidated modules.
+   *
+   * Importers recorded in the manifest by previous processes are found & removed too.
+   *
+   * @default false
+   */
+  removeFromDisk?: boolean;
+};
+
+/**
+ * A handle to a module being watched by {@linkcode TsImporter.watch}.
+ */
+export type TsImporterWatcher<T> = {
+  /** The most recently loaded module namespace */
+  readonly module: T;
+  /** Stops watching, no further reloads happen once this is called */
+  close(): void;
+  /** Same as `close`, allows the watcher to be declared with `using` */
+  [Symbol.dispose](): void;
+};
+
+/**
+ * The first pass output of a module: transpiled, import mapped & import.meta replaced.
+ */
+type TransformedSource = {
+  /** The transformed code, still importing its dependencies by their (import mapped) specifiers */
+  code: string;
+  /** Maps each specifier in `code` that needs linking to the resolved URL of the dependency */
+  specifiers: Map<string, string>;
+  /** Whether to prepend the original URL comment banner */
+  banner: boolean;
+  /** Maps `code` back to the original source, unless source maps are disabled */
+  map?: SourceMap;
+  /** The content of a JSON, WebAssembly or other asset, cached as is instead of `code` */
+  asset?: Uint8Array;
+};
+
+/**
+ * What is known about a module before it is linked against its dependencies.
+ */
+type ModuleAnalysis = {
+  /** Fingerprint of the original source and the settings it is transformed with */
+  fingerprint: string;
+  /** The resolved URLs of the module's dependencies */
+  dependencies: readonly string[];
+  /** The manifest entry of a previous transformation of the same source, if any */
+  entry?: CacheManifestEntry;
+  /** The import map the module is resolved with, also by its import.meta.resolve() calls & dynamic imports */
+  importMap?: ImportMap;
+  /** Produces the first pass output, deferred so cache hits never pay for it */
+  source: () => Promise<TransformedSource>;
 };
 
 /**
@@ -112,9 +367,11 @@ export type TsImporterOptions = {
  *
  * - Memory caching of loaded modules
  * - Disk caching of transformed source code
+ * - A persistent manifest so warm starts skip transpilation entirely
+ * - Transitive content hashing, editing a dependency invalidates all of its importers
  * - Pre-processed import maps for O(1) lookups
  * - Parallel dependency processing
- * - Circular dependency detection
+ * - Circular dependency support
  * - Optimized file I/O operations
  *
  * @example
@@ -131,12 +388,57 @@ export type TsImporterOptions = {
  * ```
  */
 export class TsImporter {
+  // The importer that transformed each module, its original URL, the import map it applied & the one of its graph.
+  // Keyed by the cache URL the module runs from, importers with other settings transform the same module differently
+  static #owners = new Map<
+    string,
+    { importer: TsImporter; url: string; importMap?: ImportMap; graphImportMap?: ImportMap }
+  >();
+
+  static {
+    // The import.meta.resolve() calls transformed modules can't have resolved up front are routed to their importer
+    Object.defineProperty(globalThis, RESOLVE_HOOK, {
+      value: (specifier: string, parentUrl: string, moduleUrl: string): string => {
+        const owner = TsImporter.#owners.get(moduleUrl);
+        return owner
+          ? owner.importer.#resolveFromModule(String(specifier), new URL(parentUrl), owner.importMap)
+          : new URL(specifier, parentUrl).href;
+      },
+      configurable: true,
+    });
+
+    // So are their dynamic imports, which are transformed like any other module
+    Object.defineProperty(globalThis, IMPORT_HOOK, {
+      value: (
+        specifier: string,
+        parentUrl: string,
+        moduleUrl: string,
+        options?: ImportCallOptions,
+      ): Promise<unknown> => {
+        const owner = TsImporter.#owners.get(moduleUrl);
+        return owner
+          ? owner.importer.#importFromModule(
+            String(specifier),
+            new URL(parentUrl),
+            owner.importMap,
+            owner.graphImportMap,
+            options,
+          )
+          : import(new URL(specifier, parentUrl).href, options);
+      },
+      configurable: true,
+    });
+  }
+
   #cache: Map<string, unknown> = new Map();
   #cacheDir: string;
   #transformedModules: Map<string, string> = new Map();
-  #processingModules: Set<string> = new Set();
+  #moduleHashes: Map<string, string> = new Map();
+  #moduleDependencies: Map<string, readonly string[]> = new Map();
   #transformationPromises: Map<string, Promise<string>> = new Map();
+  #generation = 0;
   #importMap?: ImportMap;
+  #manifest?: Promise<CacheManifest>;
 
   // Option to clear Deno's cache
   #clearDenoCache: boolean;
@@ -144,10 +446,61 @@ export class TsImporter {
   // Option to auto-discover import maps from deno.json
   #autoDiscoverImportMap: boolean;
 
+  // Whether discovered import maps override the configured one, or the other way around
+  #importMapPrecedence: "discovered-wins" | "configured-wins";
+
+  // Import maps passed to import() or prepare(), these always win over discovered import maps
+  #callImportMaps = new WeakSet<ImportMap>();
+
+  // Option to apply the compiler options of the nearest deno.json to each module
+  #autoDiscoverCompilerOptions: boolean;
+
+  // Compiler options discovered for each directory containing local modules
+  #discoveredCompilerOptions = new Map<string, Promise<CompilerOptions | undefined>>();
+
+  // Import maps discovered for each directory containing local modules
+  #discoveredImportMaps = new Map<string, Promise<ImportMap | undefined>>();
+
+  // Hashes of the package.json & lockfile deciding what the npm specifiers of the modules in each directory resolve to
+  #npmResolutionHashes = new Map<string, Promise<string>>();
+
+  // Import maps of the deno.json files read so far, keyed by their path
+  #configImportMaps = new Map<string, Promise<ImportMap>>();
+
+  // The import maps of graphs merged with the import maps discovered for their modules
+  #mergedImportMaps = new WeakMap<ImportMap, Map<ImportMap, ImportMap>>();
+
+  // Import maps normalized against the working directory, keyed by the import map they were normalized from
+  #normalizedImportMaps = new WeakMap<ImportMap, NormalizedImportMap>();
+
+  // Why each npm: or jsr: specifier that couldn't be resolved to a module the importer can read failed
+  #resolutionErrors = new Map<string, Error>();
+
+  // Receives structured log events
+  #logger: TsImporterLogger;
+
+  // Whether dependency failures are fatal
+  #failureMode: "strict" | "fallback";
+
+  // Whether to embed source maps in cached modules
+  #sourceMaps: boolean;
+
+  // Whether remote modules may only be read from the vendor directory
+  #offline: boolean;
+
+  // Where vendored remote modules are read from, if anywhere
+  #vendorDir?: string;
+
+  // How many prepare() calls are running, fetched remote modules are vendored while any are
+  #preparing = 0;
+
+  // Vendored jsr: & remote specifiers are resolved by the importer, rather than downloaded by Deno
+  #replaceImportsOptions: ReplaceImportsOptions;
+
   // TypeScript transpilation options
   #tsTranspileOptions: {
     mode?: "transpile" | "strip" | "passthrough";
-    compilerOptions?: ts.CompilerOptions;
+    compilerOptions?: CompilerOptions;
   };
 
   /**
@@ -162,19 +515,34 @@ export class TsImporter {
     this.#importMap = options.importMap;
 
     // Handle both absolute and relative cache directory paths
-    if (options.cacheDir) {
-      // Use isAbsolute from std/path to properly detect absolute paths
-      this.#cacheDir = isAbsolute(options.cacheDir) ? options.cacheDir : join(Deno.cwd(), options.cacheDir);
-    } else {
-      // Default to Deno's cache directory for easier cache management
-      this.#cacheDir = join(getDefaultDenoCacheDir(), "brad_jones_ts_importer");
-    }
+    this.#cacheDir = resolveCacheDir(options.cacheDir);
 
     // Set cache clearing option
     this.#clearDenoCache = options.clearDenoCache ?? false;
 
     // Set auto-discover import map option
     this.#autoDiscoverImportMap = options.autoDiscoverImportMap ?? true;
+    this.#importMapPrecedence = options.importMapPrecedence ?? "discovered-wins";
+
+    // Set auto-discover compiler options option
+    this.#autoDiscoverCompilerOptions = options.autoDiscoverCompilerOptions ?? true;
+
+    // Set logger
+    this.#logger = options.logger ?? getDefaultLogger();
+
+    // Set failure mode
+    this.#failureMode = options.failureMode ?? "fallback";
+
+    // Set source maps option
+    this.#sourceMaps = options.sourceMaps ?? true;
+
+    // Set offline & vendor directory options
+    this.#offline = options.offline ?? false;
+    const preparedVendorDir = join(this.#cacheDir, "vendor");
+    const vendorDir = options.vendorDir ??
+      (existsSync(preparedVendorDir) ? preparedVendorDir : this.#offline ? "vendor" : undefined);
+    this.#vendorDir = vendorDir === undefined ? undefined : resolve(vendorDir);
+    this.#replaceImportsOptions = { resolveJsr: !this.#vendorDir, replaceRemote: !!this.#vendorDir };
 
     // Set TypeScript transpile options
     this.#tsTranspileOptions = {
@@ -191,7 +559,8 @@ export class TsImporter {
    * loaded module. Subsequent imports of the same module will be served from cache.
    *
    * @param specifier - The module specifier to import (relative path, absolute URL, or bare specifier)
-   * @param importMap - Optional import map to use for this import. If not provided, uses the instance's import map.
+   * @param importMap - Optional import map to use for this import instead of the instance's import map, it wins over
+   *   the import map of a discovered deno.json which only adds the specifiers it doesn't map
    * @returns A promise that resolves to the imported module
    *
    * @example
@@ -213,40 +582,602 @@ export class TsImporter {
    * ```
    */
   async import<T>(specifier: string, importMap?: ImportMap): Promise<T> {
-    // Memory cache check
-    if (this.#cache.has(specifier)) {
-      return this.#cache.get(specifier) as T;
+    if (importMap) {
+      this.#callImportMaps.add(importMap);
+    }
+    return await this.#import<T>(specifier, importMap);
+  }
+
+  /**
+   * Transforms & caches the module graphs of the given modules, without evaluating any of them.
+   *
+   * Every transformed module is written to the cache directory & recorded in its manifest.
+   * Remote modules are fetched once and vendored into the "vendor" directory of the cache
+   * directory (or the configured `vendorDir`), along with the metadata `jsr:` specifiers are
+   * resolved with. From then on this importer reads remote & `jsr:` modules from there, so
+   * modules it imported before are transformed again.
+   *
+   * The cache directory can then be shipped with a compiled binary or baked into a container image.
+   * An importer created on it with the same settings, and the local modules at the same paths,
+   * imports the prepared modules without any network access or transpilation.
+   *
+   * @param specifiers - The module specifiers to prepare, resolved the same way as {@linkcode TsImporter.import}
+   * @param importMap - Optional import map to use for these modules, see {@linkcode TsImporter.import}
+   * @returns The original URLs of every prepared module, including all of their dependencies
+   *
+   * @example
+   * ```typescript ignore
+   * // At build time
+   * await new TsImporter({ cacheDir: "./.ts-importer" }).prepare(["./plugins/a.ts", "./plugins/b.ts"]);
+   *
+   * // In production, never touching the network
+   * const importer = new TsImporter({ cacheDir: "./.ts-importer", offline: true });
+   * const plugin = await importer.import("./plugins/a.ts");
+   * ```
+   */
+  async prepare(specifiers: string[], importMap?: ImportMap): Promise<string[]> {
+    // Remote & jsr: modules are vendored, so later imports resolve them the same way offline
+    this.#vendorDir ??= join(this.#cacheDir, "vendor");
+    this.#replaceImportsOptions = { resolveJsr: false, replaceRemote: true };
+
+    // Modules imported so far may leave jsr: & remote modules to Deno & weren't vendored, so transform them again
+    this.#invalidateModules([...this.#transformedModules.keys()], false);
+
+    if (importMap) {
+      this.#callImportMaps.add(importMap);
+    }
+
+    this.#preparing++;
+    try {
+      const rootUrls: string[] = [];
+      for (const specifier of specifiers) {
+        const { url, effectiveImportMap } = await this.#resolveRoot(specifier, importMap);
+        await this.#transformModule(url, effectiveImportMap);
+        rootUrls.push(url.href);
+      }
+      await (await this.#getManifest()).save();
+
+      // Dependencies that failed are imported from their original URL, so they weren't prepared
+      const prepared = [...this.#getModuleGraph(rootUrls)].filter((url) => this.#transformedModules.has(url));
+      this.#logger.info({ type: "modules-prepared", specifiers, count: prepared.length, cacheDir: this.#cacheDir });
+      return prepared;
+    } finally {
+      this.#preparing--;
+    }
+  }
+
+  /**
+   * Imports a module and re-imports it whenever it, or any local file it depends on, changes.
+   *
+   * Every local file reached while transforming the module is watched with `Deno.watchFs`.
+   * When one changes, the memory caches of that file and every module that (transitively)
+   * imports it are invalidated and the module is imported again. Because cached files are
+   * named after a transitive hash, the changed modules get fresh cache URLs and are therefore
+   * evaluated again, while unchanged dependencies keep their existing module instances.
+   *
+   * @param specifier - The module specifier to import, see {@linkcode TsImporter.import}
+   * @param onReload - Called with the new module namespace after every reload
+   * @param options - Optional import map, debounce delay & error handler
+   * @returns A promise that resolves to a watcher once the module has been imported for the first time
+   *
+   * @example
+   * ```typescript ignore
+   * const importer = new TsImporter();
+   *
+   * using watcher = await importer.watch<{ handler: () => Response }>("./plugin.ts", (plugin) => {
+   *   console.log("plugin reloaded");
+   * });
+   *
+   * Deno.serve(() => watcher.module.handler());
+   * ```
+   */
+  async watch<T>(
+    specifier: string,
+    onReload: (module: T) => void | Promise<void>,
+    options: TsImporterWatchOptions = {},
+  ): Promise<TsImporterWatcher<T>> {
+    const {
+      importMap,
+      debounce = 50,
+      onError = (error: unknown) => this.#logger.error({ type: "reload-failed", specifier, error }),
+    } = options;
+    const url = new URL(specifier, import.meta.url).href;
+
+    let module = await this.import<T>(specifier, importMap);
+    let files = this.#getLocalFiles(url);
+    let fsWatcher: Deno.FsWatcher | undefined;
+    let closed = false;
+
+    const run = async () => {
+      while (!closed) {
+        // Watch the parent directories rather than the files themselves, editors that save
+        // by renaming a new file over the old one would otherwise end the watch.
+        fsWatcher = Deno.watchFs([...new Set([...files].map((file) => dirname(fromFileUrl(file))))], {
+          recursive: false,
+        });
+        const changed = await waitForChanges(fsWatcher, files, debounce);
+        fsWatcher.close();
+        if (closed || changed.size === 0) {
+          continue;
+        }
+
+        this.#invalidateModules(changed);
+        try {
+          module = await this.import<T>(specifier, importMap);
+          files = this.#getLocalFiles(url);
+          await onReload(module);
+        } catch (error) {
+          // Keep watching the previous files so fixing the error triggers another reload
+          onError(error);
+        }
+      }
+    };
+    run().catch(onError);
+
+    const close = () => {
+      closed = true;
+      fsWatcher?.close();
+    };
+
+    return {
+      get module() {
+        return module;
+      },
+      close,
+      [Symbol.dispose]: close,
+    };
+  }
+
+  /**
+   * Forgets a module, so the next import transforms & evaluates it again.
+   *
+   * Deno never evaluates the same URL twice, because cached files are named after a hash of
+   * their source the next import only returns a new module instance if the source changed.
+   *
+   * @param specifier - The module specifier to invalidate, resolved the same way as {@linkcode TsImporter.import}
+   * @param options - Whether to include importers & remove the on-disk artifacts
+   * @returns The URLs of all the invalidated modules
+   *
+   * @example
+   * ```typescript ignore
+   * const importer = new TsImporter();
+   * await importer.import("./plugins/tenant.ts");
+   *
+   * // ...after the plugin has been updated
+   * await importer.invalidate("./plugins/tenant.ts");
+   * const plugin = await importer.import("./plugins/tenant.ts");
+   * ```
+   */
+  async invalidate(specifier: string, options: TsImporterInvalidateOptions = {}): Promise<string[]> {
+    const { transitive = true, removeFromDisk = false } = options;
+    const url = new URL(specifier, import.meta.url).href;
+
+    if (!removeFromDisk) {
+      return [...this.#invalidateModules([url], transitive)];
+    }
+
+    // Previous processes may have cached importers this instance has never seen
+    const manifest = await this.#getManifest();
+    const dependencies = new Map<string, readonly string[]>(this.#moduleDependencies);
+    for (const [entryUrl, entry] of manifest.entries()) {
+      if (!dependencies.has(entryUrl)) {
+        dependencies.set(entryUrl, entry.dependencies);
+      }
+    }
+    const invalid = transitive ? collectImporters([url], dependencies) : new Set([url]);
+
+    const cacheUrls = new Set<string>();
+    for (const invalidUrl of invalid) {
+      const transformedUrl = this.#transformedModules.get(invalidUrl);
+      const entry = manifest.get(invalidUrl);
+      if (transformedUrl) {
+        cacheUrls.add(transformedUrl);
+      }
+      if (entry) {
+        cacheUrls.add(entry.cacheUrl);
+      }
+      manifest.delete(invalidUrl);
+    }
+
+    this.#invalidateModules(invalid, false);
+
+    for (const cacheUrl of cacheUrls) {
+      await Deno.remove(fromFileUrl(cacheUrl)).catch((error) => {
+        if (!(error instanceof Deno.errors.NotFound)) {
+          throw error;
+        }
+      });
+    }
+    await manifest.save();
+
+    return [...invalid];
+  }
+
+  /**
+   * Forgets every module, returning the importer to the state it was constructed in.
+   *
+   * The cache directory is left untouched, use `TsImporterCache.clear()` to remove its contents.
+   */
+  reset(): void {
+    this.#cache.clear();
+    this.#transformedModules.clear();
+    this.#moduleHashes.clear();
+    this.#moduleDependencies.clear();
+    this.#transformationPromises.clear();
+    this.#discoveredCompilerOptions.clear();
+    this.#discoveredImportMaps.clear();
+    this.#npmResolutionHashes.clear();
+    this.#configImportMaps.clear();
+    for (const [url, owner] of TsImporter.#owners) {
+      if (owner.importer === this) {
+        TsImporter.#owners.delete(url);
+      }
+    }
+    this.#resolutionErrors.clear();
+    this.#manifest = undefined;
+    this.#generation++;
+  }
+
+  /**
+   * Gets the source map of a transformed module, mapping its cached file back to the original source.
+   *
+   * The map accounts for the transpilation, every rewritten specifier & import.meta property, and the
+   * original URL comment banner. Its `sources` are the original module URLs.
+   *
+   * @param specifier - The module specifier, resolved the same way as {@linkcode TsImporter.import}
+   * @returns The source map, or undefined if the module is not cached or source maps are disabled
+   *
+   * @example
+   * ```typescript ignore
+   * const importer = new TsImporter();
+   * await importer.import("./main.ts");
+   *
+   * const map = await importer.getSourceMap("./main.ts");
+   * ```
+   */
+  async getSourceMap(specifier: string): Promise<SourceMap | undefined> {
+    const url = new URL(specifier, import.meta.url).href;
+    const cacheUrl = this.#transformedModules.get(url) ?? (await this.#getManifest()).get(url)?.cacheUrl;
+    if (!cacheUrl) {
+      return undefined;
+    }
+
+    try {
+      return parseInlineSourceMap(await Deno.readTextFile(fromFileUrl(cacheUrl)));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return undefined;
+      }
+      throw error;
     }
+  }
 
-    const url = new URL(specifier, import.meta.url);
+  // Resolve the URL of a module imported directly, along with the import map of its graph
+  async #resolveRoot(specifier: string, importMap?: ImportMap): Promise<{
+    url: URL;
+    effectiveImportMap?: ImportMap;
+  }> {
+    let url = new URL(specifier, import.meta.url);
+    if (url.protocol === "jsr:" && this.#vendorDir) {
+      url = this.#preparing > 0
+        ? await vendorJsrPackage(url.href, this.#vendorDir)
+        : resolveJsrSpecifier(url.href, this.#vendorDir);
+    }
 
     // Clear Deno's cache if requested
     if (this.#clearDenoCache) {
       await this.#clearDenoCacheForUrl(url);
     }
 
-    // Discover import map from deno.jsonc if importing from a local file and no import map provided
-    let effectiveImportMap = importMap ?? this.#importMap;
-    if (this.#autoDiscoverImportMap && !importMap && url.protocol === "file:") {
-      const configFilePath = await findDenoConfigFile(fromFileUrl(url));
-      if (configFilePath) {
-        const config = await loadImportMap(configFilePath);
-        effectiveImportMap = {
-          imports: { ...effectiveImportMap?.imports, ...config?.imports ?? {} },
-          scopes: { ...effectiveImportMap?.scopes, ...config?.scopes ?? {} },
+    // Every module of the graph, this one included, merges the import map of the deno.json owning it over this one
+    const effectiveImportMap = importMap ?? this.#importMap;
+
+    return { url, effectiveImportMap };
+  }
+
+  // Merge the import map of the deno.json owning a local module, & of its workspace, with the configured one
+  async #getModuleImportMap(moduleUrl: URL, importMap?: ImportMap): Promise<ImportMap | undefined> {
+    if (!this.#autoDiscoverImportMap || moduleUrl.protocol !== "file:") {
+      return importMap;
+    }
+
+    // Every module in a directory is owned by the same config file
+    const dir = dirname(fromFileUrl(moduleUrl));
+    let discovered = this.#discoveredImportMaps.get(dir);
+    if (!discovered) {
+      discovered = this.#discoverImportMap(moduleUrl);
+      this.#discoveredImportMaps.set(dir, discovered);
+    }
+    const discoveredImportMap = await discovered;
+    if (!discoveredImportMap) {
+      return importMap;
+    }
+
+    // Reuse the merged import map, so modules sharing it are normalized once
+    const base = importMap ?? EMPTY_IMPORT_MAP;
+    let merged = this.#mergedImportMaps.get(base);
+    if (!merged) {
+      merged = new Map();
+      this.#mergedImportMaps.set(base, merged);
+    }
+    let moduleImportMap = merged.get(discoveredImportMap);
+    if (!moduleImportMap) {
+      const configuredWins = this.#importMapPrecedence === "configured-wins" || this.#callImportMaps.has(base);
+      moduleImportMap = mergeImportMaps(base, discoveredImportMap, {
+        strategy: configuredWins ? "first-wins" : "last-wins",
+      }).importMap;
+      merged.set(discoveredImportMap, moduleImportMap);
+    }
+    return moduleImportMap;
+  }
+
+  // Load the import map of the nearest deno.json to a local module, along with the members of its workspace
+  async #discoverImportMap(moduleUrl: URL): Promise<ImportMap | undefined> {
+    const configFilePath = await findDenoConfigFile(fromFileUrl(moduleUrl));
+    if (!configFilePath) {
+      return undefined;
+    }
+
+    const configImportMap = await this.#loadConfigImportMap(configFilePath);
+    const workspace = await findWorkspace(configFilePath);
+    if (!workspace) {
+      return configImportMap;
+    }
+
+    // Members inherit the imports of the workspace root & can import each other by name
+    const rootImportMap = workspace.rootConfigFilePath === configFilePath
+      ? { imports: {} }
+      : await this.#loadConfigImportMap(workspace.rootConfigFilePath);
+    return mergeImportMaps(rootImportMap, getWorkspaceImportMap(workspace), configImportMap).importMap;
+  }
+
+  // Parse the import map of a deno.json, logging its problems & failing on those that make it unusable
+  #loadConfigImportMap(configFilePath: string): Promise<ImportMap> {
+    let importMap = this.#configImportMaps.get(configFilePath);
+    if (!importMap) {
+      importMap = this.#parseConfigImportMap(configFilePath);
+      this.#configImportMaps.set(configFilePath, importMap);
+    }
+    return importMap;
+  }
+
+  // Read & parse the import map of a deno.json, merging its inline imports over the import map file it references
+  async #parseConfigImportMap(configFilePath: string): Promise<ImportMap> {
+    const config = parseJsonc(await Deno.readTextFile(configFilePath), configFilePath);
+    const configUrl = toFileUrl(configFilePath);
+    const { importMap, diagnostics } = parseImportMap(config, configUrl, { configFile: true });
+    this.#reportImportMapDiagnostics(configFilePath, diagnostics);
+
+    const reference = (config as { importMap?: unknown } | undefined)?.importMap;
+    if (typeof reference !== "string") {
+      return importMap;
+    }
+
+    // The referenced import map's own relative addresses are resolved against its URL
+    const importMapUrl = new URL(reference, configUrl);
+    const importMapPath = importMapUrl.protocol === "file:" ? fromFileUrl(importMapUrl) : importMapUrl.href;
+    const referenced = parseImportMap(
+      parseJsonc(await this.#readModuleContent(importMapUrl), importMapPath),
+      importMapUrl,
+    );
+    this.#reportImportMapDiagnostics(importMapPath, referenced.diagnostics);
+
+    return mergeImportMaps(referenced.importMap, importMap).importMap;
+  }
+
+  // Log the problems of an import map, failing on those that make it unusable
+  #reportImportMapDiagnostics(path: string, diagnostics: ImportMapDiagnostic[]) {
+    for (const diagnostic of diagnostics) {
+      this.#logger.warn({ type: "import-map-diagnostic", path, diagnostic });
+    }
+    const errors = diagnostics.filter(({ severity }) => severity === "error");
+    if (errors.length > 0) {
+      throw new Error(`Invalid import map in ${path}: ${errors.map(({ message }) => message).join(", ")}`);
+    }
+  }
+
+  #transformModule(moduleUrl: URL, importMap?: ImportMap): Promise<string> {
+    const urlString = moduleUrl.href;
+
+    // Check if already transformed
+    const transformedUrl = this.#transformedModules.get(urlString);
+    if (transformedUrl) {
+      this.#logger.debug({ type: "cache-hit", url: urlString, cacheUrl: transformedUrl, cache: "memory" });
+      return Promise.resolve(transformedUrl);
+    }
+
+    // Share the work with any concurrent transformation of the same module
+    let transformationPromise = this.#transformationPromises.get(urlString);
+    if (!transformationPromise) {
+      transformationPromise = this.#transformGraph(moduleUrl, importMap).finally(() => {
+        // Only clean up after ourselves, the module may have been invalidated & transformed again meanwhile
+        if (this.#transformationPromises.get(urlString) === transformationPromise) {
+          this.#transformationPromises.delete(urlString);
+        }
+      });
+      this.#transformationPromises.set(urlString, transformationPromise);
+    }
+    return transformationPromise;
+  }
+
+  // Transform a module along with every dependency that has not been transformed yet.
+  //
+  // This happens in three phases:
+  // 1. Analyse every reachable module, collecting its dependencies
+  // 2. Hash each module over its transitive dependencies (see computeTransitiveHashes)
+  // 3. Link each module against the cache URLs of its dependencies & write it to the cache
+  //
+  // Because cache URLs are derived from the hashes alone, every cache URL is known
+  // before any code is written, which makes circular dependencies a non-issue.
+  async #transformGraph(rootUrl: URL, importMap?: ImportMap): Promise<string> {
+    const generation = this.#generation;
+    const { modules, failures, importers } = await this.#analyzeGraph(rootUrl, importMap);
+
+    if (this.#failureMode === "strict") {
+      const fatal = [...failures].filter(([url]) => url === rootUrl.href || !this.#isNativeSpecifier(url));
+      if (fatal.length > 0) {
+        throw new TsImporterError(
+          rootUrl.href,
+          fatal.map(([url, cause]) => ({ url, importers: getImportChain(url, importers), cause })),
+        );
+      }
+    }
+
+    const rootFailure = failures.get(rootUrl.href);
+    if (rootFailure) {
+      throw rootFailure;
+    }
+
+    for (const [url, error] of failures) {
+      // If transformation fails, keep the resolved URL to avoid broken imports
+      this.#logger.warn({ type: "dependency-failed", url, error });
+    }
+
+    const hashes = computeTransitiveHashes(
+      modules,
+      (url) => this.#moduleHashes.get(url) ?? `unresolved:${url}`,
+    );
+
+    const cacheUrls = new Map<string, string>();
+    for (const [url, hash] of hashes) {
+      cacheUrls.set(url, this.#getCacheUrl(url, hash));
+    }
+
+    const manifest = await this.#getManifest();
+    await Promise.all([...modules].map(async ([url, analysis]) => {
+      const cacheUrl = cacheUrls.get(url)!;
+      TsImporter.#owners.set(cacheUrl, {
+        importer: this,
+        url,
+        importMap: analysis.importMap,
+        graphImportMap: importMap,
+      });
+
+      // Disk cache check, a hit skips transpilation and import rewriting entirely
+      if (analysis.entry?.cacheUrl === cacheUrl && await this.#touchCacheFile(cacheUrl)) {
+        this.#logger.debug({ type: "cache-hit", url, cacheUrl, cache: "disk" });
+      } else {
+        const source = await analysis.source();
+
+        // Second pass: replace dependency paths with cached paths
+        const replacer = (specifier: string) => {
+          const dependency = source.specifiers.get(specifier);
+          if (!dependency) {
+            return specifier;
+          }
+          return cacheUrls.get(dependency) ?? this.#transformedModules.get(dependency) ?? dependency;
         };
+        if (source.asset) {
+          // Assets are cached untouched, apart from pointing WebAssembly imports at the cached dependencies
+          const asset = source.specifiers.size > 0 ? replaceWasmImports(source.asset, replacer) : source.asset;
+          await this.#writeToCache(cacheUrl, asset);
+        } else {
+          let finalCode = source.code;
+          let map = source.map;
+          if (source.specifiers.size > 0) {
+            if (map) {
+              const replaced = await replaceImportsWithSourceMap(
+                url,
+                source.code,
+                replacer,
+                this.#replaceImportsOptions,
+              );
+              finalCode = replaced.code;
+              map = composeSourceMaps(replaced.map, map);
+            } else {
+              finalCode = await replaceImports(url, source.code, replacer, this.#replaceImportsOptions);
+            }
+          }
+
+          // Add comment banner and write final code to cache
+          let content = finalCode;
+          if (source.banner) {
+            const banner = createOriginalUrlComment(url);
+            content = banner + finalCode;
+            if (map) {
+              map = composeSourceMaps(createEditSourceMap(finalCode, [{ start: 0, end: 0, text: banner }], url), map);
+            }
+          }
+
+          // Map the final code back through every rewrite & the transpilation to the original source
+          if (map) {
+            content += createInlineSourceMapComment(map);
+          }
+
+          await this.#writeToCache(cacheUrl, content);
+        }
+      }
+
+      // Modules that fell back to an untransformed dependency are not recorded so they get retried
+      const complete = analysis.dependencies.every((dependency) => !failures.has(dependency));
+      if (complete && analysis.entry?.cacheUrl !== cacheUrl) {
+        manifest.set(url, { fingerprint: analysis.fingerprint, cacheUrl, dependencies: analysis.dependencies });
       }
+    }));
+
+    // Don't remember anything about modules that were invalidated while we were working on them
+    if (generation !== this.#generation) {
+      return cacheUrls.get(rootUrl.href)!;
     }
 
-    const transformedUrl = await this.#transformModule(url, effectiveImportMap);
-    console.log({ specifier, url, transformedUrl, effectiveImportMap });
-    const module = await import(transformedUrl) as T;
+    for (const [url, cacheUrl] of cacheUrls) {
+      this.#transformedModules.set(url, cacheUrl);
+      this.#moduleHashes.set(url, hashes.get(url)!);
+      this.#moduleDependencies.set(url, modules.get(url)!.dependencies);
+    }
 
-    this.#cache.set(specifier, module);
-    return module;
+    return cacheUrls.get(rootUrl.href)!;
   }
 
-  async #transformModule(moduleUrl: URL, importMap?: ImportMap): Promise<string> {
+  // Analyse the module and all of its dependencies (that are not already transformed) in parallel
+  async #analyzeGraph(rootUrl: URL, importMap?: ImportMap): Promise<{
+    modules: Map<string, ModuleAnalysis>;
+    failures: Map<string, Error>;
+    importers: Map<string, string>;
+  }> {
+    const modules = new Map<string, ModuleAnalysis>();
+    const failures = new Map<string, Error>();
+    const importers = new Map<string, string>();
+    const pending = new Map<string, Promise<void>>();
+
+    const visit = (url: string) => {
+      if (this.#transformedModules.has(url) || pending.has(url)) {
+        return;
+      }
+      pending.set(
+        url,
+        this.#analyzeModule(new URL(url), importMap).then(
+          (analysis) => {
+            modules.set(url, analysis);
+            for (const dependency of analysis.dependencies) {
+              // Remember the first importer of each module, to explain how a failing module was reached
+              if (!importers.has(dependency) && dependency !== rootUrl.href) {
+                importers.set(dependency, url);
+              }
+              visit(dependency);
+            }
+          },
+          (error) => {
+            failures.set(url, error);
+          },
+        ),
+      );
+    };
+
+    visit(rootUrl.href);
+
+    // Dependencies are discovered as analyses complete, so wait until no new ones turn up
+    let size;
+    do {
+      size = pending.size;
+      await Promise.all(pending.values());
+    } while (pending.size !== size);
+
+    return { modules, failures, importers };
+  }
+
+  // Read a module and work out its dependencies
+  async #analyzeModule(moduleUrl: URL, graphImportMap?: ImportMap): Promise<ModuleAnalysis> {
     const urlString = moduleUrl.href;
 
     // Clear Deno's cache for this module if requested
@@ -254,134 +1185,411 @@ export class TsImporter {
       await this.#clearDenoCacheForUrl(moduleUrl);
     }
 
-    // Check if already transformed
-    if (this.#transformedModules.has(urlString)) {
-      return this.#transformedModules.get(urlString)!;
+    // An npm: or jsr: specifier is only left unresolved when its package isn't installed or vendored
+    if (moduleUrl.protocol === "npm:" || moduleUrl.protocol === "jsr:") {
+      throw this.#resolutionErrors.get(urlString) ?? new Error(`Failed to resolve ${urlString}`);
     }
 
-    // Handle circular dependencies
-    if (this.#processingModules.has(urlString)) {
-      // If we're already processing this module, wait for the existing promise
-      const existingPromise = this.#transformationPromises.get(urlString);
-      if (existingPromise) {
-        return existingPromise;
-      }
-      return urlString;
+    // Each module is resolved with its own deno.json, rather than the one of the module its graph was imported from
+    const importMap = await this.#getModuleImportMap(moduleUrl, graphImportMap);
+
+    // Assets are cached as is, only WebAssembly modules have dependencies to link
+    const mediaType = getMediaType(moduleUrl);
+    if (isAssetMediaType(mediaType)) {
+      return this.#analyzeAsset(moduleUrl, mediaType, importMap);
     }
 
-    // Note: Disk cache check could be implemented here for further optimization
+    // Read the module content
+    const originalCode = await this.#readModuleContent(moduleUrl);
+    const compilerOptions = await this.#getCompilerOptions(moduleUrl);
+    const npmResolution = await this.#getNpmResolutionHash(moduleUrl);
+    const fingerprint = this.#getFingerprint(urlString, originalCode, compilerOptions, importMap, npmResolution);
+
+    // An unchanged module has the same dependencies as last time, so defer the
+    // expensive transformation until it turns out the cached file can't be reused.
+    // While preparing, jsr: dependencies that are still unresolved have to be vendored first though.
+    const entry = (await this.#getManifest()).get(urlString);
+    const unvendoredEntry = this.#preparing > 0 && entry?.dependencies.some((url) => this.#isJsr(url));
+    if (entry?.fingerprint === fingerprint && !unvendoredEntry) {
+      let source: Promise<TransformedSource> | undefined;
+      return {
+        fingerprint,
+        dependencies: entry.dependencies,
+        entry,
+        importMap,
+        source: () => source ??= this.#transformSource(moduleUrl, originalCode, compilerOptions, importMap),
+      };
+    }
+
+    let source = await this.#transformSource(moduleUrl, originalCode, compilerOptions, importMap);
+
+    // While preparing, download the metadata of jsr: packages that aren't vendored yet & resolve them again
+    const unvendored = this.#preparing > 0 ? [...source.specifiers.values()].filter((url) => this.#isJsr(url)) : [];
+    if (this.#vendorDir && unvendored.length > 0) {
+      const vendorDir = this.#vendorDir;
+      const failed = new Map<string, Error>();
+      await Promise.all(
+        unvendored.map((url) => vendorJsrPackage(url, vendorDir).catch((error) => failed.set(url, error))),
+      );
+      source = await this.#transformSource(moduleUrl, originalCode, compilerOptions, importMap);
+      // Explain why a package couldn't be vendored, rather than that it isn't
+      failed.forEach((error, url) => this.#resolutionErrors.set(url, error));
+    }
 
-    this.#processingModules.add(urlString);
+    return {
+      fingerprint,
+      dependencies: [...new Set(source.specifiers.values())],
+      importMap,
+      source: () => Promise.resolve(source),
+    };
+  }
 
-    // Create and store the transformation promise
-    const transformationPromise = (async () => {
+  // Read a JSON, WebAssembly or other asset, skipping transpilation entirely
+  async #analyzeAsset(moduleUrl: URL, mediaType: MediaType, importMap?: ImportMap): Promise<ModuleAnalysis> {
+    const urlString = moduleUrl.href;
+    let asset = await this.#readModuleBytes(moduleUrl);
+
+    // Fail here, with the import chain, rather than when the importing module is evaluated
+    if (mediaType === "Json") {
       try {
-        // Read the module content
-        const originalCode = await this.#readModuleContent(moduleUrl);
-
-        // Transpile TypeScript to JavaScript.
-        const transpiledCode = transpileTypeScript(originalCode, this.#tsTranspileOptions);
-
-        // Quick check if module has any imports or uses import.meta.url
-        if (
-          !this.#hasImports(transpiledCode) &&
-          !this.#hasImportMetaUrl(transpiledCode)
-        ) {
-          // Skip transformation for modules without imports or import.meta.url
-          return await this.#cacheModule(urlString, transpiledCode, importMap);
+        JSON.parse(new TextDecoder().decode(asset));
+      } catch (error) {
+        throw new Error(`Failed to parse ${urlString}: ${(error as Error).message}`);
+      }
+    }
+
+    // Only the imports of a WebAssembly module are import mapped
+    const wasm = mediaType === "Wasm";
+    const fingerprint = this.#getFingerprint(urlString, encodeBase64(asset), undefined, wasm ? importMap : undefined);
+
+    let specifiers = new Map<string, string>();
+    if (wasm) {
+      const { replacer, resolveSpecifiers } = this.#createSpecifierCollector(moduleUrl, importMap);
+      asset = replaceWasmImports(asset, replacer);
+      specifiers = resolveSpecifiers();
+    }
+
+    const source: TransformedSource = { code: "", specifiers, banner: false, asset };
+    const entry = (await this.#getManifest()).get(urlString);
+    return {
+      fingerprint,
+      dependencies: [...new Set(specifiers.values())],
+      ...(entry?.fingerprint === fingerprint && { entry }),
+      importMap,
+      source: () => Promise.resolve(source),
+    };
+  }
+
+  // First pass: transpile the module, apply the import map & replace import.meta
+  async #transformSource(
+    moduleUrl: URL,
+    originalCode: string,
+    compilerOptions?: CompilerOptions,
+    importMap?: ImportMap,
+  ): Promise<TransformedSource> {
+    const urlString = moduleUrl.href;
+    const mediaType = getMediaType(moduleUrl);
+
+    // CommonJS can't become an ES module by transpiling it, it is loaded through require() instead
+    if (this.#isCommonJs(moduleUrl, mediaType)) {
+      return { code: createCommonJsModule(urlString, originalCode), specifiers: new Map(), banner: true };
+    }
+
+    // Transpile TypeScript to JavaScript.
+    const mode = getTranspileMode(this.#tsTranspileOptions.mode);
+    const start = performance.now();
+    const transpileOptions = { mode, compilerOptions, mediaType };
+    const { code: transpiledCode, map: transpiledMap } = this.#sourceMaps
+      ? transpileTypeScriptWithSourceMap(originalCode, urlString, transpileOptions)
+      : { code: transpileTypeScript(originalCode, transpileOptions), map: undefined };
+    this.#logger.debug({ type: "module-transpiled", url: urlString, mode, duration: performance.now() - start });
+
+    // Quick check if module has any imports
+    if (!this.#hasImports(transpiledCode)) {
+      // Replace import.meta.url & dynamic imports even for modules without imports
+      if (!usesImportMeta(transpiledCode, urlString) && !this.#hasDynamicImports(transpiledCode)) {
+        return { code: transpiledCode, specifiers: new Map(), banner: false, map: transpiledMap };
+      }
+      const replaced = this.#replaceImportMeta(transpiledCode, moduleUrl, importMap, transpiledMap);
+      const { code, map } = this.#replaceDynamicImports(replaced.code, urlString, replaced.map);
+
+      // Add comment banner only if code was processed
+      return { code, specifiers: new Map(), banner: code !== transpiledCode, map };
+    }
+
+    // Replace imports and collect dependencies
+    const { replacer: replacerWithDependencyCollection, resolveSpecifiers } = this.#createSpecifierCollector(
+      moduleUrl,
+      importMap,
+    );
+    let replacedCode = transpiledCode;
+    let replacedMap = transpiledMap;
+    if (transpiledMap) {
+      const replaced = await replaceImportsWithSourceMap(
+        urlString,
+        transpiledCode,
+        replacerWithDependencyCollection,
+        this.#replaceImportsOptions,
+      );
+      replacedCode = replaced.code;
+      replacedMap = composeSourceMaps(replaced.map, transpiledMap);
+    } else {
+      replacedCode = await replaceImports(
+        urlString,
+        transpiledCode,
+        replacerWithDependencyCollection,
+        this.#replaceImportsOptions,
+      );
+    }
+
+    // Replace import.meta.url with the original URL & route the remaining dynamic imports to the importer
+    const replaced = this.#replaceImportMeta(replacedCode, moduleUrl, importMap, replacedMap);
+    const { code: transformedCode, map } = this.#replaceDynamicImports(replaced.code, urlString, replaced.map);
+
+    return { code: transformedCode, specifiers: resolveSpecifiers(), banner: true, map };
+  }
+
+  // Create a replacer applying the import map, that collects the dependencies it is called with
+  #createSpecifierCollector(moduleUrl: URL, importMap?: ImportMap): {
+    replacer: (specifier: string) => string;
+    resolveSpecifiers: () => Map<string, string>;
+  } {
+    const applyImportMapToSpecifier = this.#createImportMapResolver(moduleUrl, importMap);
+
+    // Like Deno, the import map doesn't apply to npm packages, their bare specifiers name other packages
+    const npmPackageModule = isNpmPackageModule(moduleUrl);
+
+    // Collect dependencies during replacement
+    const originalToTransformedSpecifiers = new Map<string, string>();
+    const allLocalSpecifiers = new Set<string>();
+    const replacer = (specifier: string): string => {
+      // Track all local imports (relative and file://)
+      if (this.#isRelativeOrFileUrl(specifier)) {
+        allLocalSpecifiers.add(specifier);
+      }
+      let transformed = npmPackageModule ? specifier : applyImportMapToSpecifier(specifier);
+      if (this.#isNpm(transformed) || (npmPackageModule && isBareSpecifier(transformed))) {
+        transformed = this.#resolveNpmSpecifier(transformed, moduleUrl);
+      } else if (this.#isJsr(transformed) && this.#vendorDir) {
+        transformed = this.#resolveJsrSpecifier(transformed, this.#vendorDir);
+      }
+      originalToTransformedSpecifiers.set(specifier, transformed);
+      return transformed;
+    };
+
+    // Resolve the specifiers of all dependencies that need transforming
+    const resolveSpecifiers = (): Map<string, string> => {
+      const specifiers = new Map<string, string>();
+      for (const [, transformedSpecifier] of originalToTransformedSpecifiers) {
+        const shouldProcess = this.#isRelativeOrFileUrl(transformedSpecifier) ||
+          this.#isHttpUrl(transformedSpecifier) ||
+          this.#isJsr(transformedSpecifier) ||
+          this.#isNpm(transformedSpecifier);
+
+        if (shouldProcess) {
+          specifiers.set(transformedSpecifier, this.#resolveDependencyUrl(transformedSpecifier, moduleUrl).href);
         }
+      }
 
-        // Pre-process import map for optimized replacer
-        const importEntries = importMap ? Object.entries(importMap.imports) : [];
-        const scopeEntries = new Map<string, Array<[string, string]>>();
-        if (importMap?.scopes) {
-          for (const [scope, imports] of Object.entries(importMap.scopes)) {
-            scopeEntries.set(scope, Object.entries(imports));
-          }
+      // Also resolve local specifiers that weren't transformed by import map
+      for (const localSpecifier of allLocalSpecifiers) {
+        if (!originalToTransformedSpecifiers.has(localSpecifier)) {
+          specifiers.set(localSpecifier, this.#resolveDependencyUrl(localSpecifier, moduleUrl).href);
         }
+      }
 
-        // Create optimized replacer function
-        const applyImportMapToSpecifier = this.#createOptimizedReplacer(
-          urlString,
-          importEntries,
-          scopeEntries,
-        );
+      return specifiers;
+    };
 
-        // Collect dependencies during replacement
-        const originalToTransformedSpecifiers = new Map<string, string>();
-        const allLocalSpecifiers = new Set<string>();
-        const replacerWithDependencyCollection = (
-          specifier: string,
-        ): string => {
-          // Track all local imports (relative and file://)
-          if (this.#isRelativeOrFileUrl(specifier)) {
-            allLocalSpecifiers.add(specifier);
-          }
-          const transformed = applyImportMapToSpecifier(specifier);
-          originalToTransformedSpecifiers.set(specifier, transformed);
-          return transformed;
-        };
+    return { replacer, resolveSpecifiers };
+  }
 
-        // First pass: replace imports and collect dependencies
-        let transformedCode = await replaceImports(
-          urlString,
-          transpiledCode,
-          replacerWithDependencyCollection,
-        );
+  // Replace import.meta, extending the source map of the code when there is one
+  #replaceImportMeta(
+    code: string,
+    moduleUrl: URL,
+    importMap?: ImportMap,
+    map?: SourceMap,
+  ): { code: string; map?: SourceMap } {
+    // Specifiers known up front are resolved through the import map now, the others by the hook when the call runs
+    const options: ReplaceImportMetaOptions = {
+      resolveSpecifier: (specifier) => {
+        try {
+          return this.#resolveFromModule(specifier, moduleUrl, importMap);
+        } catch {
+          return undefined;
+        }
+      },
+      resolveHook: RESOLVE_HOOK,
+    };
+    if (!map) {
+      return { code: replaceImportMeta(code, moduleUrl.href, options) };
+    }
+    const replaced = replaceImportMetaWithSourceMap(code, moduleUrl.href, options);
+    return { code: replaced.code, map: composeSourceMaps(replaced.map, map) };
+  }
+
+  // Route the dynamic imports whose specifier isn't a literal to the importer, extending the source map if there is one
+  #replaceDynamicImports(code: string, url: string, map?: SourceMap): { code: string; map?: SourceMap } {
+    if (!map) {
+      return { code: replaceDynamicImports(code, url, IMPORT_HOOK) };
+    }
+    const replaced = replaceDynamicImportsWithSourceMap(code, url, IMPORT_HOOK);
+    return { code: replaced.code, map: composeSourceMaps(replaced.map, map) };
+  }
+
+  // Import a module, with the import attributes of the dynamic import it comes from if any
+  async #import<T>(specifier: string, importMap?: ImportMap, options?: ImportCallOptions): Promise<T> {
+    // Memory cache check
+    if (this.#cache.has(specifier)) {
+      return this.#cache.get(specifier) as T;
+    }
 
-        // Replace import.meta.url with the original URL
-        transformedCode = replaceImportMeta(transformedCode, urlString);
+    const { url, effectiveImportMap } = await this.#resolveRoot(specifier, importMap);
+    const transformedUrl = await this.#transformModule(url, effectiveImportMap);
+    await (await this.#getManifest()).save();
+    this.#logger.debug({ type: "module-imported", specifier, url: url.href, cacheUrl: transformedUrl });
+    // JSON modules can only be imported with the matching import attribute
+    const module = await import(
+      transformedUrl,
+      options ?? (getMediaType(url) === "Json" ? { with: { type: "json" } } : undefined)
+    ) as T;
 
-        // Register cache URL early for circular dependencies
-        const cacheUrl = this.#getCacheUrl(urlString, transformedCode, importMap);
-        this.#transformedModules.set(urlString, cacheUrl);
+    this.#cache.set(specifier, module);
+    return module;
+  }
 
-        // Process dependencies in parallel (optimization)
-        const transformedToCachedUrls = await this.#processDependenciesParallel(
-          originalToTransformedSpecifiers,
-          allLocalSpecifiers,
-          moduleUrl,
-          importMap,
-        );
+  // Import a module a transformed module imports dynamically, resolved & transformed like a static import
+  async #importFromModule(
+    specifier: string,
+    moduleUrl: URL,
+    importMap?: ImportMap,
+    graphImportMap?: ImportMap,
+    options?: ImportCallOptions,
+  ): Promise<unknown> {
+    let url = this.#resolveFromModule(specifier, moduleUrl, importMap);
+    if (this.#isNpm(url)) {
+      url = resolveNpmSpecifier(url, moduleUrl).href;
+    }
 
-        // Second pass: replace dependency paths with cached paths
-        const finalCode = transformedToCachedUrls.size > 0
-          ? await replaceImports(
-            urlString,
-            transformedCode,
-            (specifier) => transformedToCachedUrls.get(specifier) || specifier,
-          )
-          : transformedCode;
-
-        // Add comment banner and write final code to cache
-        const codeWithBanner = createOriginalUrlComment(urlString) + finalCode;
-        await this.#writeToCache(cacheUrl, codeWithBanner);
-        return cacheUrl;
-      } finally {
-        this.#processingModules.delete(urlString);
-        this.#transformationPromises.delete(urlString);
+    // Built-in modules, data: URLs & jsr: packages Deno downloads itself are imported natively
+    const transformable = url.startsWith("file:") || this.#isHttpUrl(url) || (this.#isJsr(url) && this.#vendorDir);
+    return transformable ? await this.#import(url, graphImportMap, options) : await import(url, options);
+  }
+
+  // Resolve a specifier the way import.meta.resolve() does in the original module, through its import map
+  #resolveFromModule(specifier: string, moduleUrl: URL, importMap?: ImportMap): string {
+    return resolveModuleSpecifier(this.#normalizeImportMap(importMap ?? EMPTY_IMPORT_MAP), specifier, moduleUrl).href;
+  }
+
+  // Collect the local files a transformed module was built from, including itself
+  #getLocalFiles(rootUrl: string): Set<string> {
+    return new Set([...this.#getModuleGraph([rootUrl])].filter((url) => url.startsWith("file:")));
+  }
+
+  // Collect the modules along with every module they (transitively) depend on
+  #getModuleGraph(rootUrls: string[]): Set<string> {
+    const seen = new Set<string>();
+    const visit = (url: string) => {
+      if (seen.has(url)) {
+        return;
       }
-    })();
+      seen.add(url);
+      this.#moduleDependencies.get(url)?.forEach(visit);
+    };
+    rootUrls.forEach(visit);
+    return seen;
+  }
 
-    this.#transformationPromises.set(urlString, transformationPromise);
-    return transformationPromise;
+  // Forget the given modules & optionally every module that imports them, so the next import transforms them again
+  #invalidateModules(urls: Iterable<string>, transitive = true): Set<string> {
+    const invalid = transitive ? collectImporters(urls, this.#moduleDependencies) : new Set(urls);
+
+    for (const url of invalid) {
+      this.#transformedModules.delete(url);
+      this.#moduleHashes.delete(url);
+      this.#moduleDependencies.delete(url);
+      this.#transformationPromises.delete(url);
+    }
+
+    for (const specifier of this.#cache.keys()) {
+      if (invalid.has(new URL(specifier, import.meta.url).href)) {
+        this.#cache.delete(specifier);
+      }
+    }
+
+    // Stop routing the hooks of the forgotten modules here, so nothing global keeps this importer alive
+    for (const [cacheUrl, owner] of TsImporter.#owners) {
+      if (owner.importer === this && invalid.has(owner.url)) {
+        TsImporter.#owners.delete(cacheUrl);
+      }
+    }
+
+    this.#generation++;
+    return invalid;
   }
 
   // Optimized module content reading
   async #readModuleContent(moduleUrl: URL): Promise<string> {
-    console.log(`Reading module content from ${moduleUrl.href}`);
+    return new TextDecoder().decode(await this.#readModuleBytes(moduleUrl));
+  }
 
+  // Read the raw bytes of a module, assets aren't necessarily text
+  async #readModuleBytes(moduleUrl: URL): Promise<Uint8Array> {
+    let content: Uint8Array;
     if (moduleUrl.protocol === "file:") {
-      return Deno.readTextFile(fromFileUrl(moduleUrl));
+      content = await Deno.readFile(fromFileUrl(moduleUrl));
+    } else {
+      const vendored = this.#vendorDir && this.#isHttpUrl(moduleUrl.href)
+        ? await this.#readVendoredModule(moduleUrl, this.#vendorDir)
+        : undefined;
+      if (vendored) {
+        content = vendored;
+      } else {
+        const response = await fetch(moduleUrl);
+        if (!response.ok) {
+          throw new Error(
+            `Failed to fetch ${moduleUrl.href}: ${response.statusText}`,
+          );
+        }
+        content = new Uint8Array(await response.arrayBuffer());
+
+        // Remote modules fetched while preparing are vendored, so they are never fetched again
+        if (this.#preparing > 0 && this.#vendorDir && this.#isHttpUrl(moduleUrl.href)) {
+          const vendorPath = getVendorPath(this.#vendorDir, moduleUrl);
+          await ensureDir(dirname(vendorPath));
+          await Deno.writeFile(vendorPath, content);
+        }
+      }
     }
 
-    const response = await fetch(moduleUrl);
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch ${moduleUrl.href}: ${response.statusText}`,
-      );
+    this.#logger.debug({ type: "module-read", url: moduleUrl.href, size: content.length });
+    return content;
+  }
+
+  // Whether a local module is CommonJS, like Node.js the .js files of a package are unless it says otherwise
+  #isCommonJs(moduleUrl: URL, mediaType: MediaType): boolean {
+    if (moduleUrl.protocol !== "file:") {
+      return false;
+    }
+    return mediaType === "Cjs" ||
+      (mediaType === "JavaScript" && isNpmPackageModule(moduleUrl) && getPackageType(moduleUrl) === "commonjs");
+  }
+
+  // Read a remote module from the vendor directory, undefined when it isn't vendored (only allowed online)
+  async #readVendoredModule(moduleUrl: URL, vendorDir: string): Promise<Uint8Array | undefined> {
+    const vendorPath = getVendorPath(vendorDir, moduleUrl);
+    try {
+      return await Deno.readFile(vendorPath);
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        throw error;
+      }
+      if (this.#offline) {
+        throw new Error(`Cannot load ${moduleUrl.href} while offline, it is not vendored at ${vendorPath}`);
+      }
+      return undefined;
     }
-    return response.text();
   }
 
   // Quick check if module has imports
@@ -390,146 +1598,160 @@ export class TsImporter {
     return /(?:import|export)\s+(?:.*\s+from\s+|)['"]/m.test(code);
   }
 
-  // Quick check if module uses import.meta properties or methods
-  #hasImportMetaUrl(code: string): boolean {
-    // Quick regex check for import.meta.url, filename, dirname, or resolve()
-    return /\bimport\s*\.\s*meta\s*\.\s*(url|filename|dirname|resolve\s*\()/
-      .test(code);
+  // Quick check if module may have dynamic imports
+  #hasDynamicImports(code: string): boolean {
+    return /\bimport\s*\(/.test(code);
   }
 
-  // Cache a module and return its cache URL
-  async #cacheModule(urlString: string, code: string, importMap?: ImportMap): Promise<string> {
-    // Replace import.meta.url even for modules without imports
-    const processedCode = this.#hasImportMetaUrl(code) ? replaceImportMeta(code, urlString) : code;
+  // Lazily load the persistent cache manifest
+  #getManifest(): Promise<CacheManifest> {
+    this.#manifest ??= CacheManifest.load(this.#cacheDir);
+    return this.#manifest;
+  }
 
-    // Add comment banner if code was processed
-    const finalCode = processedCode !== code ? createOriginalUrlComment(urlString) + processedCode : processedCode;
+  // Fingerprint the original source along with every setting that affects the transformation
+  #getFingerprint(
+    urlString: string,
+    code: string,
+    compilerOptions?: CompilerOptions,
+    importMap?: ImportMap,
+    npmResolution?: string,
+  ): string {
+    return getSourceFingerprint(urlString, code, {
+      importMap: importMap ?? { imports: {} },
+      mode: getTranspileMode(this.#tsTranspileOptions.mode),
+      sourceMaps: this.#sourceMaps,
+      compilerOptions,
+      // jsr: & remote specifiers are either resolved through Deno's cache, or to the vendor directory
+      jsr: this.#replaceImportsOptions.resolveJsr ? "deno" : this.#vendorDir,
+      // npm: & bare specifiers resolve to other files once packages are installed or upgraded
+      npm: npmResolution,
+    });
+  }
 
-    const cacheUrl = this.#getCacheUrl(urlString, finalCode, importMap);
-    await this.#writeToCache(cacheUrl, finalCode);
-    this.#transformedModules.set(urlString, cacheUrl);
-    return cacheUrl;
+  // Hash the closest package.json & lockfile of a module, which change whenever its npm packages do
+  #getNpmResolutionHash(moduleUrl: URL): Promise<string> {
+    // Every module in a directory resolves npm packages the same way, remote ones from the working directory
+    const dir = moduleUrl.protocol === "file:" ? dirname(fromFileUrl(moduleUrl)) : Deno.cwd();
+    let hash = this.#npmResolutionHashes.get(dir);
+    if (!hash) {
+      hash = Promise.all(
+        findNpmResolutionFiles(moduleUrl).map(async (path) =>
+          getSourceFingerprint(path, await Deno.readTextFile(path), undefined)
+        ),
+      ).then((hashes) => hashes.join(","));
+      this.#npmResolutionHashes.set(dir, hash);
+    }
+    return hash;
   }
 
-  // Get cache URL for a module
-  #getCacheUrl(urlString: string, code: string, importMap?: ImportMap): string {
-    // Use empty import map if none provided to ensure consistent cache behavior
-    const effectiveImportMap = importMap ?? { imports: {} };
-    const cachePath = getCachePath(urlString, code, effectiveImportMap);
+  // Merge the compiler options of the deno.json owning a local module over the configured ones
+  async #getCompilerOptions(moduleUrl: URL): Promise<CompilerOptions | undefined> {
+    const configured = this.#tsTranspileOptions.compilerOptions;
+    if (!this.#autoDiscoverCompilerOptions || moduleUrl.protocol !== "file:") {
+      return configured;
+    }
+
+    // Every module in a directory is owned by the same config file
+    const dir = dirname(fromFileUrl(moduleUrl));
+    let discovered = this.#discoveredCompilerOptions.get(dir);
+    if (!discovered) {
+      discovered = this.#discoverCompilerOptions(moduleUrl);
+      this.#discoveredCompilerOptions.set(dir, discovered);
+    }
+
+    const compilerOptions = await discovered;
+    return compilerOptions && Object.keys(compilerOptions).length > 0
+      ? { ...configured, ...compilerOptions }
+      : configured;
+  }
+
+  // Load the compiler options of the nearest deno.json to a local module
+  async #discoverCompilerOptions(moduleUrl: URL): Promise<CompilerOptions | undefined> {
+    const configFilePath = await findDenoConfigFile(fromFileUrl(moduleUrl));
+    return configFilePath ? await loadCompilerOptions(configFilePath) : undefined;
+  }
+
+  // Get cache URL for a module from its transitive hash
+  #getCacheUrl(urlString: string, hash: string): string {
+    const cachePath = getCachePathForHash(urlString, hash);
     const fullCachePath = join(this.#cacheDir, cachePath);
     return new URL(`file://${fullCachePath}`).href;
   }
 
+  // Record a cache hit as the last access of the cached file, for TsImporterCache to evict the least recently used
+  // files first even on file systems mounted with noatime or relatime. False when the file doesn't exist.
+  async #touchCacheFile(cacheUrl: string): Promise<boolean> {
+    const cachePath = fromFileUrl(cacheUrl);
+    try {
+      const { mtime } = await Deno.stat(cachePath);
+      await Deno.utime(cachePath, new Date(), mtime ?? new Date());
+      return true;
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
   // Write content to cache file
-  async #writeToCache(cacheUrl: string, content: string): Promise<void> {
+  async #writeToCache(cacheUrl: string, content: string | Uint8Array): Promise<void> {
     const cachePath = fromFileUrl(cacheUrl);
     const dir = join(cachePath, "..");
 
+    // Write to a temporary file first so no one ever imports a partially written module
+    const tmpPath = `${cachePath}.${crypto.randomUUID()}.tmp`;
     await ensureDir(dir);
-    await Deno.writeTextFile(cachePath, content);
+    if (typeof content === "string") {
+      await Deno.writeTextFile(tmpPath, content);
+    } else {
+      await Deno.writeFile(tmpPath, content);
+    }
+    await Deno.rename(tmpPath, cachePath);
   }
 
-  // Create optimized replacer using pre-processed data
-  #createOptimizedReplacer(
-    urlString: string,
-    importEntries: Array<[string, string]>,
-    scopeEntries: Map<string, Array<[string, string]>>,
-  ): (specifier: string) => string {
-    return (specifier: string): string => {
-      // Check imports first (most common case)
-      for (const [key, value] of importEntries) {
-        if (specifier === key || specifier.startsWith(key + "/")) {
-          const suffix = specifier.slice(key.length);
-          return value + suffix;
-        }
-      }
-
-      // Check scopes if available
-      if (scopeEntries.size > 0) {
-        for (const [scope, entries] of scopeEntries) {
-          if (urlString.startsWith(scope)) {
-            for (const [key, value] of entries) {
-              if (specifier === key || specifier.startsWith(key + "/")) {
-                const suffix = specifier.slice(key.length);
-                return value + suffix;
-              }
-            }
-          }
-        }
-      }
-
-      return specifier;
-    };
+  // Create a function applying the import map to the specifiers of a module, leaving those it doesn't map as they are
+  #createImportMapResolver(moduleUrl: URL, importMap?: ImportMap): (specifier: string) => string {
+    if (!importMap) {
+      return (specifier) => specifier;
+    }
+    const normalized = this.#normalizeImportMap(importMap);
+    return (specifier) => resolveImportMapSpecifier(normalized, specifier, moduleUrl)?.href ?? specifier;
   }
 
-  // Process dependencies in parallel
-  async #processDependenciesParallel(
-    originalToTransformedSpecifiers: Map<string, string>,
-    allLocalSpecifiers: Set<string>,
-    moduleUrl: URL,
-    importMap?: ImportMap,
-  ): Promise<Map<string, string>> {
-    const transformedToCachedUrls = new Map<string, string>();
-    const promises: Promise<void>[] = [];
-
-    // Process all transformed specifiers
-    for (const [, transformedSpecifier] of originalToTransformedSpecifiers) {
-      const shouldProcess = this.#isRelativeOrFileUrl(transformedSpecifier) ||
-        this.#isHttpUrl(transformedSpecifier) ||
-        this.#isJsr(transformedSpecifier) ||
-        this.#isNpm(transformedSpecifier);
-
-      if (shouldProcess) {
-        promises.push(
-          this.#processDependency(transformedSpecifier, moduleUrl, importMap)
-            .then((cachedUrl) => {
-              transformedToCachedUrls.set(transformedSpecifier, cachedUrl);
-            })
-            .catch((error) => {
-              // If transformation fails, keep the resolved URL to avoid broken imports
-              const resolvedUrl = this.#isRelativeOrFileUrl(transformedSpecifier)
-                ? new URL(transformedSpecifier, moduleUrl).href
-                : transformedSpecifier;
-              console.warn(
-                `Failed to transform ${transformedSpecifier}: ${error.message}`,
-              );
-              transformedToCachedUrls.set(transformedSpecifier, resolvedUrl);
-            }),
-        );
-      }
+  // Normalize an import map, relative to the working directory, once for every module of a graph
+  #normalizeImportMap(importMap: ImportMap): NormalizedImportMap {
+    let normalized = this.#normalizedImportMaps.get(importMap);
+    if (!normalized) {
+      normalized = normalizeImportMap(importMap, toFileUrl(join(Deno.cwd(), SEPARATOR)));
+      this.#normalizedImportMaps.set(importMap, normalized);
     }
+    return normalized;
+  }
 
-    // Also process local specifiers that weren't transformed by import map
-    for (const localSpecifier of allLocalSpecifiers) {
-      // Skip if already processed as a transformed specifier
-      if (!originalToTransformedSpecifiers.has(localSpecifier)) {
-        promises.push(
-          this.#processDependency(localSpecifier, moduleUrl, importMap)
-            .then((cachedUrl) => {
-              transformedToCachedUrls.set(localSpecifier, cachedUrl);
-            })
-            .catch((error) => {
-              // If transformation fails, keep the resolved URL to avoid broken imports
-              const resolvedUrl = this.#isRelativeOrFileUrl(localSpecifier)
-                ? new URL(localSpecifier, moduleUrl).href
-                : localSpecifier;
-              console.warn(
-                `Failed to transform ${localSpecifier}: ${error.message}`,
-              );
-              transformedToCachedUrls.set(localSpecifier, resolvedUrl);
-            }),
-        );
-      }
+  // Resolve an npm specifier to a file of the installed package, leaving it as is when that fails
+  #resolveNpmSpecifier(specifier: string, referrer: URL): string {
+    try {
+      return resolveNpmSpecifier(specifier, referrer).href;
+    } catch (error) {
+      this.#resolutionErrors.set(specifier, error as Error);
+      return specifier;
     }
+  }
 
-    await Promise.all(promises);
-    return transformedToCachedUrls;
+  // Resolve a jsr specifier to a module of a vendored package, leaving it as is when that fails
+  #resolveJsrSpecifier(specifier: string, vendorDir: string): string {
+    try {
+      return resolveJsrSpecifier(specifier, vendorDir).href;
+    } catch (error) {
+      this.#resolutionErrors.set(specifier, error as Error);
+      return specifier;
+    }
   }
 
-  // Process a single dependency
-  async #processDependency(specifier: string, baseUrl: URL, importMap?: ImportMap): Promise<string> {
-    const resolvedUrl = this.#isRelativeOrFileUrl(specifier) ? new URL(specifier, baseUrl) : new URL(specifier);
-    return await this.#transformModule(resolvedUrl, importMap);
+  #resolveDependencyUrl(specifier: string, baseUrl: URL): URL {
+    return this.#isRelativeOrFileUrl(specifier) ? new URL(specifier, baseUrl) : new URL(specifier);
   }
 
   // Optimized URL checks
@@ -551,6 +1773,11 @@ export class TsImporter {
     return specifier.startsWith("npm:");
   }
 
+  // Whether Deno can load the specifier by itself, without it being transformed first
+  #isNativeSpecifier(specifier: string): boolean {
+    return (this.#isJsr(specifier) && !this.#offline) || this.#isNpm(specifier);
+  }
+
   // Clear Deno's module cache for a specific URL
   async #clearDenoCacheForUrl(url: URL): Promise<void> {
     const cachedPath = getDenoCacheFilePath(url.href);
@@ -567,3 +1794,68 @@ export class TsImporter {
     }
   }
 }
+
+/**
+ * Follows the first importer of each module back to the imported module.
+ *
+ * @returns The importers, from the direct importer of the given module up to the imported module
+ */
+function getImportChain(url: string, importers: ReadonlyMap<string, string>): string[] {
+  const chain: string[] = [];
+  for (let importer = importers.get(url); importer && !chain.includes(importer); importer = importers.get(importer)) {
+    chain.push(importer);
+  }
+  return chain;
+}
+
+/**
+ * Collects the given modules along with every module that (transitively) imports them.
+ */
+function collectImporters(urls: Iterable<string>, dependencies: ReadonlyMap<string, readonly string[]>): Set<string> {
+  const collected = new Set(urls);
+
+  // Keep walking up the importers until no new ones turn up
+  let size;
+  do {
+    size = collected.size;
+    for (const [url, moduleDependencies] of dependencies) {
+      if (!collected.has(url) && moduleDependencies.some((dependency) => collected.has(dependency))) {
+        collected.add(url);
+      }
+    }
+  } while (collected.size !== size);
+
+  return collected;
+}
+
+/**
+ * Waits until any of the given files change, coalescing bursts of events into a single result.
+ *
+ * Resolves with the URLs of the changed files, or an empty set if the watcher is closed first.
+ */
+function waitForChanges(fsWatcher: Deno.FsWatcher, files: Set<string>, debounce: number): Promise<Set<string>> {
+  return new Promise((resolve, reject) => {
+    const changed = new Set<string>();
+    let timer: number | undefined;
+
+    (async () => {
+      for await (const event of fsWatcher) {
+        if (event.kind === "access") {
+          continue;
+        }
+        for (const path of event.paths) {
+          const url = toFileUrl(path).href;
+          if (files.has(url)) {
+            changed.add(url);
+          }
+        }
+        if (changed.size > 0) {
+          clearTimeout(timer);
+          timer = setTimeout(() => resolve(changed), debounce);
+        }
+      }
+      clearTimeout(timer);
+      resolve(changed);
+    })().catch(reject);
+  });
+}
@@ -0,0 +1,205 @@
+import { assertEquals } from "@std/assert";
+import { join } from "@std/path/join";
+import { toFileUrl } from "@std/path/to-file-url";
+import { afterEach, beforeEach, describe, it } from "@std/testing/bdd";
+import { CACHE_MANIFEST_FILENAME, CacheManifest } from "./cache_manifest.ts";
+import { createOriginalUrlComment } from "./replace_import_meta.ts";
+import { TsImporter } from "./ts_importer.ts";
+import { TsImporterCache } from "./ts_importer_cache.ts";
+
+describe("TsImporterCache", () => {
+  let cacheDir: string;
+
+  // Writes a file using the same layout as TsImporter and sets its access time
+  const writeEntry = async (
+    hashChar: string,
+    filename: string,
+    content: string,
+    accessed: Date,
+  ): Promise<string> => {
+    const hash = hashChar.repeat(64);
+    const dir = join(cacheDir, hash.slice(0, 2), hash.slice(2, 4));
+    await Deno.mkdir(dir, { recursive: true });
+    const path = join(dir, `${hash}-${filename}`);
+    await Deno.writeTextFile(path, content);
+    await Deno.utime(path, accessed, accessed);
+    return path;
+  };
+
+  const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  beforeEach(async () => {
+    cacheDir = await Deno.makeTempDir();
+  });
+
+  afterEach(async () => {
+    await Deno.remove(cacheDir, { recursive: true });
+  });
+
+  describe("list", () => {
+    it("should list entries least recently used first", async () => {
+      const newer = await writeEntry("a", "a.ts", "export {};", daysAgo(1));
+      const older = await writeEntry("b", "b.ts", "export {};", daysAgo(2));
+
+      const entries = await new TsImporterCache({ cacheDir }).list();
+
+      assertEquals(entries.map((entry) => entry.path), [older, newer]);
+      assertEquals(entries[0].cacheUrl, toFileUrl(older).href);
+      assertEquals(entries[0].size, "export {};".length);
+    });
+
+    it("should take the original URL from the comment banner", async () => {
+      await writeEntry("a", "a.ts", createOriginalUrlComment("file:///src/a.ts") + "export {};", daysAgo(1));
+
+      const [entry] = await new TsImporterCache({ cacheDir }).list();
+
+      assertEquals(entry.originalUrl, "file:///src/a.ts");
+    });
+
+    it("should take the original URL from the manifest", async () => {
+      const path = await writeEntry("a", "a.ts", "export {};", daysAgo(1));
+      const manifest = await CacheManifest.load(cacheDir);
+      manifest.set("file:///src/a.ts", { fingerprint: "a", cacheUrl: toFileUrl(path).href, dependencies: [] });
+      await manifest.save();
+
+      const [entry] = await new TsImporterCache({ cacheDir }).list();
+
+      assertEquals(entry.originalUrl, "file:///src/a.ts");
+    });
+
+    it("should ignore files that do not match the cache layout", async () => {
+      await writeEntry("a", "a.ts", "export {};", daysAgo(1));
+      await Deno.writeTextFile(join(cacheDir, "unrelated.txt"), "keep me");
+      await Deno.mkdir(join(cacheDir, "nested", "dir"), { recursive: true });
+      await Deno.writeTextFile(join(cacheDir, "nested", "dir", "file.ts"), "keep me");
+
+      const entries = await new TsImporterCache({ cacheDir }).list();
+
+      assertEquals(entries.length, 1);
+    });
+
+    it("should list modules cached by TsImporter", async () => {
+      const moduleDir = await Deno.makeTempDir();
+      try {
+        await Deno.writeTextFile(join(moduleDir, "a.ts"), `export const a: string = import.meta.url;`);
+        const moduleUrl = toFileUrl(join(moduleDir, "a.ts")).href;
+        await new TsImporter({ cacheDir }).import(moduleUrl);
+
+        const entries = await new TsImporterCache({ cacheDir }).list();
+
+        assertEquals(entries.map((entry) => entry.originalUrl), [moduleUrl]);
+      } finally {
+        await Deno.remove(moduleDir, { recursive: true });
+      }
+    });
+
+    it("should record cache hits of TsImporter as accesses", async () => {
+      const moduleDir = await Deno.makeTempDir();
+      try {
+        await Deno.writeTextFile(join(moduleDir, "a.ts"), `export const a: string = "a";`);
+        const moduleUrl = toFileUrl(join(moduleDir, "a.ts")).href;
+        await new TsImporter({ cacheDir }).import(moduleUrl);
+        const cache = new TsImporterCache({ cacheDir });
+        const [{ path }] = await cache.list();
+        // As if the file system never updated the access time, eg: when mounted with noatime
+        await Deno.utime(path, daysAgo(2), daysAgo(2));
+
+        await new TsImporter({ cacheDir }).import(moduleUrl);
+
+        const [entry] = await cache.list();
+        assertEquals(entry.modified < daysAgo(1), true);
+        assertEquals(entry.accessed > daysAgo(1), true);
+      } finally {
+        await Deno.remove(moduleDir, { recursive: true });
+      }
+    });
+  });
+
+  describe("size", () => {
+    it("should report the total size of all entries", async () => {
+      await writeEntry("a", "a.ts", "12345", daysAgo(1));
+      await writeEntry("b", "b.ts", "1234567890", daysAgo(1));
+
+      assertEquals(await new TsImporterCache({ cacheDir }).size(), 15);
+    });
+
+    it("should report zero for a missing cache directory", async () => {
+      assertEquals(await new TsImporterCache({ cacheDir: join(cacheDir, "missing") }).size(), 0);
+    });
+  });
+
+  describe("prune", () => {
+    it("should remove entries older than maxAge", async () => {
+      const fresh = await writeEntry("a", "a.ts", "export {};", daysAgo(1));
+      const stale = await writeEntry("b", "b.ts", "export {};", daysAgo(10));
+
+      const cache = new TsImporterCache({ cacheDir });
+      const removed = await cache.prune({ maxAge: 7 * 24 * 60 * 60 * 1000 });
+
+      assertEquals(removed.map((entry) => entry.path), [stale]);
+      assertEquals((await cache.list()).map((entry) => entry.path), [fresh]);
+    });
+
+    it("should keep only the most recently used maxEntries", async () => {
+      await writeEntry("a", "a.ts", "export {};", daysAgo(3));
+      const b = await writeEntry("b", "b.ts", "export {};", daysAgo(2));
+      const c = await writeEntry("c", "c.ts", "export {};", daysAgo(1));
+
+      const cache = new TsImporterCache({ cacheDir });
+      await cache.prune({ maxEntries: 2 });
+
+      assertEquals((await cache.list()).map((entry) => entry.path), [b, c]);
+    });
+
+    it("should evict least recently used entries until under maxBytes", async () => {
+      await writeEntry("a", "a.ts", "1234567890", daysAgo(3));
+      await writeEntry("b", "b.ts", "1234567890", daysAgo(2));
+      const c = await writeEntry("c", "c.ts", "1234567890", daysAgo(1));
+
+      const cache = new TsImporterCache({ cacheDir });
+      const removed = await cache.prune({ maxBytes: 15 });
+
+      assertEquals(removed.length, 2);
+      assertEquals((await cache.list()).map((entry) => entry.path), [c]);
+      assertEquals(await cache.size(), 10);
+    });
+
+    it("should remove pruned entries from the manifest", async () => {
+      const path = await writeEntry("a", "a.ts", "export {};", daysAgo(10));
+      const manifest = await CacheManifest.load(cacheDir);
+      manifest.set("file:///src/a.ts", { fingerprint: "a", cacheUrl: toFileUrl(path).href, dependencies: [] });
+      await manifest.save();
+
+      await new TsImporterCache({ cacheDir }).prune({ maxAge: 0 });
+
+      assertEquals((await CacheManifest.load(cacheDir)).get("file:///src/a.ts"), undefined);
+    });
+
+    it("should remove nothing without any limits", async () => {
+      await writeEntry("a", "a.ts", "export {};", daysAgo(10));
+
+      const removed = await new TsImporterCache({ cacheDir }).prune({});
+
+      assertEquals(removed, []);
+    });
+  });
+
+  describe("clear", () => {
+    it("should remove all entries and the manifest but leave other files alone", async () => {
+      await writeEntry("a", "a.ts", "export {};", daysAgo(1));
+      await writeEntry("b", "b.ts", "export {};", daysAgo(1));
+      await Deno.writeTextFile(join(cacheDir, CACHE_MANIFEST_FILENAME), "{}");
+      await Deno.writeTextFile(join(cacheDir, "unrelated.txt"), "keep me");
+
+      const cache = new TsImporterCache({ cacheDir });
+      await cache.clear();
+
+      const remaining = [];
+      for await (const entry of Deno.readDir(cacheDir)) {
+        remaining.push(entry.name);
+      }
+      assertEquals(remaining, ["unrelated.txt"]);
+      assertEquals(await cache.size(), 0);
+    });
+  });
+});
@@ -0,0 +1,288 @@
+import { join } from "@std/path/join";
+import { toFileUrl } from "@std/path/to-file-url";
+import { resolveCacheDir } from "./cache.ts";
+import { CACHE_MANIFEST_FILENAME, CacheManifest } from "./cache_manifest.ts";
+
+/**
+ * Configuration options for TsImporterCache.
+ */
+export type TsImporterCacheOptions = {
+  /**
+   * The cache directory to manage, this should match the `cacheDir` given to `TsImporter`.
+   *
+   * If provided as a relative path, it will be resolved relative to the current working directory.
+   * If not provided, defaults to Deno's cache directory under "brad_jones_ts_importer" subdirectory.
+   */
+  cacheDir?: string;
+};
+
+/**
+ * A single transformed module stored in the cache directory.
+ */
+export type TsImporterCacheEntry = {
+  /** The absolute path to the cached file */
+  path: string;
+  /** The file:// URL of the cached file, as imported by TsImporter */
+  cacheUrl: string;
+  /** The original URL of the module, taken from the manifest or the file's comment banner when known */
+  originalUrl?: string;
+  /** The size of the cached file in bytes */
+  size: number;
+  /** When the cached file was written */
+  modified: Date;
+  /** When the cached file was last used by TsImporter or read, falls back to `modified` when neither is known */
+  accessed: Date;
+};
+
+/**
+ * Options for {@linkcode TsImporterCache.prune}.
+ *
+ * All limits are optional and may be combined, an entry is removed as soon as it breaks any of them.
+ */
+export type TsImporterCachePruneOptions = {
+  /** Remove entries that have not been used for longer than this many milliseconds */
+  maxAge?: number;
+  /** Keep at most this many entries, removing the least recently used first */
+  maxEntries?: number;
+  /** Remove the least recently used entries until the cache is no larger than this many bytes */
+  maxBytes?: number;
+};
+
+// Cached files are laid out as {2 hex chars}/{2 hex chars}/{hash}-{filename}, see getCachePath
+const CACHE_SUBDIR_PATTERN = /^[0-9a-f]{2}$/;
+const CACHE_FILE_PATTERN = /^[0-9a-f]{64}-.+$/;
+
+// Matches the first line written by createOriginalUrlComment
+const ORIGINAL_URL_PATTERN = /^\/\/ Original source: (.+)$/m;
+
+/**
+ * Inspects and cleans up the directory that TsImporter writes transformed modules to.
+ *
+ * TsImporter never removes anything from its cache directory by itself, every edit to a
+ * module (or any of its dependencies) results in a new cached file. Use this class, or the
+ * companion `cli.ts` entry point, to keep the size of the cache directory under control.
+ *
+ * Only files matching the cache layout are ever touched, so it is safe to point this at a
+ * custom `cacheDir` that also holds other files.
+ *
+ * @example
+ * ```typescript ignore
+ * const cache = new TsImporterCache({ cacheDir: ".cache/imports" });
+ *
+ * console.log(`${(await cache.list()).length} entries, ${await cache.size()} bytes`);
+ *
+ * // Remove anything not used for a week and keep the cache under 100MB
+ * await cache.prune({ maxAge: 7 * 24 * 60 * 60 * 1000, maxBytes: 100 * 1024 * 1024 });
+ * ```
+ */
+export class TsImporterCache {
+  #cacheDir: string;
+
+  /**
+   * Creates a new TsImporterCache instance.
+   *
+   * @param options - Optional configuration including the cache directory
+   */
+  constructor(options: TsImporterCacheOptions = {}) {
+    this.#cacheDir = resolveCacheDir(options.cacheDir);
+  }
+
+  /**
+   * The absolute path to the managed cache directory.
+   */
+  get cacheDir(): string {
+    return this.#cacheDir;
+  }
+
+  /**
+   * Lists every cached module.
+   *
+   * @returns The entries, ordered from least to most recently used
+   */
+  async list(): Promise<TsImporterCacheEntry[]> {
+    const manifest = await CacheManifest.load(this.#cacheDir);
+    const originalUrls = new Map<string, string>();
+    for (const [url, entry] of manifest.entries()) {
+      originalUrls.set(entry.cacheUrl, url);
+    }
+
+    const entries: TsImporterCacheEntry[] = [];
+    for (const path of await this.#findCacheFiles()) {
+      const stat = await Deno.stat(path);
+      const cacheUrl = toFileUrl(path).href;
+      const modified = stat.mtime ?? new Date(0);
+      entries.push({
+        path,
+        cacheUrl,
+        originalUrl: originalUrls.get(cacheUrl) ?? await readOriginalUrl(path),
+        size: stat.size,
+        modified,
+        accessed: stat.atime && stat.atime > modified ? stat.atime : modified,
+      });
+    }
+
+    return entries.sort((a, b) => a.accessed.getTime() - b.accessed.getTime());
+  }
+
+  /**
+   * Calculates the total size of the cached modules.
+   *
+   * @returns The size in bytes
+   */
+  async size(): Promise<number> {
+    let total = 0;
+    for (const path of await this.#findCacheFiles()) {
+      total += (await Deno.stat(path)).size;
+    }
+    return total;
+  }
+
+  /**
+   * Removes cached modules that exceed the given limits.
+   *
+   * @param options - The limits to enforce
+   * @returns The entries that were removed
+   *
+   * @example
+   * ```typescript ignore
+   * const cache = new TsImporterCache();
+   *
+   * // Keep only the 1000 most recently used entries
+   * const removed = await cache.prune({ maxEntries: 1000 });
+   * ```
+   */
+  async prune(options: TsImporterCachePruneOptions): Promise<TsImporterCacheEntry[]> {
+    const entries = await this.list();
+    const removals = new Set<TsImporterCacheEntry>();
+
+    if (options.maxAge !== undefined) {
+      const cutoff = Date.now() - options.maxAge;
+      for (const entry of entries) {
+        if (entry.accessed.getTime() < cutoff) {
+          removals.add(entry);
+        }
+      }
+    }
+
+    // Entries are ordered least recently used first, so evict from the front
+    let remaining = entries.filter((entry) => !removals.has(entry));
+
+    if (options.maxEntries !== undefined && remaining.length > options.maxEntries) {
+      for (const entry of remaining.slice(0, remaining.length - options.maxEntries)) {
+        removals.add(entry);
+      }
+      remaining = remaining.slice(remaining.length - options.maxEntries);
+    }
+
+    if (options.maxBytes !== undefined) {
+      let total = remaining.reduce((sum, entry) => sum + entry.size, 0);
+      for (const entry of remaining) {
+        if (total <= options.maxBytes) {
+          break;
+        }
+        removals.add(entry);
+        total -= entry.size;
+      }
+    }
+
+    await this.#remove([...removals]);
+    return entries.filter((entry) => removals.has(entry));
+  }
+
+  /**
+   * Removes every cached module along with the manifest.
+   */
+  async clear(): Promise<void> {
+    for (const path of await this.#findCacheFiles()) {
+      await Deno.remove(path).catch(ignoreNotFound);
+    }
+    await this.#removeEmptyDirs();
+    await Deno.remove(join(this.#cacheDir, CACHE_MANIFEST_FILENAME)).catch(ignoreNotFound);
+  }
+
+  // Remove the given entries and forget about them in the manifest
+  async #remove(entries: TsImporterCacheEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    for (const entry of entries) {
+      await Deno.remove(entry.path).catch(ignoreNotFound);
+    }
+
+    const removedUrls = new Set(entries.map((entry) => entry.cacheUrl));
+    const manifest = await CacheManifest.load(this.#cacheDir);
+    for (const [url, entry] of [...manifest.entries()]) {
+      if (removedUrls.has(entry.cacheUrl)) {
+        manifest.delete(url);
+      }
+    }
+    await manifest.save();
+
+    await this.#removeEmptyDirs();
+  }
+
+  // Find all files that match the cache layout
+  async #findCacheFiles(): Promise<string[]> {
+    const paths: string[] = [];
+    for (const first of await readDirNames(this.#cacheDir, CACHE_SUBDIR_PATTERN, "dir")) {
+      for (const second of await readDirNames(join(this.#cacheDir, first), CACHE_SUBDIR_PATTERN, "dir")) {
+        for (const file of await readDirNames(join(this.#cacheDir, first, second), CACHE_FILE_PATTERN, "file")) {
+          paths.push(join(this.#cacheDir, first, second, file));
+        }
+      }
+    }
+    return paths;
+  }
+
+  // Remove cache sub directories left empty
+  async #removeEmptyDirs(): Promise<void> {
+    for (const first of await readDirNames(this.#cacheDir, CACHE_SUBDIR_PATTERN, "dir")) {
+      for (const second of await readDirNames(join(this.#cacheDir, first), CACHE_SUBDIR_PATTERN, "dir")) {
+        await Deno.remove(join(this.#cacheDir, first, second)).catch(() => {});
+      }
+      await Deno.remove(join(this.#cacheDir, first)).catch(() => {});
+    }
+  }
+}
+
+/**
+ * Lists the names of the entries in a directory that match the pattern & kind.
+ */
+async function readDirNames(path: string, pattern: RegExp, kind: "file" | "dir"): Promise<string[]> {
+  const names: string[] = [];
+  try {
+    for await (const entry of Deno.readDir(path)) {
+      if ((kind === "dir" ? entry.isDirectory : entry.isFile) && pattern.test(entry.name)) {
+        names.push(entry.name);
+      }
+    }
+  } catch (error) {
+    ignoreNotFound(error);
+  }
+  return names;
+}
+
+/**
+ * Reads the original URL from the comment banner at the top of a cached file.
+ */
+async function readOriginalUrl(path: string): Promise<string | undefined> {
+  const file = await Deno.open(path);
+  try {
+    const buffer = new Uint8Array(1024);
+    const bytesRead = await file.read(buffer);
+    const head = new TextDecoder().decode(buffer.subarray(0, bytesRead ?? 0));
+    return head.match(ORIGINAL_URL_PATTERN)?.[1];
+  } finally {
+    file.close();
+  }
+}
+
+/**
+ * Swallows NotFound errors, the file was already gone which is what we wanted anyway.
+ */
+function ignoreNotFound(error: unknown): void {
+  if (!(error instanceof Deno.errors.NotFound)) {
+    throw error;
+  }
+}
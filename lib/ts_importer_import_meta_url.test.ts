@@ -256,6 +256,38 @@ export const urls = [import.meta.url, import.meta.url];
     }
   });
 
+  it("should handle computed & destructured import.meta in modules without imports", async () => {
+    const testContent = `
+export const url = import.meta["url"];
+export const { dirname, resolve } = import.meta;
+`;
+
+    const testPath = new URL(
+      "./testdata/destructured_import_meta.ts",
+      import.meta.url,
+    );
+    await Deno.writeTextFile(testPath, testContent);
+
+    try {
+      const importer = new TsImporter({
+        importMap: { imports: {} },
+        cacheDir: "./.test_cache_meta",
+      });
+
+      const module = await importer.import<{
+        url: string;
+        dirname: string;
+        resolve: (specifier: string) => string;
+      }>(testPath.href);
+
+      expect(module.url).toBe(testPath.href);
+      expect(module.dirname).toBe(dirname(fromFileUrl(testPath)));
+      expect(module.resolve("./data.json")).toBe(new URL("./data.json", testPath).href);
+    } finally {
+      await Deno.remove(testPath);
+    }
+  });
+
   it("should handle import.meta.filename and import.meta.dirname", async () => {
     const testModuleUrl = new URL(
       "./testdata/import_meta_all.ts",
@@ -1,7 +1,8 @@
 import { assertEquals, assertStringIncludes } from "@std/assert";
 import { describe, it } from "@std/testing/bdd";
 import ts from "typescript";
-import { transpileTypeScript } from "./ts_transpiler.ts";
+import { decodeMappings } from "./source_map.ts";
+import { transpileTypeScript, transpileTypeScriptWithSourceMap } from "./ts_transpiler.ts";
 
 describe("transpileTypeScript", () => {
   const typescriptCode = `
@@ -58,6 +59,33 @@ describe("transpileTypeScript", () => {
       assertStringIncludes(result, "const point");
     });
 
+    it("should compile code that can't be stripped", () => {
+      const result = transpileTypeScript(`enum Color { Red }\nexport const color: Color = Color.Red;`, {
+        mode: "strip",
+      });
+
+      assertStringIncludes(result, `Color[Color["Red"] = 0] = "Red"`);
+      assertEquals(result.includes(": Color"), false);
+    });
+
+    it("should compile legacy decorators in strip mode", () => {
+      const code = `function logged(target: any, key: string) {}\nclass Example {\n  @logged\n  method() {}\n}\n`;
+
+      assertStringIncludes(
+        transpileTypeScript(code, { mode: "strip", compilerOptions: { experimentalDecorators: true } }),
+        "__decorate",
+      );
+      assertStringIncludes(
+        transpileTypeScript(code, {
+          mode: "strip",
+          compilerOptions: { experimentalDecorators: true, emitDecoratorMetadata: true },
+        }),
+        "__metadata",
+      );
+      // Decorators can't be stripped either, the compiler leaves standard decorators as they are
+      assertStringIncludes(transpileTypeScript(code, { mode: "strip" }), "@logged");
+    });
+
     it("should preserve code without types", () => {
       const jsCode = `
         const add = (a, b) => a + b;
@@ -380,3 +408,95 @@ describe("transpileTypeScript", () => {
     });
   });
 });
+
+describe("transpileTypeScript media types", () => {
+  const tsxCode = `export const Greeting = ({ name }: { name: string }) => <p>Hello {name}</p>;`;
+
+  it("should compile TSX even in strip mode", () => {
+    const result = transpileTypeScript(tsxCode, { mode: "strip", mediaType: "TSX" });
+
+    assertStringIncludes(result, "React.createElement");
+    assertEquals(result.includes(": string"), false);
+  });
+
+  it("should use the automatic runtime with the configured jsxImportSource", () => {
+    const result = transpileTypeScript(tsxCode, {
+      mediaType: "TSX",
+      compilerOptions: { jsx: ts.JsxEmit.ReactJSX, jsxImportSource: "preact" },
+    });
+
+    assertStringIncludes(result, `from "preact/jsx-runtime"`);
+    assertEquals(result.includes("React.createElement"), false);
+  });
+
+  it("should precompile JSX to templates", () => {
+    const result = transpileTypeScript(tsxCode, {
+      mediaType: "TSX",
+      compilerOptions: { jsx: "precompile", jsxImportSource: "preact" },
+    });
+
+    assertStringIncludes(result, `from "preact/jsx-runtime"`);
+    assertStringIncludes(result, `_jsxTemplate($$_tpl_1, _jsxEscape(name))`);
+  });
+
+  it("should compile JSX in .jsx modules", () => {
+    const result = transpileTypeScript(`export const a = <br />;`, { mode: "strip", mediaType: "JSX" });
+
+    assertStringIncludes(result, `React.createElement("br", null)`);
+  });
+
+  it("should not parse TypeScript modules as JSX", () => {
+    const result = transpileTypeScript(`export const a = <string>value;`, {
+      mode: "transpile",
+      mediaType: "TypeScript",
+    });
+
+    assertStringIncludes(result, "export const a = value;");
+  });
+});
+
+describe("transpileTypeScriptWithSourceMap", () => {
+  const code =
+    `interface User {\n  name: string;\n}\n\nexport function greet(user: User): string {\n  return user.name;\n}\n`;
+
+  // Finds the original line of the generated line containing the text
+  const originalLine = (generated: string, mappings: string, text: string) => {
+    const line = generated.split("\n").findIndex((line) => line.includes(text));
+    return decodeMappings(mappings)[line]?.[0]?.[2];
+  };
+
+  for (const mode of ["strip", "transpile", "passthrough"] as const) {
+    it(`should map the ${mode} output back to the original source`, () => {
+      const result = transpileTypeScriptWithSourceMap(code, "file:///src/greet.ts", { mode });
+
+      assertEquals(
+        result.code.trim(),
+        transpileTypeScript(code, { mode }).replace(/\/\/# sourceMappingURL=.*/, "").trim(),
+      );
+      assertEquals(result.map.sources, ["file:///src/greet.ts"]);
+      assertEquals(result.map.sourcesContent, [code]);
+      assertEquals(originalLine(result.code, result.map.mappings, "return"), 5);
+    });
+  }
+
+  it("should map every column of the strip output to the same code in the original source", () => {
+    const result = transpileTypeScriptWithSourceMap(code, "file:///src/greet.ts", { mode: "strip" });
+
+    assertEquals(result.code.split("\n")[2], "export function greet(user) {");
+    // The code following each stripped annotation maps to where it was before
+    assertEquals(decodeMappings(result.map.mappings)[2], [[0, 0, 4, 0], [26, 0, 4, 32], [27, 0, 4, 41]]);
+  });
+
+  it("should map compiled TSX in strip mode with the compiler's source map", () => {
+    const tsx = `export function Greeting(): unknown {\n  return <p>Hello</p>;\n}\n`;
+    const result = transpileTypeScriptWithSourceMap(tsx, "file:///src/greeting.tsx", { mediaType: "TSX" });
+
+    assertStringIncludes(result.code, "React.createElement");
+    assertEquals(originalLine(result.code, result.map.mappings, "React.createElement"), 1);
+  });
+
+  it("should not link to a separate source map file in transpile mode", () => {
+    const result = transpileTypeScriptWithSourceMap(code, "file:///src/greet.ts", { mode: "transpile" });
+    assertEquals(result.code.includes("sourceMappingURL"), false);
+  });
+});
@@ -1,5 +1,33 @@
-import stripTypes from "@fcrozatier/type-strip";
 import ts from "typescript";
+import { createJsxPrecompileTransformer } from "./jsx_precompile.ts";
+import { getMediaTypeExtension, isJsxMediaType, type MediaType } from "./media_type.ts";
+import { applyEdits, createEditSourceMap, decodeMappings, encodeMappings, type SourceMap } from "./source_map.ts";
+import { findTypeStripEdits } from "./strip_types.ts";
+
+/**
+ * TypeScript compiler options, extended with Deno's `"jsx": "precompile"` mode.
+ */
+export type CompilerOptions = Omit<ts.CompilerOptions, "jsx"> & {
+  /** The JSX transform, "precompile" serializes intrinsic elements to HTML templates like Deno does */
+  jsx?: ts.JsxEmit | "precompile";
+  /** Intrinsic elements the "precompile" transform leaves for the runtime to create */
+  jsxPrecompileSkipElements?: string[];
+};
+
+/**
+ * Options for {@linkcode transpileTypeScript}.
+ */
+export type TranspileOptions = {
+  /** The transpilation mode to use, see {@linkcode getTranspileMode} */
+  mode?: "transpile" | "strip" | "passthrough";
+  /** Compiler options merged over the Deno-optimized defaults, only used when compiling */
+  compilerOptions?: CompilerOptions;
+  /**
+   * The media type of the code, JSX & TSX are always compiled as type stripping can't handle JSX.
+   * When omitted the code is compiled as TSX, but has its types stripped as TypeScript.
+   */
+  mediaType?: MediaType;
+};
 
 /**
  * Transpiles TypeScript code to JavaScript by either stripping types or fully transpiling.
@@ -7,12 +35,14 @@ import ts from "typescript";
  * @param code - The TypeScript source code to transpile
  * @param options - Optional configuration object
  * @param options.mode - The transpilation mode to use:
- *   - "strip": Fast type stripping only (default)
+ *   - "strip": Fast type stripping only (default), code that can't be stripped such as an enum is compiled, so is
+ *     code with decorators or when `experimentalDecorators` or `emitDecoratorMetadata` is set
  *   - "transpile": Full TypeScript compilation with configured compiler options
  *   - "passthrough": Return the code as-is without any transformation
  * @param options.compilerOptions - Optional TypeScript compiler options to override defaults.
- *   Only applies when mode is "transpile". These options are merged with the default
+ *   Only applies when the code is compiled. These options are merged with the default
  *   Deno-optimized compiler settings.
+ * @param options.mediaType - The media type of the code. JSX & TSX code is compiled even in "strip" mode.
  * @returns The transpiled JavaScript code
  *
  * @remarks
@@ -24,57 +54,167 @@ import ts from "typescript";
  * When using "transpile" mode, the function uses TypeScript's compiler with
  * strict settings optimized for Deno runtime compatibility.
  */
-export function transpileTypeScript(
-  code: string,
-  options?: { mode?: "transpile" | "strip" | "passthrough"; compilerOptions?: ts.CompilerOptions },
-): string {
-  const transpileMode = options?.mode ?? Deno.env.get("DENO_TS_IMPORTER_TRANSPILE_MODE") ?? "strip";
+export function transpileTypeScript(code: string, options?: TranspileOptions): string {
+  const transpileMode = getTranspileMode(options?.mode);
 
   if (transpileMode === "passthrough") {
     return code;
   }
 
-  if (transpileMode === "strip") {
-    return stripTypes(code);
+  const edits = isCompiled(transpileMode, options) ? undefined : findTypeStripEdits(code);
+  if (edits) {
+    return applyEdits(code, edits);
+  }
+
+  return ts.transpileModule(code, getTranspileModuleOptions(options)).outputText;
+}
+
+/**
+ * Transpiles TypeScript code like {@linkcode transpileTypeScript}, also returning a source map.
+ *
+ * Compiled code is mapped by the TypeScript compiler, the stripped code of "strip" mode is
+ * mapped by the edits that removed its types.
+ *
+ * @param code - The TypeScript source code to transpile
+ * @param url - The URL of the source code, recorded as the source of the source map
+ * @param options - The same options as {@linkcode transpileTypeScript}
+ * @returns The transpiled JavaScript code & a source map from it back to the TypeScript code
+ *
+ * @example
+ * ```typescript
+ * const { code, map } = transpileTypeScriptWithSourceMap(
+ *   "export const answer: number = 42;",
+ *   "file:///src/answer.ts",
+ * );
+ * ```
+ */
+export function transpileTypeScriptWithSourceMap(
+  code: string,
+  url: string,
+  options?: TranspileOptions,
+): { code: string; map: SourceMap } {
+  const mode = getTranspileMode(options?.mode);
+  if (mode === "passthrough") {
+    return { code, map: createEditSourceMap(code, [], url) };
+  }
+  const edits = isCompiled(mode, options) ? undefined : findTypeStripEdits(code, url);
+  if (edits) {
+    return { code: applyEdits(code, edits), map: createEditSourceMap(code, edits, url) };
   }
 
-  return ts.transpileModule(code, {
-    /* see: https://docs.deno.com/runtime/reference/ts_config_migration/#ts-compiler-options */
+  const transpileModuleOptions = getTranspileModuleOptions(options);
+  const { outputText, sourceMapText } = ts.transpileModule(code, {
+    ...transpileModuleOptions,
     compilerOptions: {
-      allowUnreachableCode: false,
-      allowUnusedLabels: false,
-      baseUrl: "./",
-      checkJs: false,
-      jsx: ts.JsxEmit.React,
-      jsxFactory: "React.createElement",
-      jsxFragmentFactory: "React.Fragment",
-      keyofStringsOnly: false,
-      lib: ["deno.window"],
-      target: ts.ScriptTarget.ESNext,
-      module: ts.ModuleKind.ESNext,
-      moduleResolution: ts.ModuleResolutionKind.NodeNext,
-      noErrorTruncation: false,
-      noFallthroughCasesInSwitch: false,
-      noImplicitAny: true,
-      noImplicitOverride: true,
-      noImplicitReturns: false,
-      noImplicitThis: true,
-      noImplicitUseStrict: true,
-      noStrictGenericChecks: false,
-      noUnusedLocals: false,
-      noUnusedParameters: false,
-      noUncheckedIndexedAccess: false,
-      paths: {},
-      rootDirs: [],
-      strict: true,
-      strictBindCallApply: true,
-      strictFunctionTypes: true,
-      strictPropertyInitialization: true,
-      strictNullChecks: true,
-      suppressExcessPropertyErrors: false,
-      suppressImplicitAnyIndexErrors: false,
-      useUnknownInCatchVariables: true,
-      ...options?.compilerOptions,
+      ...transpileModuleOptions.compilerOptions,
+      sourceMap: true,
+      inlineSourceMap: false,
+      inlineSources: false,
     },
-  }).outputText;
+  });
+
+  // The compiler links to a separate map file, the caller decides where the map goes
+  const transpiledCode = outputText.replace(/\n?\/\/# sourceMappingURL=.*\s*$/, "\n");
+  // Names are dropped along with the compiler's idea of the source file name
+  const mappings = encodeMappings(decodeMappings((JSON.parse(sourceMapText!) as SourceMap).mappings));
+  return {
+    code: transpiledCode,
+    map: { version: 3, sources: [url], sourcesContent: [code], names: [], mappings },
+  };
+}
+
+/**
+ * Gets the transpile mode in effect, the option takes precedence over the environment variable.
+ *
+ * @param mode - The configured transpile mode, if any
+ * @returns The configured mode, else the `DENO_TS_IMPORTER_TRANSPILE_MODE` environment variable, else "strip"
+ */
+export function getTranspileMode(mode?: "transpile" | "strip" | "passthrough"): "transpile" | "strip" | "passthrough" {
+  return mode ??
+    Deno.env.get("DENO_TS_IMPORTER_TRANSPILE_MODE") as "transpile" | "strip" | "passthrough" | undefined ??
+    "strip";
+}
+
+/**
+ * Whether code is compiled with the TypeScript compiler rather than having its types stripped.
+ *
+ * Legacy decorators & their metadata are emitted by the compiler, stripping would leave them to the runtime as is.
+ */
+function isCompiled(mode: "transpile" | "strip" | "passthrough", options?: TranspileOptions): boolean {
+  const { mediaType = "TypeScript", compilerOptions } = options ?? {};
+  return mode === "transpile" || (mode === "strip" && (
+    isJsxMediaType(mediaType) || !!compilerOptions?.experimentalDecorators || !!compilerOptions?.emitDecoratorMetadata
+  ));
+}
+
+/**
+ * Gets the options to compile code of the given media type with, including the JSX transform.
+ */
+function getTranspileModuleOptions(options?: TranspileOptions): ts.TranspileOptions {
+  const { jsx, jsxPrecompileSkipElements, ...compilerOptions } = options?.compilerOptions ?? {};
+
+  // "precompile" is Deno's own transform, it falls back to the automatic runtime for components
+  const precompile = jsx === "precompile";
+  const resolvedOptions = getCompilerOptions({
+    ...compilerOptions,
+    ...(jsx !== undefined && { jsx: precompile ? ts.JsxEmit.ReactJSX : jsx }),
+  });
+
+  return {
+    // The file extension decides whether the compiler parses JSX, without one it does whenever `jsx` is set
+    fileName: options?.mediaType && `module${getMediaTypeExtension(options.mediaType)}`,
+    compilerOptions: resolvedOptions,
+    transformers: precompile
+      ? {
+        before: [createJsxPrecompileTransformer({
+          importSource: resolvedOptions.jsxImportSource ?? "react",
+          skipElements: jsxPrecompileSkipElements,
+        })],
+      }
+      : undefined,
+  };
+}
+
+/**
+ * Merges the given compiler options over the Deno-optimized defaults.
+ */
+function getCompilerOptions(compilerOptions?: ts.CompilerOptions): ts.CompilerOptions {
+  /* see: https://docs.deno.com/runtime/reference/ts_config_migration/#ts-compiler-options */
+  const classicRuntime = (compilerOptions?.jsx ?? ts.JsxEmit.React) === ts.JsxEmit.React;
+  return {
+    allowUnreachableCode: false,
+    allowUnusedLabels: false,
+    baseUrl: "./",
+    checkJs: false,
+    jsx: ts.JsxEmit.React,
+    // The factories only apply to the classic runtime
+    ...(classicRuntime && { jsxFactory: "React.createElement", jsxFragmentFactory: "React.Fragment" }),
+    keyofStringsOnly: false,
+    lib: ["deno.window"],
+    target: ts.ScriptTarget.ESNext,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.NodeNext,
+    noErrorTruncation: false,
+    noFallthroughCasesInSwitch: false,
+    noImplicitAny: true,
+    noImplicitOverride: true,
+    noImplicitReturns: false,
+    noImplicitThis: true,
+    noImplicitUseStrict: true,
+    noStrictGenericChecks: false,
+    noUnusedLocals: false,
+    noUnusedParameters: false,
+    noUncheckedIndexedAccess: false,
+    paths: {},
+    rootDirs: [],
+    strict: true,
+    strictBindCallApply: true,
+    strictFunctionTypes: true,
+    strictPropertyInitialization: true,
+    strictNullChecks: true,
+    suppressExcessPropertyErrors: false,
+    suppressImplicitAnyIndexErrors: false,
+    useUnknownInCatchVariables: true,
+    ...compilerOptions,
+  };
 }
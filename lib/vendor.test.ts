@@ -0,0 +1,139 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { join } from "@std/path";
+import { afterEach, beforeEach, describe, it } from "@std/testing/bdd";
+import { stub } from "@std/testing/mock";
+import { getVendorPath, parseJsrSpecifier, resolveJsrSpecifier, vendorJsrPackage } from "./vendor.ts";
+
+describe("parseJsrSpecifier", () => {
+  it("should parse the name, range & export", () => {
+    assertEquals(parseJsrSpecifier("jsr:@std/path@^1.0.0/join"), {
+      name: "@std/path",
+      range: "^1.0.0",
+      subpath: "./join",
+    });
+    assertEquals(parseJsrSpecifier("jsr:/@std/path"), { name: "@std/path", subpath: "." });
+  });
+
+  it("should throw without a scoped package name", () => {
+    assertThrows(() => parseJsrSpecifier("jsr:path"), Error, "Invalid jsr specifier");
+  });
+});
+
+describe("getVendorPath", () => {
+  it("should map the host & path of a URL into the vendor directory", () => {
+    assertEquals(
+      getVendorPath("/app/vendor", new URL("https://deno.land/x/oak@v17.1.4/mod.ts")),
+      join("/app/vendor", "deno.land", "x", "oak@v17.1.4", "mod.ts"),
+    );
+  });
+
+  it("should append non-default ports to the host", () => {
+    assertEquals(
+      getVendorPath("/app/vendor", new URL("http://localhost:8000/mod.ts")),
+      join("/app/vendor", "localhost_PORT8000", "mod.ts"),
+    );
+  });
+});
+
+describe("resolveJsrSpecifier", () => {
+  let vendorDir: string;
+
+  beforeEach(async () => {
+    vendorDir = await Deno.makeTempDir();
+    const packageDir = join(vendorDir, "jsr.io", "@scope", "pkg");
+    await Deno.mkdir(packageDir, { recursive: true });
+    await Deno.writeTextFile(
+      join(packageDir, "meta.json"),
+      JSON.stringify({ versions: { "1.0.0": {}, "1.1.0": {}, "1.2.0": { yanked: true }, "2.0.0": {} } }),
+    );
+    for (const version of ["1.0.0", "1.1.0", "2.0.0"]) {
+      await Deno.writeTextFile(
+        join(packageDir, `${version}_meta.json`),
+        JSON.stringify({ exports: { ".": "./mod.ts", "./utils": "./src/utils.ts" } }),
+      );
+    }
+  });
+
+  afterEach(async () => {
+    await Deno.remove(vendorDir, { recursive: true });
+  });
+
+  it("should use the highest vendored version satisfying the range", () => {
+    assertEquals(
+      resolveJsrSpecifier("jsr:@scope/pkg@^1.0.0", vendorDir).href,
+      "https://jsr.io/@scope/pkg/1.1.0/mod.ts",
+    );
+    assertEquals(resolveJsrSpecifier("jsr:@scope/pkg", vendorDir).href, "https://jsr.io/@scope/pkg/2.0.0/mod.ts");
+  });
+
+  it("should resolve the exports of the package", () => {
+    assertEquals(
+      resolveJsrSpecifier("jsr:@scope/pkg@^1.0.0/utils", vendorDir).href,
+      "https://jsr.io/@scope/pkg/1.1.0/src/utils.ts",
+    );
+    assertThrows(
+      () => resolveJsrSpecifier("jsr:@scope/pkg@^1.0.0/missing", vendorDir),
+      Error,
+      `doesn't export "./missing"`,
+    );
+  });
+
+  it("should throw when no vendored version satisfies the range", () => {
+    assertThrows(() => resolveJsrSpecifier("jsr:@scope/pkg@^3.0.0", vendorDir), Error, "No vendored version");
+  });
+
+  it("should throw when the package isn't vendored", () => {
+    assertThrows(() => resolveJsrSpecifier("jsr:@scope/other", vendorDir), Error, "jsr:@scope/other is not vendored");
+  });
+});
+
+describe("vendorJsrPackage", () => {
+  let vendorDir: string;
+
+  beforeEach(async () => {
+    vendorDir = await Deno.makeTempDir();
+  });
+
+  afterEach(async () => {
+    await Deno.remove(vendorDir, { recursive: true });
+  });
+
+  it("should download the metadata of the version satisfying the range", async () => {
+    const responses: Record<string, unknown> = {
+      "https://jsr.io/@scope/pkg/meta.json": { versions: { "1.0.0": {}, "1.1.0": {}, "2.0.0": {} } },
+      "https://jsr.io/@scope/pkg/1.1.0_meta.json": { exports: { ".": "./mod.ts" } },
+    };
+    using fetchStub = stub(globalThis, "fetch", (input: string | URL | Request) => {
+      const body = responses[String(input)];
+      return Promise.resolve(body ? Response.json(body) : new Response(null, { status: 404 }));
+    });
+
+    assertEquals(
+      (await vendorJsrPackage("jsr:@scope/pkg@^1.0.0", vendorDir)).href,
+      "https://jsr.io/@scope/pkg/1.1.0/mod.ts",
+    );
+    assertEquals(fetchStub.calls.length, 2);
+
+    // Now it is vendored it resolves without fetching anything
+    assertEquals(
+      resolveJsrSpecifier("jsr:@scope/pkg@^1.0.0", vendorDir).href,
+      "https://jsr.io/@scope/pkg/1.1.0/mod.ts",
+    );
+    await vendorJsrPackage("jsr:@scope/pkg@^1.0.0", vendorDir);
+    assertEquals(fetchStub.calls.length, 2);
+  });
+
+  it("should throw when the package doesn't exist", async () => {
+    using _fetchStub = stub(
+      globalThis,
+      "fetch",
+      () => Promise.resolve(new Response(null, { status: 404, statusText: "Not Found" })),
+    );
+
+    await assertRejects(
+      () => vendorJsrPackage("jsr:@scope/missing", vendorDir),
+      Error,
+      "Failed to fetch https://jsr.io/@scope/missing/meta.json: Not Found",
+    );
+  });
+});
@@ -0,0 +1,172 @@
+import { ensureDir } from "@std/fs";
+import { dirname, join } from "@std/path";
+import { format, maxSatisfying, parseRange, tryParse, tryParseRange } from "@std/semver";
+
+/** Where JSR packages are served from */
+const JSR_URL = "https://jsr.io";
+
+/**
+ * A parsed `jsr:` specifier.
+ */
+export type JsrSpecifier = {
+  /** The package name, including its scope, eg: "@std/path" */
+  name: string;
+  /** The version range, eg: "^1.0.0", if the specifier has one */
+  range?: string;
+  /** The export of the package, "." for the package itself or eg: "./join" */
+  subpath: string;
+};
+
+/**
+ * Parses a `jsr:` specifier.
+ *
+ * @param specifier - The specifier, eg: "jsr:@std/path@^1.0.0/join"
+ * @returns The package name, version range & export
+ * @throws When the specifier doesn't contain a scoped package name
+ *
+ * @example
+ * ```typescript
+ * parseJsrSpecifier("jsr:@std/path@^1.0.0/join");
+ * // { name: "@std/path", range: "^1.0.0", subpath: "./join" }
+ * ```
+ */
+export function parseJsrSpecifier(specifier: string): JsrSpecifier {
+  const [scope, packageSegment, ...subpathSegments] = specifier.replace(/^jsr:\/?/, "").split("/");
+  if (!scope?.startsWith("@") || !packageSegment) {
+    throw new Error(`Invalid jsr specifier: ${specifier}`);
+  }
+
+  const versionIndex = packageSegment.indexOf("@");
+  const name = `${scope}/${versionIndex === -1 ? packageSegment : packageSegment.slice(0, versionIndex)}`;
+  const range = versionIndex === -1 ? undefined : packageSegment.slice(versionIndex + 1);
+  return {
+    name,
+    ...(range && { range }),
+    subpath: subpathSegments.length > 0 ? `./${subpathSegments.join("/")}` : ".",
+  };
+}
+
+/**
+ * Gets the path a remote module is stored at in a vendor directory.
+ *
+ * The layout is the one Deno creates for `"vendor": true`: the host (with `_PORT<port>` appended
+ * for non-default ports) followed by the path of the URL, eg: `vendor/jsr.io/@std/path/1.0.8/join.ts`.
+ *
+ * @param vendorDir - The vendor directory
+ * @param url - The URL of the remote module
+ * @returns The path of the vendored file
+ *
+ * @example
+ * ```typescript
+ * getVendorPath("/app/vendor", new URL("https://deno.land/x/oak@v17.1.4/mod.ts"));
+ * // "/app/vendor/deno.land/x/oak@v17.1.4/mod.ts"
+ * ```
+ */
+export function getVendorPath(vendorDir: string, url: URL): string {
+  const host = url.port ? `${url.hostname}_PORT${url.port}` : url.hostname;
+  return join(vendorDir, host, ...url.pathname.split("/").map(decodeURIComponent));
+}
+
+/**
+ * Resolves a `jsr:` specifier to the URL of a module of a vendored JSR package.
+ *
+ * The highest vendored version satisfying the version range is used, according to the `meta.json`
+ * of the package, and the export is looked up in the `<version>_meta.json` of that version.
+ * Resolution is synchronous, so it can be used while replacing the imports of a module.
+ *
+ * @param specifier - The specifier, eg: "jsr:@std/path@^1.0.0/join"
+ * @param vendorDir - The vendor directory
+ * @returns The `https://jsr.io/` URL of the module, read it with {@linkcode getVendorPath}
+ * @throws When the package isn't vendored or doesn't export the subpath
+ *
+ * @example
+ * ```typescript ignore
+ * resolveJsrSpecifier("jsr:@std/path@^1.0.0/join", "/app/vendor");
+ * // https://jsr.io/@std/path/1.0.8/join.ts
+ * ```
+ */
+export function resolveJsrSpecifier(specifier: string, vendorDir: string): URL {
+  const { name, subpath } = parseJsrSpecifier(specifier);
+  const packageDir = getVendorPath(vendorDir, new URL(`${JSR_URL}/${name}`));
+
+  const version = selectVersion(readMeta(join(packageDir, "meta.json"), specifier), specifier);
+  const versionMeta = readMeta(join(packageDir, `${version}_meta.json`), specifier);
+  const exports = (versionMeta.exports ?? {}) as Record<string, string>;
+  const target = exports[subpath];
+  if (!target) {
+    throw new Error(`${name}@${version} doesn't export "${subpath}"`);
+  }
+  return new URL(`${JSR_URL}/${name}/${version}/${target.replace(/^\.\//, "")}`);
+}
+
+/**
+ * Downloads the JSR metadata a `jsr:` specifier is resolved with into a vendor directory.
+ *
+ * The `meta.json` of the package & the `<version>_meta.json` of the version satisfying the range
+ * are fetched from JSR, unless the specifier already resolves against the vendor directory.
+ * The modules of the package are not downloaded, they are vendored as they are imported.
+ *
+ * @param specifier - The specifier, eg: "jsr:@std/path@^1.0.0/join"
+ * @param vendorDir - The vendor directory
+ * @returns The `https://jsr.io/` URL of the module, see {@linkcode resolveJsrSpecifier}
+ * @throws When the metadata can't be fetched, or the package doesn't export the subpath
+ */
+export async function vendorJsrPackage(specifier: string, vendorDir: string): Promise<URL> {
+  try {
+    return resolveJsrSpecifier(specifier, vendorDir);
+  } catch {
+    // Not vendored yet, or the vendored metadata predates the range
+  }
+
+  const { name } = parseJsrSpecifier(specifier);
+  const packageDir = getVendorPath(vendorDir, new URL(`${JSR_URL}/${name}`));
+  const meta = await downloadMeta(`${JSR_URL}/${name}/meta.json`, join(packageDir, "meta.json"));
+  const version = selectVersion(meta, specifier);
+  await downloadMeta(`${JSR_URL}/${name}/${version}_meta.json`, join(packageDir, `${version}_meta.json`));
+  return resolveJsrSpecifier(specifier, vendorDir);
+}
+
+/**
+ * Selects the highest version of a package's `meta.json` that isn't yanked & satisfies the range of the specifier.
+ */
+function selectVersion(meta: Record<string, unknown>, specifier: string): string {
+  const { name, range } = parseJsrSpecifier(specifier);
+  const versions = Object.entries((meta.versions ?? {}) as Record<string, { yanked?: boolean }>)
+    .filter(([, { yanked }]) => !yanked)
+    .map(([version]) => tryParse(version))
+    .filter((version) => version !== undefined);
+  const version = maxSatisfying(versions, (range && tryParseRange(range)) || parseRange("*"));
+  if (!version) {
+    const vendored = Object.keys(meta.versions ?? {}).join(", ") || "none";
+    throw new Error(`No vendored version of ${name} satisfies ${specifier}, vendored versions: ${vendored}`);
+  }
+  return format(version);
+}
+
+/**
+ * Reads a JSR metadata file of the vendor directory.
+ */
+function readMeta(path: string, specifier: string): Record<string, unknown> {
+  try {
+    return JSON.parse(Deno.readTextFileSync(path));
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      throw new Error(`${specifier} is not vendored, ${path} doesn't exist`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Fetches a JSR metadata file & writes it into the vendor directory.
+ */
+async function downloadMeta(url: string, path: string): Promise<Record<string, unknown>> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.statusText}`);
+  }
+  const text = await response.text();
+  await ensureDir(dirname(path));
+  await Deno.writeTextFile(path, text);
+  return JSON.parse(text);
+}
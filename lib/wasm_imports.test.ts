@@ -0,0 +1,68 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { getWasmImports, replaceWasmImports } from "./wasm_imports.ts";
+
+/**
+ * Builds a WebAssembly module exporting `get()`, which returns the result of calling
+ * the `value()` function imported from each of the given modules, added together.
+ */
+function buildWasm(modules: string[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const section = (id: number, content: number[]) => [id, content.length, ...content];
+  const name = (text: string) => [text.length, ...encoder.encode(text)];
+
+  const imports = modules.flatMap((module) => [...name(module), ...name("value"), 0x00, 0x00]);
+  const calls = modules.flatMap((_, index) => index === 0 ? [0x10, 0] : [0x10, index, 0x6a]);
+  const body = [0x00, ...calls, 0x0b];
+
+  return new Uint8Array([
+    ...[0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00],
+    ...section(1, [0x01, 0x60, 0x00, 0x01, 0x7f]),
+    ...section(2, [modules.length, ...imports]),
+    ...section(3, [0x01, 0x00]),
+    ...section(7, [0x01, ...name("get"), 0x00, modules.length]),
+    ...section(10, [0x01, body.length, ...body]),
+  ]);
+}
+
+describe("getWasmImports", () => {
+  it("should list the modules a WebAssembly module imports from", () => {
+    assertEquals(getWasmImports(buildWasm(["./env.js", "other"])), ["./env.js", "other"]);
+  });
+
+  it("should list each module once", () => {
+    assertEquals(getWasmImports(buildWasm(["./env.js", "./env.js"])), ["./env.js"]);
+  });
+
+  it("should return nothing for a module without imports", () => {
+    const bytes = new Uint8Array([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00]);
+    assertEquals(getWasmImports(bytes), []);
+  });
+
+  it("should throw for content that isn't WebAssembly", () => {
+    assertThrows(() => getWasmImports(new TextEncoder().encode("export {};")), Error, "Not a WebAssembly module");
+  });
+});
+
+describe("replaceWasmImports", () => {
+  it("should replace the imported module specifiers", () => {
+    const bytes = replaceWasmImports(
+      buildWasm(["./env.js", "other"]),
+      (specifier) => specifier === "other" ? "file:///cache/ab/cd/abcd-other.js" : specifier,
+    );
+    assertEquals(getWasmImports(bytes), ["./env.js", "file:///cache/ab/cd/abcd-other.js"]);
+  });
+
+  it("should produce a module that still compiles & links", () => {
+    const bytes = replaceWasmImports(buildWasm(["./env.js"]), () => "x".repeat(200));
+    const instance = new WebAssembly.Instance(new WebAssembly.Module(new Uint8Array(bytes)), {
+      ["x".repeat(200)]: { value: () => 42 },
+    });
+    assertEquals((instance.exports.get as () => number)(), 42);
+  });
+
+  it("should return the same bytes when there are no imports", () => {
+    const bytes = new Uint8Array([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00]);
+    assertEquals(replaceWasmImports(bytes, () => "unused"), bytes);
+  });
+});
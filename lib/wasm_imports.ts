@@ -0,0 +1,193 @@
+/** The id of the section listing the imports of a WebAssembly module */
+const IMPORT_SECTION_ID = 2;
+
+/** The magic number & version every WebAssembly binary starts with */
+const HEADER_SIZE = 8;
+
+const textDecoder = new TextDecoder();
+const textEncoder = new TextEncoder();
+
+/**
+ * An import of a WebAssembly module.
+ */
+type WasmImport = {
+  /** The module specifier the value is imported from */
+  module: string;
+  /** The raw bytes following the module specifier: the imported name & its description */
+  rest: Uint8Array;
+};
+
+/**
+ * Lists the module specifiers a WebAssembly module imports from.
+ *
+ * Deno resolves these the same way as the specifiers of a JavaScript module, relative to the
+ * URL of the WebAssembly module.
+ *
+ * @param bytes - The WebAssembly binary
+ * @returns The unique module specifiers, in the order they are first imported
+ * @throws When the binary is not a valid WebAssembly module
+ *
+ * @example
+ * ```typescript ignore
+ * const specifiers = getWasmImports(await Deno.readFile("./add.wasm"));
+ * // ["./env.js"]
+ * ```
+ */
+export function getWasmImports(bytes: Uint8Array): string[] {
+  const section = findImportSection(bytes);
+  return section ? [...new Set(section.imports.map(({ module }) => module))] : [];
+}
+
+/**
+ * Replaces the module specifiers a WebAssembly module imports from.
+ *
+ * @param bytes - The WebAssembly binary
+ * @param replacer - Returns the new specifier for each imported specifier
+ * @returns A new binary, or the same one if it has no imports
+ * @throws When the binary is not a valid WebAssembly module
+ */
+export function replaceWasmImports(bytes: Uint8Array, replacer: (specifier: string) => string): Uint8Array {
+  const section = findImportSection(bytes);
+  if (!section) {
+    return bytes;
+  }
+
+  const content: number[] = [...encodeUnsigned(section.imports.length)];
+  for (const { module, rest } of section.imports) {
+    const name = textEncoder.encode(replacer(module));
+    content.push(...encodeUnsigned(name.length), ...name, ...rest);
+  }
+
+  const header = [IMPORT_SECTION_ID, ...encodeUnsigned(content.length)];
+  const result = new Uint8Array(bytes.length - (section.end - section.start) + header.length + content.length);
+  result.set(bytes.subarray(0, section.start));
+  result.set(header, section.start);
+  result.set(content, section.start + header.length);
+  result.set(bytes.subarray(section.end), section.start + header.length + content.length);
+  return result;
+}
+
+/**
+ * Finds & parses the import section of a WebAssembly binary.
+ */
+function findImportSection(bytes: Uint8Array): { start: number; end: number; imports: WasmImport[] } | undefined {
+  if (bytes.length < HEADER_SIZE || textDecoder.decode(bytes.subarray(1, 4)) !== "asm" || bytes[0] !== 0) {
+    throw new Error("Not a WebAssembly module");
+  }
+
+  const reader = new WasmReader(bytes, HEADER_SIZE);
+  while (reader.offset < bytes.length) {
+    const start = reader.offset;
+    const id = reader.byte();
+    const size = reader.unsigned();
+    const end = reader.offset + size;
+    if (id !== IMPORT_SECTION_ID) {
+      reader.offset = end;
+      continue;
+    }
+
+    const imports: WasmImport[] = [];
+    const count = reader.unsigned();
+    for (let index = 0; index < count; index++) {
+      const module = reader.name();
+      const restStart = reader.offset;
+      reader.name();
+      reader.importDescription();
+      imports.push({ module, rest: bytes.subarray(restStart, reader.offset) });
+    }
+    return { start, end, imports };
+  }
+  return undefined;
+}
+
+/**
+ * Reads the values of the WebAssembly binary format.
+ */
+class WasmReader {
+  #bytes: Uint8Array;
+
+  /** The offset of the next byte to read */
+  offset: number;
+
+  constructor(bytes: Uint8Array, offset: number) {
+    this.#bytes = bytes;
+    this.offset = offset;
+  }
+
+  byte(): number {
+    if (this.offset >= this.#bytes.length) {
+      throw new Error("Unexpected end of WebAssembly module");
+    }
+    return this.#bytes[this.offset++];
+  }
+
+  // An unsigned LEB128 number, 64 bit numbers lose precision but are only ever skipped
+  unsigned(): number {
+    let result = 0;
+    let multiplier = 1;
+    let byte;
+    do {
+      byte = this.byte();
+      result += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+    } while (byte & 0x80);
+    return result;
+  }
+
+  name(): string {
+    const length = this.unsigned();
+    const start = this.offset;
+    this.offset += length;
+    return textDecoder.decode(this.#bytes.subarray(start, this.offset));
+  }
+
+  limits(): void {
+    const flags = this.byte();
+    this.unsigned();
+    if (flags & 1) {
+      this.unsigned();
+    }
+  }
+
+  importDescription(): void {
+    const kind = this.byte();
+    switch (kind) {
+      case 0x00: // function: type index
+        this.unsigned();
+        break;
+      case 0x01: // table: reference type & limits
+        this.byte();
+        this.limits();
+        break;
+      case 0x02: // memory: limits
+        this.limits();
+        break;
+      case 0x03: // global: value type & mutability
+        this.byte();
+        this.byte();
+        break;
+      case 0x04: // tag: attribute & type index
+        this.byte();
+        this.unsigned();
+        break;
+      default:
+        throw new Error(`Unknown WebAssembly import kind 0x${kind.toString(16)}`);
+    }
+  }
+}
+
+/**
+ * Encodes an unsigned LEB128 number.
+ */
+function encodeUnsigned(value: number): number[] {
+  const bytes: number[] = [];
+  do {
+    let byte = value & 0x7f;
+    value >>>= 7;
+    if (value !== 0) {
+      byte |= 0x80;
+    }
+    bytes.push(byte);
+  } while (value !== 0);
+  return bytes;
+}
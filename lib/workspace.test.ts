@@ -0,0 +1,72 @@
+import { assertEquals } from "@std/assert";
+import { join, toFileUrl } from "@std/path";
+import { afterEach, beforeEach, describe, it } from "@std/testing/bdd";
+import { findWorkspace, getWorkspaceImportMap } from "./workspace.ts";
+
+describe("workspace", () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await Deno.realPath(await Deno.makeTempDir());
+    const files: Record<string, unknown> = {
+      "deno.json": { workspace: ["./packages/*", "./tools/cli"] },
+      "packages/utils/deno.json": {
+        name: "@repo/utils",
+        exports: { ".": "./mod.ts", "./strings": "./src/strings.ts" },
+      },
+      "packages/ui/deno.jsonc": `{
+        // Comments & trailing commas are allowed
+        "name": "@repo/ui",
+        "exports": "./mod.tsx",
+      }`,
+      "tools/cli/deno.json": { exports: "./main.ts" },
+      "scripts/deno.json": { name: "@repo/scripts", exports: "./mod.ts" },
+    };
+    for (const [path, content] of Object.entries(files)) {
+      await Deno.mkdir(join(rootDir, path, ".."), { recursive: true });
+      await Deno.writeTextFile(
+        join(rootDir, path),
+        typeof content === "string" ? content : JSON.stringify(content),
+      );
+    }
+    // A member directory without a config file isn't a member
+    await Deno.mkdir(join(rootDir, "packages", "docs"));
+  });
+
+  afterEach(async () => {
+    await Deno.remove(rootDir, { recursive: true });
+  });
+
+  describe("findWorkspace", () => {
+    it("should find the workspace of a member & of the root", async () => {
+      const workspace = await findWorkspace(join(rootDir, "packages", "utils", "deno.json"));
+
+      assertEquals(workspace?.rootConfigFilePath, join(rootDir, "deno.json"));
+      assertEquals(
+        workspace?.members.map(({ dir, name }) => [dir, name]).sort(),
+        [
+          [join(rootDir, "packages", "ui"), "@repo/ui"],
+          [join(rootDir, "packages", "utils"), "@repo/utils"],
+          [join(rootDir, "tools", "cli"), undefined],
+        ],
+      );
+      assertEquals(await findWorkspace(join(rootDir, "deno.json")), workspace);
+    });
+
+    it("should be undefined for config files that aren't members", async () => {
+      assertEquals(await findWorkspace(join(rootDir, "scripts", "deno.json")), undefined);
+    });
+  });
+
+  describe("getWorkspaceImportMap", () => {
+    it("should map the name & exports of each named member to its sources", async () => {
+      const workspace = await findWorkspace(join(rootDir, "deno.json"));
+
+      assertEquals(getWorkspaceImportMap(workspace!).imports, {
+        "@repo/ui": toFileUrl(join(rootDir, "packages", "ui", "mod.tsx")).href,
+        "@repo/utils": toFileUrl(join(rootDir, "packages", "utils", "mod.ts")).href,
+        "@repo/utils/strings": toFileUrl(join(rootDir, "packages", "utils", "src", "strings.ts")).href,
+      });
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { expandGlob } from "@std/fs";
+import { dirname, join, resolve, toFileUrl } from "@std/path";
+import type { ImportMap, Imports } from "./import_map.ts";
+import { parseJsonc } from "./jsonc.ts";
+
+/** The names of Deno config files, in the order Deno looks for them */
+const CONFIG_FILE_NAMES = ["deno.json", "deno.jsonc"];
+
+/**
+ * A package of a Deno workspace.
+ */
+export type WorkspaceMember = {
+  /** The absolute path to the directory of the member */
+  dir: string;
+  /** The absolute path to the deno.json or deno.jsonc of the member */
+  configFilePath: string;
+  /** The name of the package, eg: `@scope/member`, undefined when the member isn't named */
+  name?: string;
+  /** The modules the member exports keyed by subpath, eg: `{ ".": "./mod.ts", "./utils": "./src/utils.ts" }` */
+  exports: Record<string, string>;
+};
+
+/**
+ * A Deno workspace, see https://docs.deno.com/runtime/fundamentals/workspaces/
+ */
+export type Workspace = {
+  /** The absolute path to the deno.json or deno.jsonc listing the members of the workspace */
+  rootConfigFilePath: string;
+  /** The members of the workspace, in the order they are listed */
+  members: WorkspaceMember[];
+};
+
+/**
+ * Finds the workspace a Deno config file belongs to, either as its root or as one of its members.
+ *
+ * Walks up from the directory of the config file to the nearest config file with a `workspace`
+ * field, whose members may be directories or glob patterns of directories.
+ *
+ * @param configFilePath - The absolute path to a deno.json or deno.jsonc file
+ * @returns The workspace, or undefined when the config file isn't part of one
+ * @throws When a config file on the way can't be read or parsed
+ *
+ * @example
+ * ```typescript ignore
+ * // Given /repo/deno.json containing { "workspace": ["./packages/*"] }
+ * const workspace = await findWorkspace("/repo/packages/utils/deno.json");
+ * // { rootConfigFilePath: "/repo/deno.json", members: [{ dir: "/repo/packages/utils", name: "@repo/utils", ... }] }
+ * ```
+ */
+export async function findWorkspace(configFilePath: string): Promise<Workspace | undefined> {
+  let dir = dirname(configFilePath);
+  while (true) {
+    const rootConfigFilePath = await findConfigFileIn(dir);
+    const config = rootConfigFilePath ? await readConfigFile(rootConfigFilePath) : undefined;
+    const patterns = config ? getWorkspacePatterns(config.workspace) : undefined;
+    if (rootConfigFilePath && patterns) {
+      const members = await loadWorkspaceMembers(dir, patterns);
+      const isPartOfWorkspace = rootConfigFilePath === configFilePath ||
+        members.some((member) => member.configFilePath === configFilePath);
+      return isPartOfWorkspace ? { rootConfigFilePath, members } : undefined;
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Maps the name & exports of each member of a workspace to its local source, so members can import each other.
+ *
+ * @param workspace - The workspace
+ * @returns An import map mapping `@scope/member` & `@scope/member/subpath` to the file URLs of the exported modules
+ *
+ * @example
+ * ```typescript ignore
+ * getWorkspaceImportMap(await findWorkspace("/repo/deno.json"));
+ * // { imports: { "@repo/utils": "file:///repo/packages/utils/mod.ts", "@repo/utils/strings": "file:///..." } }
+ * ```
+ */
+export function getWorkspaceImportMap(workspace: Workspace): ImportMap {
+  const imports: Imports = {};
+  for (const { dir, name, exports } of workspace.members) {
+    if (!name) {
+      continue;
+    }
+    for (const [subpath, target] of Object.entries(exports)) {
+      const specifier = subpath === "." ? name : `${name}/${subpath.replace(/^\.\//, "")}`;
+      imports[specifier] = toFileUrl(resolve(dir, target)).href;
+    }
+  }
+  return { imports };
+}
+
+/**
+ * Reads a Deno config file, comments & trailing commas are allowed.
+ */
+async function readConfigFile(path: string): Promise<Record<string, unknown>> {
+  return (parseJsonc(await Deno.readTextFile(path), path) ?? {}) as Record<string, unknown>;
+}
+
+/**
+ * Gets the path to the config file of a directory, if it has one.
+ */
+async function findConfigFileIn(dir: string): Promise<string | undefined> {
+  for (const name of CONFIG_FILE_NAMES) {
+    const path = join(dir, name);
+    try {
+      if ((await Deno.stat(path)).isFile) {
+        return path;
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        throw error;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Gets the member patterns of a `workspace` field, either a list or the older `{ members: [...] }` form.
+ */
+function getWorkspacePatterns(workspace: unknown): string[] | undefined {
+  const patterns = typeof workspace === "object" && workspace !== null && !Array.isArray(workspace)
+    ? (workspace as { members?: unknown }).members
+    : workspace;
+  return Array.isArray(patterns) ? patterns.filter((pattern) => typeof pattern === "string") : undefined;
+}
+
+/**
+ * Loads the config file of each member directory matching the patterns, members without one are left out.
+ */
+async function loadWorkspaceMembers(rootDir: string, patterns: string[]): Promise<WorkspaceMember[]> {
+  const dirs: string[] = [];
+  for (const pattern of patterns) {
+    if (pattern.includes("*")) {
+      for await (const entry of expandGlob(pattern, { root: rootDir, includeDirs: true })) {
+        if (entry.isDirectory) {
+          dirs.push(entry.path);
+        }
+      }
+    } else {
+      dirs.push(resolve(rootDir, pattern));
+    }
+  }
+
+  const members: WorkspaceMember[] = [];
+  for (const dir of dirs) {
+    const configFilePath = await findConfigFileIn(dir);
+    if (!configFilePath) {
+      continue;
+    }
+    const config = await readConfigFile(configFilePath);
+    members.push({
+      dir,
+      configFilePath,
+      ...(typeof config.name === "string" && { name: config.name }),
+      exports: getExports(config.exports),
+    });
+  }
+  return members;
+}
+
+/**
+ * Normalizes the `exports` field of a member, a string being the same as `{ ".": string }`.
+ */
+function getExports(exports: unknown): Record<string, string> {
+  if (typeof exports === "string") {
+    return { ".": exports };
+  }
+  if (typeof exports !== "object" || exports === null) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(exports).filter((entry): entry is [string, string] => typeof entry[1] === "string"),
+  );
+}